@@ -0,0 +1,41 @@
+// scripts/export-feedback.ts
+// every rated answer in the store (all users) as JSONL eval cases, on stdout:
+//   pnpm -s export-feedback > feedback.jsonl
+//   pnpm -s export-feedback --rating=down --from=2025-01-01 --to=2025-01-31
+// uses the same CHAT_STORE settings as the app, so run it from the project root
+import { collectRatedExchanges, toFeedbackFilter, toJsonl } from '../src/lib/feedback';
+import { loadChatMessages } from '../src/lib/message-validation';
+import { getChatStore } from '../src/util/chat-store';
+import { feedbackExportQuerySchema } from '../src/util/schemas';
+
+async function main() {
+  // --name=value flags, checked like the query string of GET /api/feedback/export
+  const options = Object.fromEntries(
+    process.argv.slice(2).flatMap(arg => {
+      const match = /^--(\w+)=(.*)$/.exec(arg);
+      return match ? [[match[1], match[2]]] : [];
+    }),
+  );
+  const parsed = feedbackExportQuerySchema.safeParse(options);
+  if (!parsed.success) {
+    console.error(`invalid options: ${parsed.error.issues.map(issue => `--${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+  const filter = toFeedbackFilter(parsed.data);
+
+  const chats = await getChatStore().listChats({ includeArchived: true });
+  let count = 0;
+  for (const chat of chats) {
+    const records = collectRatedExchanges(chat, await loadChatMessages(chat.id), filter);
+    process.stdout.write(toJsonl(records));
+    count += records.length;
+  }
+  // the summary goes to stderr so stdout stays valid JSONL
+  console.error(`${count} rated answers from ${chats.length} chats.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,48 @@
+// scripts/migrate-chats.ts
+// upgrade every stored chat to the current message schema version, on disk:
+//   pnpm migrate-chats            migrate, then report what couldn't be upgraded
+//   pnpm migrate-chats --verify   only check; exits 1 if anything is outdated or unreadable
+// uses the same CHAT_STORE settings as the app, so run it from the project root
+import { migrateStoredChat } from '../src/lib/message-validation';
+import { MIGRATIONS } from '../src/lib/migrations';
+import { getChatStore } from '../src/util/chat-store';
+import { CHAT_SCHEMA_VERSION } from '../src/util/schemas';
+
+async function main() {
+  const verify = process.argv.includes('--verify');
+  const chats = await getChatStore().listChats({ includeArchived: true });
+
+  console.log(`${verify ? 'Checking' : 'Migrating'} ${chats.length} chats to schema version ${CHAT_SCHEMA_VERSION}:`);
+  for (const migration of MIGRATIONS) console.log(`  v${migration.version}: ${migration.description}`);
+
+  let outdated = 0;
+  let quarantined = 0;
+  for (const chat of chats) {
+    const report = await migrateStoredChat(chat.id, { write: !verify });
+    const behind = report.fromVersion < CHAT_SCHEMA_VERSION;
+    if (behind || report.changed) outdated++;
+    quarantined += report.quarantined.length;
+
+    // quiet for chats that were already fine
+    if (!behind && !report.changed && report.quarantined.length === 0) continue;
+    console.log(
+      `${chat.id} (${chat.title ?? 'Untitled chat'}): v${report.fromVersion}` +
+        (report.changed ? `, ${verify ? 'needs upgrading' : 'upgraded'}` : '') +
+        (report.quarantined.length > 0 ? `, ${report.quarantined.length} quarantined` : ''),
+    );
+    for (const { messageId, reason } of report.quarantined) {
+      console.log(`  ${messageId}: ${reason.split('\n')[0]}`);
+    }
+  }
+
+  console.log(
+    `${outdated} chats ${verify ? 'need migrating' : 'migrated'}, ${quarantined} messages quarantined ` +
+      '(kept on disk, not shown or sent to the model).',
+  );
+  if (verify && (outdated > 0 || quarantined > 0)) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,26 @@
+// src/app/api/auth/login/route.ts
+// sign in with name + password; on success the session cookie is set
+import { createSessionToken, sessionCookie } from '../../../../lib/auth';
+import { verifyUser } from '../../../../util/user-store';
+import { credentialsSchema } from '../../../../util/schemas';
+
+// POST /api/auth/login with { name, password }
+export async function POST(req: Request) {
+  const parsed = credentialsSchema.safeParse(await req.json().catch(() => null));
+  // same message for every failure so we don't reveal which names exist
+  const user = parsed.success ? await verifyUser(parsed.data.name, parsed.data.password) : null;
+  if (!user) {
+    return new Response(JSON.stringify({ ok: false, error: 'Wrong name or password.' }), {
+      status: 401,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  return new Response(JSON.stringify({ ok: true, user }), {
+    status: 200,
+    headers: {
+      'content-type': 'application/json',
+      'set-cookie': sessionCookie(await createSessionToken(user)),
+    },
+  });
+}
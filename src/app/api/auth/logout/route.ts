@@ -0,0 +1,14 @@
+// src/app/api/auth/logout/route.ts
+// sign out by expiring the session cookie
+import { clearSessionCookie } from '../../../../lib/auth';
+
+// POST /api/auth/logout
+export async function POST() {
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: {
+      'content-type': 'application/json',
+      'set-cookie': clearSessionCookie(),
+    },
+  });
+}
@@ -0,0 +1,14 @@
+// src/app/api/auth/me/route.ts
+// who am I? the UI uses this to show the signed-in user
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+
+// GET /api/auth/me returns { user } or 401
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  return new Response(JSON.stringify({ ok: true, user }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,39 @@
+// src/app/api/auth/register/route.ts
+// create a local account and sign straight in (turn off with AUTH_ALLOW_SIGNUP=false)
+import { createSessionToken, sessionCookie } from '../../../../lib/auth';
+import { createUser } from '../../../../util/user-store';
+import { credentialsSchema } from '../../../../util/schemas';
+
+// POST /api/auth/register with { name, password }
+export async function POST(req: Request) {
+  if (process.env.AUTH_ALLOW_SIGNUP === 'false') {
+    return new Response(JSON.stringify({ ok: false, error: 'Sign-up is disabled.' }), {
+      status: 403,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  const parsed = credentialsSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ ok: false, error: 'Invalid name or password.', issues: parsed.error.issues }),
+      { status: 400, headers: { 'content-type': 'application/json' } },
+    );
+  }
+
+  const user = await createUser(parsed.data.name, parsed.data.password);
+  if (!user) {
+    return new Response(JSON.stringify({ ok: false, error: 'That name is taken.' }), {
+      status: 409,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  return new Response(JSON.stringify({ ok: true, user }), {
+    status: 201,
+    headers: {
+      'content-type': 'application/json',
+      'set-cookie': sessionCookie(await createSessionToken(user)),
+    },
+  });
+}
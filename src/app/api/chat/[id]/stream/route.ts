@@ -0,0 +1,32 @@
+// src/app/api/chat/[id]/stream/route.ts
+// reattach to an answer that is still being generated: replays what was
+// streamed so far and then follows it live (useChat's resumeStream calls this)
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai';
+import { canAccessChat, forbidden, getSessionUser, unauthorized } from '../../../../../lib/auth';
+import { getChatStore } from '../../../../../util/chat-store';
+import { getStreamStore } from '../../../../../util/stream-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/chat/[id]/stream returns the live stream, or 204 when nothing is running
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  // a chat that doesn't exist yet simply has nothing to resume
+  const chat = await getChatStore().getChat(id);
+  if (chat && !canAccessChat(chat, user)) return forbidden();
+
+  const stream = chat?.activeStreamId
+    ? await getStreamStore().resumeStream(chat.activeStreamId)
+    : null;
+  if (!stream) return new Response(null, { status: 204 });
+
+  return new Response(stream.pipeThrough(new TextEncoderStream()), {
+    status: 200,
+    headers: UI_MESSAGE_STREAM_HEADERS,
+  });
+}
@@ -1,82 +1,137 @@
 // src/app/api/chat/route.ts
-// this gives us access to OpenAI models by name
-import { openai } from '@ai-sdk/openai';
+// the provider registry resolves "provider:model" ids and knows which are allowed
+import { DEFAULT_MODEL_ID, getLanguageModel, isAllowedModel } from '../../../lib/providers';
 // these helpers convert messages into the format the model wants,
 // ask the model for a streaming response, and define the shape of UI messages
 import {
   convertToModelMessages,
   streamText,
-  UIMessage,
-  validateUIMessages,
-  TypeValidationError,
+  safeValidateUIMessages,
   createIdGenerator,
-  UIDataTypes,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
 } from 'ai';
-import type { LanguageModelUsage } from 'ai';
-import { loadChat, saveChat } from '../../../util/chat-store';
-import { dataPartsSchema, metadataSchema } from '../../../util/schemas';
-import { tools } from '../../../lib/ai-tools';
+import type { InferUIMessageChunk, LanguageModelUsage } from 'ai';
+import { getChatStore } from '../../../util/chat-store';
+import { getStreamStore } from '../../../util/stream-store';
+import { recordUsage } from '../../../util/usage-store';
+import { getRateLimiter, getRateLimitKey } from '../../../util/rate-limiter';
+import { canAccessChat, forbidden, getSessionUser, unauthorized } from '../../../lib/auth';
+import { apiError } from '../../../lib/api-errors';
+import { getChatRequestLimits, parseChatRequest, readJsonBody } from '../../../lib/chat-request';
+import { chatSettingsSchema, dataPartsSchema, metadataSchema, type MyDataParts } from '../../../util/schemas';
+import { isQuarantined, loadChatMessages, validateStoredMessages } from '../../../lib/message-validation';
+import { resolveEnabledTools, tools } from '../../../lib/ai-tools';
+import { getMcpTools, resolveEnabledMcpServers } from '../../../lib/mcp';
+import type { ToolContext } from '../../../lib/tool-registry';
+import { createDataPartWriter, type DataPartWriter } from '../../../lib/data-parts';
+import { withDocumentSources } from '../../../lib/documents';
+import {
+  applyToolApproval,
+  denyPendingApprovals,
+  findToolCallMessage,
+  getModelTools,
+  hasPendingApprovals,
+} from '../../../lib/tool-approval';
+import { generateChatTitle } from '../../../lib/chat-title';
+import { prepareFilesForModel, storeInlineFiles } from '../../../lib/attachments';
+import { fitContext, getContextBudget, type ContextUsage } from '../../../lib/context-window';
+import { summarizeMessages } from '../../../lib/context-summary';
+import { computeCost } from '../../../lib/pricing';
+import { describeQuota, findExceededQuota } from '../../../lib/usage';
+import {
+  attachMessage,
+  getParentId,
+  getPath,
+  removeMessage,
+  withParentIds,
+} from '../../../lib/chat-tree';
+import {
+  getDefaultSettings,
+  getPromptVariables,
+  renderPromptTemplate,
+} from '../../../lib/prompt-presets';
+import {
+  buildStopConditions,
+  createStepTimeout,
+  getAgentLoopConfig,
+  type StepSummary,
+} from '../../../lib/agent-loop';
+import type { MyUIMessage } from '../../../lib/chat-types';
 
 // tell the platform we allow streaming responses to run up to 30 seconds long
 export const maxDuration = 30;
 
-// optional metadata type to expose usage and some handy fields
-type MyMetadata = {
-  totalUsage?: LanguageModelUsage; // full usage object (tokens, input/output breakdown)
-  totalTokens?: number;            // simple token count for quick display
-  createdAt?: number;              // server timestamp when stream started
-  model?: string;                  // model id for debugging/analytics
-};
-
-// make server-side UI messages tools-aware so inputs/outputs are typed end-to-end
-export type MyUIMessage = UIMessage<MyMetadata, UIDataTypes, typeof tools>;
-
 // this function runs when the browser sends a POST request to /api/chat
 export async function POST(req: Request) {
-  // grab the raw body once so we can support multiple payload shapes
-  const body = await req.json();
+  // who is asking? middleware already turns anonymous requests away, but the
+  // route checks again so it never depends on being behind middleware
+  const user = await getSessionUser(req);
+
+  // too many requests in a short time are turned away before any real work;
+  // signed-in users get their own bucket, anonymous callers share one per IP
+  const limit = await getRateLimiter().take(getRateLimitKey(req, user?.id));
+  if (!limit.ok) {
+    return apiError(429, 'rate_limited', 'Too many requests. Please slow down.', {
+      headers: { 'retry-after': String(Math.ceil(limit.retryAfterMs / 1000)) },
+    });
+  }
+
+  if (!user) return unauthorized();
+
+  // grab the raw body once (refusing oversized ones) and check it against the
+  // request shapes below before anything else looks at it
+  const limits = getChatRequestLimits();
+  const read = await readJsonBody(req, limits.maxBodyBytes);
+  const parsed = read.ok ? parseChatRequest(read.body, limits) : read;
+  if (!parsed.ok) {
+    const { status, code, error, issues } = parsed.error;
+    return apiError(status, code, error, issues ? { issues } : {});
+  }
 
   // support BOTH shapes:
-  // 1) default: { messages, customKey?, user_id? }  (not used by our client)
-  // 2) transport-custom: { id, message? (latest), trigger?, messageId? }
+  // 1) default: { messages, customKey? }  (not used by our client)
+  // 2) transport-custom: { id, message? (latest), trigger?, messageId?, approval? }
   const {
     messages: fullMessages,
     customKey,
-    user_id,
     id,
     message,
     trigger,
     messageId,
+    approval,
+    pinned,
+    feedback,
+    model: requestedModel,
+    settings: requestedSettings,
     route
-  }: {
-    messages?: MyUIMessage[];
-    customKey?: string;
-    user_id?: string;
-    id?: string;
-    message?: MyUIMessage;
-    trigger?: 'submit-message' | 'regenerate-message' | 'delete-message';
-    messageId?: string;
-    route?: string;
-  } = body;
+  } = parsed.request;
+
+  // the configured persistence backend (file, sqlite or memory)
+  const store = getChatStore();
 
   // keep logs server-side; do not expose internal details to users
   if (customKey) console.log('received customKey:', customKey);
-  if (user_id) console.log('received user_id:', user_id);
   if (route) console.log('route: ', route);
   if (trigger) console.log('trigger: ', trigger);
 
+  // the saved chat record (undefined for a brand-new chat); only its owner may touch it
+  let chat = id ? await store.getChat(id) : undefined;
+  if (chat && !canAccessChat(chat, user)) return forbidden();
+
   // handle deletions early and persist the change
   if (trigger === 'delete-message') {
     if (!id || !messageId) {
-      return new Response(
-        JSON.stringify({ ok: false, error: 'Missing id or messageId for delete-message.' }),
-        { status: 400, headers: { 'content-type': 'application/json' } },
-      );
+      return apiError(400, 'invalid_request', 'Missing id or messageId for delete-message.');
     }
 
-    const existing = await loadChat(id);
-    const next = existing.filter(m => m.id !== messageId);
-    await saveChat({ chatId: id, messages: next });
+    // replies to the deleted message move up to its parent, so no branch is lost
+    await store.updateMessages(id, stored =>
+      removeMessage(withParentIds(stored as MyUIMessage[]), messageId),
+    );
+    // the context summary may quote the deleted message, so let it be rebuilt
+    if (chat?.contextSummary) await store.updateChat(id, { contextSummary: null });
 
     // return a small JSON response; the client already updated the UI optimistically
     return new Response(JSON.stringify({ ok: true }), {
@@ -85,82 +140,326 @@ export async function POST(req: Request) {
     });
   }
 
-  // decide which message list to send to the model
+  // pinning keeps a message in the model's context however long the chat gets
+  if (trigger === 'pin-message') {
+    if (!id || !messageId || typeof pinned !== 'boolean') {
+      return apiError(400, 'invalid_request', 'Expected id, messageId and pinned for pin-message.');
+    }
+
+    let found = false;
+    await store.updateMessages(id, stored =>
+      stored.map(m => {
+        if (m.id !== messageId) return m;
+        found = true;
+        return { ...m, metadata: { ...(m.metadata as MyUIMessage['metadata']), pinned } };
+      }),
+    );
+    if (!found) return apiError(404, 'not_found', 'Message not found.');
+
+    return new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  // thumbs up/down (plus an optional comment) on an answer, kept in its
+  // metadata; rated answers can be exported as eval cases (lib/feedback.ts)
+  if (trigger === 'feedback') {
+    if (!id || !messageId || feedback === undefined) {
+      return apiError(400, 'invalid_request', 'Expected id, messageId and feedback for feedback.');
+    }
+
+    let found = false;
+    await store.updateMessages(id, stored =>
+      stored.map(m => {
+        if (m.id !== messageId || m.role !== 'assistant') return m;
+        found = true;
+        const metadata = { ...(m.metadata as MyUIMessage['metadata']) };
+        if (feedback) {
+          metadata.feedback = {
+            rating: feedback.rating,
+            ...(feedback.comment && { comment: feedback.comment }),
+            ratedAt: Date.now(),
+          };
+        } else {
+          delete metadata.feedback;
+        }
+        return { ...m, metadata };
+      }),
+    );
+    if (!found) return apiError(404, 'not_found', 'Answer not found.');
+
+    return new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  // pick the model: what the client asked for (if allowed), else what the chat used
+  // last time, else the default; anything not on the allow-list is refused
+  if (requestedModel !== undefined && !isAllowedModel(requestedModel)) {
+    return apiError(400, 'model_not_allowed', 'Model not allowed.');
+  }
+  const storedModel = chat?.model && isAllowedModel(chat.model) ? chat.model : undefined;
+  const modelId = requestedModel ?? storedModel ?? DEFAULT_MODEL_ID;
+
+  // same for the system prompt and generation settings: request, then chat, then defaults
+  const parsedSettings =
+    requestedSettings === undefined ? undefined : chatSettingsSchema.safeParse(requestedSettings);
+  if (parsedSettings && !parsedSettings.success) {
+    return apiError(400, 'invalid_settings', 'Invalid settings.', { issues: parsedSettings.error.issues });
+  }
+  const settings = parsedSettings?.data ?? chat?.settings ?? getDefaultSettings();
+
+  // everything from here on asks the model for an answer, so it counts against
+  // the user's daily/monthly quota; refuse once a limit is used up
+  const exceeded = await findExceededQuota(user.id);
+  if (exceeded) {
+    return apiError(429, 'quota_exceeded', describeQuota(exceeded), {
+      quota: exceeded,
+      // seconds until the quota period rolls over
+      headers: { 'retry-after': String(Math.max(Math.ceil((exceeded.resetsAt - Date.now()) / 1000), 1)) },
+    });
+  }
+
+  // a chat belongs to whoever sends its first message; claim it before anything
+  // is written so nobody else can slip in under the same id
+  if (id && !chat && (message || fullMessages?.length)) {
+    chat = await store.createChat(id, { ownerId: user.id });
+    if (!canAccessChat(chat, user)) return forbidden();
+  }
+
+  // decide which message list to send to the model; for stored chats that is
+  // the one branch (root-to-leaf path) the request is about
   let combined: MyUIMessage[] = [];
+  // the new user message, linked to the message it answers
+  let userMessage: MyUIMessage | undefined;
+  // when the user just approved/denied a tool call, the resolved result to stream first
+  let approvalChunk: InferUIMessageChunk<MyUIMessage> | undefined;
 
   if (trigger || (id && !fullMessages)) {
     // transport-based routing path (trigger-aware or { id, message } shape)
     if (!id) {
-      throw new Error('Missing "id" for trigger-based routing.');
+      return apiError(400, 'invalid_request', 'Missing "id" for trigger-based routing.');
     }
 
-    // load persisted history
-    let history: MyUIMessage[] = (await loadChat(id)) as MyUIMessage[];
+    // load persisted history: every branch, upgraded to the current schema
+    // version (messages that can't be upgraded come back quarantined)
+    let history = await loadChatMessages(id);
 
-    if (trigger === 'submit-message') {
-      // append the newest user message coming from the client
+    // a new message means the user moved on, so any tool call still waiting
+    // for approval is treated as denied (the model can't see dangling calls)
+    if (message && trigger !== 'regenerate-message') {
+      const settled = denyPendingApprovals(history);
+      for (const [i, m] of settled.entries()) {
+        if (m !== history[i]) await store.updateMessage(id, m);
+      }
+      history = settled;
+    }
+
+    if (trigger === 'submit-message' || (!trigger && message)) {
+      // a new user message continues (or, after an edit, branches off) the
+      // path that ends at its parent; the fallback shape is treated the same
       if (!message) {
-        throw new Error('Missing "message" for submit-message trigger.');
+        return apiError(400, 'invalid_request', 'Missing "message" for submit-message trigger.');
       }
-      history = [...history, message];
-    } else if (trigger === 'regenerate-message') {
-      // roll back to just before the target messageId (usually the assistant message)
-      if (!messageId) {
-        throw new Error('Missing "messageId" for regenerate-message trigger.');
+      // the new message must match our part/metadata/tool schemas before it is stored
+      // (calls to MCP server tools are `dynamic-tool` parts, checked by shape only)
+      const checked = await safeValidateUIMessages<MyUIMessage>({
+        messages: [message],
+        tools,
+        dataSchemas: dataPartsSchema,
+      });
+      if (!checked.success) {
+        return apiError(400, 'invalid_request', 'Invalid message.');
       }
-      const idx = history.findIndex(m => m.id === messageId);
-      if (idx !== -1) {
-        // If the provided id is a USER message, find the preceding ASSISTANT and trim there.
-        history = history.slice(0, idx); // chop off everything from cutIndex onward
+      // a new message never replaces one that is stored (an answer, the root
+      // of another branch), and can't answer itself
+      if (history.some(m => m.id === message.id)) {
+        return apiError(409, 'conflict', 'A message with this id already exists.');
       }
-    } else {
-      // if no recognized trigger but we do have { id, message }, treat it like submit
-      if (message) {
-        history = [...history, message];
+      if (message.metadata?.parentId === message.id) {
+        return apiError(400, 'unknown_parent', 'A message cannot answer itself.');
+      }
+      const attached = attachMessage(history, message);
+      if (!attached) return apiError(400, 'unknown_parent', 'Unknown parent message.');
+      // attachments sent inline (data urls) are moved to the upload store so
+      // the saved chat only keeps references
+      const stored = await storeInlineFiles(attached, user.id);
+      if ('error' in stored) return apiError(400, 'invalid_attachment', stored.error);
+      // the metadata is the server's to write: only the parent comes from the
+      // client, so usage, cost, ratings or pins can't be made up. the question
+      // is stamped with the server's clock (answers already get one), so it
+      // shows a time and can be found by date in search
+      userMessage = {
+        ...stored.message,
+        metadata: { parentId: getParentId(stored.message), createdAt: Date.now() },
+      };
+      combined = getPath([...history, userMessage], userMessage.id);
+    } else if (trigger === 'tool-approval') {
+      // the user approved or denied a pending tool call: run or reject it here,
+      // on the server, using the call we persisted (not whatever the client sent)
+      if (!approval) {
+        return apiError(400, 'invalid_request', 'Missing "approval" for tool-approval trigger.');
+      }
+      // the call may sit on any branch; resolve it on the path that leads to it
+      const target = findToolCallMessage(history, approval.toolCallId);
+      const applied = target && (await applyToolApproval(getPath(history, target.id), approval, { userId: user.id }));
+      if (!applied) {
+        return apiError(409, 'conflict', 'No pending tool call with that id.');
       }
+      combined = applied.messages;
+      approvalChunk = applied.chunk;
+      // persist the decision right away so it survives even if the model call fails
+      await store.updateMessage(id, combined[combined.length - 1]);
+    } else if (trigger === 'regenerate-message') {
+      // a new answer becomes a sibling of the old one, which stays stored;
+      // pointing at a user message asks for another answer to that message;
+      // without messageId it is the last message of the active branch (the
+      // most recently stored one, see getActivePath)
+      const target = messageId ? history.find(m => m.id === messageId) : history[history.length - 1];
+      if (!target) {
+        return apiError(404, 'not_found', 'Unknown message to regenerate.');
+      }
+      combined = getPath(history, target.role === 'assistant' ? getParentId(target) : target.id);
+    } else {
+      // no recognized trigger and no message: just continue the active branch
+      combined = getPath(history, history[history.length - 1]?.id ?? null);
     }
-
-    combined = history;
   } else {
     // default path: client sent the full message array
     if (!fullMessages) {
-      throw new Error('Missing "messages" array in request body.');
+      return apiError(400, 'invalid_request', 'Missing "messages" array in request body.');
     }
     combined = fullMessages;
   }
 
-  // validate messages from storage + the new message before calling the model
-  let validated: MyUIMessage[] = [];
-  try {
-    validated = (await validateUIMessages({
-      messages: combined,
-      tools,
-    })) as MyUIMessage[];
-  } catch (error) {
-    if (error instanceof TypeValidationError) {
-      // if stored messages don't match current schemas, start fresh
-      console.error('Database messages validation failed:', error);
-      validated = [];
-    } else {
-      throw error;
+  // validate messages from storage + the new message before calling the model;
+  // one that doesn't fit the current schemas (quarantined) is left out of the
+  // prompt on its own, the rest of the conversation still goes through
+  const validated = (await validateStoredMessages(combined)).filter(m => !isQuarantined(m));
+
+  // the reply hangs off the last message on the path; when it continues an
+  // assistant message (after an approval) it keeps that message's parent
+  const lastValidated = validated[validated.length - 1];
+  const replyParentId =
+    lastValidated?.role === 'assistant' ? getParentId(lastValidated) : (lastValidated?.id ?? null);
+
+  // store the new question right away so a reload mid-answer still shows it
+  if (id && userMessage) await store.appendMessage(id, userMessage);
+
+  // if other calls in the same turn still wait for approval, don't call the model yet
+  const waitingForApproval = hasPendingApprovals(validated);
+
+  // multi-step loop: after a tool call the model gets another step to use the result
+  const loopConfig = getAgentLoopConfig();
+  // abort a step that hangs, and never run past this route's maxDuration
+  const stepTimeout = createStepTimeout({
+    stepTimeoutMs: loopConfig.stepTimeoutMs,
+    maxDurationSeconds: maxDuration,
+  });
+
+  // the chat's system prompt, with {{date}}, {{user_name}}, ... filled in
+  let system = renderPromptTemplate(settings.systemPrompt, getPromptVariables({ userName: user.name }));
+
+  // long chats don't fit the model's context window: older turns are left out
+  // (pinned ones stay) and a rolling summary, stored with the chat, replaces them
+  let modelMessages: MyUIMessage[] = [];
+  let contextUsage: ContextUsage | undefined;
+  if (!waitingForApproval) {
+    const fitted = await fitContext({
+      // attachments are loaded from the upload store first, so inlined text files count too
+      messages: await prepareFilesForModel(validated, user.id),
+      budget: getContextBudget(modelId, settings.maxOutputTokens),
+      system,
+      summary: chat?.contextSummary,
+      summarize: summarizeMessages,
+    });
+    modelMessages = fitted.messages;
+    contextUsage = fitted.usage;
+    if (fitted.summaryText) {
+      system += `\n\nSummary of the earlier conversation (older messages are not shown):\n${fitted.summaryText}`;
+    }
+    if (id && fitted.newSummary) {
+      await store.updateChat(id, { contextSummary: fitted.newSummary });
     }
   }
 
+  // notes for the page about how this answer is made, sent once the stream starts
+  const notices: MyDataParts['status'][] = [];
+
+  // the tools this chat has enabled: built-in ones (approval-gated ones stop at
+  // the call) plus those of its MCP servers, connected on first use
+  const mcp = waitingForApproval
+    ? { tools: {}, unreachable: [] }
+    : await getMcpTools(resolveEnabledMcpServers(settings.enabledTools));
+  const modelTools = waitingForApproval
+    ? {}
+    : { ...getModelTools(resolveEnabledTools(settings.enabledTools)), ...mcp.tools };
+  for (const server of mcp.unreachable) {
+    notices.push({ message: `The ${server} tool server can't be reached; answering without its tools.`, level: 'warning' });
+  }
+
+  // writes typed data parts (progress, status, tables from tools) into the
+  // answer; it exists once the UI message stream below starts, which is
+  // before the model's first step, and tools reach it through their context
+  let writeData: DataPartWriter | undefined;
+  // tools act for the user who asked (e.g. searchDocuments only sees their documents)
+  const toolContext: ToolContext = { userId: user.id };
+
+  // the loop's progress as a transient part; one id, so each update replaces the last
+  let currentStep = 1;
+  const writeProgress = (step: number | undefined, activity: string) => {
+    currentStep = step ?? currentStep;
+    writeData?.('progress', { step: currentStep, maxSteps: loopConfig.maxSteps, activity }, { id: 'progress' });
+  };
+
   // ask the AI for a streaming text response
-  const result = streamText({
-    model: openai('gpt-4.1'),                // choose which AI model to use
-    system: 'You are a helpful assistant.',  // give the AI a short instruction
-    messages: convertToModelMessages(validated), // convert UI messages to model format
-    tools,
-  });
+  const result = waitingForApproval
+    ? undefined
+    : streamText({
+        model: getLanguageModel(modelId),        // the model picked for this chat
+        system,
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens,
+        // convert UI messages to model format
+        messages: convertToModelMessages(modelMessages),
+        tools: modelTools,
+        experimental_context: toolContext,
+        stopWhen: buildStopConditions(loopConfig), // max steps or a stop-on tool was called
+        abortSignal: stepTimeout.signal,
+        // (re)arm the per-step timer as each step begins, and tell the page where the loop is
+        prepareStep: ({ stepNumber }) => {
+          stepTimeout.startStep();
+          writeProgress(stepNumber + 1, stepNumber === 0 ? 'thinking' : 'reading the tool results');
+          return undefined;
+        },
+        onChunk: ({ chunk }) => {
+          if (chunk.type === 'tool-call') writeProgress(undefined, `using ${chunk.toolName}`);
+        },
+        onFinish: stepTimeout.dispose,
+        onAbort: stepTimeout.dispose,
+        onError: stepTimeout.dispose,
+      });
+  if (!result) stepTimeout.dispose();
 
   // ensure the stream runs to completion even if the client disconnects,
   // so onFinish will still fire and persist the updated messages
-  result.consumeStream(); // fire-and-forget
+  result?.consumeStream(); // fire-and-forget
 
-  // attach lightweight metadata at the start and finish so the client can render
-  // things like timestamps and token usage without extra round-trips
-  return result.toUIMessageStreamResponse({
+  // the id this answer is buffered under, so a reloaded page can reattach to it
+  let streamId: string | undefined;
+
+  // only untitled chats get an automatic title; a user-chosen title always wins
+  const needsTitle = id != null && !chat?.title;
+  let generatedTitle: string | null = null;
+
+  // what this answer used and cost, for the usage ledger (set when the model finishes)
+  let finishUsage: { usage: LanguageModelUsage; model: string; cost?: number } | undefined;
+
+  // wrap the model stream in our own UI message stream so we can write extra
+  // data parts (like the generated title) after the model is done
+  const stream = createUIMessageStream<MyUIMessage>({
     // forward a safe error message to the client; fall back to a generic string
     onError: (error) => {
       if (error == null) return 'unknown error';
@@ -173,33 +472,164 @@ export async function POST(req: Request) {
     originalMessages: validated,
 
     // generate consistent server-side message ids for persistence
-    // NEW
-    generateMessageId: createIdGenerator({
+    generateId: createIdGenerator({
       prefix: 'msg',
       size: 16,
     }),
 
-    messageMetadata: ({ part }) => {
-      if (part.type === 'start') {
-        return {
-          createdAt: Date.now(), // client can show a local time label
-          model: 'gpt-4.1',      // handy for debugging or analytics
-        };
+    execute: async ({ writer }) => {
+      writeData = createDataPartWriter(writer);
+      toolContext.writeData = writeData;
+
+      // tell the client how the approved/denied call turned out before anything else
+      if (approvalChunk) writer.write(approvalChunk);
+      for (const notice of notices) writeData('status', notice);
+      if (!result) return;
+
+      // per-step details (tool calls, finish reason, usage) for the step groups in the UI;
+      // when continuing an assistant message (after an approval), keep its earlier steps
+      const last = validated[validated.length - 1];
+      const steps: StepSummary[] = last?.role === 'assistant' ? [...(last.metadata?.steps ?? [])] : [];
+      let stepToolCalls: StepSummary['toolCalls'] = [];
+      // the exact model the provider says answered (e.g. a dated snapshot)
+      let responseModelId: string | undefined;
+
+      // attach lightweight metadata at the start and finish so the client can render
+      // things like timestamps and token usage without extra round-trips;
+      // passages found by searchDocuments are added as source parts (citations)
+      writer.merge(
+        withDocumentSources(result.toUIMessageStream({
+          messageMetadata: ({ part }) => {
+            if (part.type === 'start') {
+              return {
+                createdAt: Date.now(),    // client can show a local time label
+                model: modelId,           // handy for debugging or analytics
+                parentId: replyParentId,  // where this answer sits in the conversation tree
+                context: contextUsage,    // how full the context window is (for the meter)
+              };
+            }
+            if (part.type === 'tool-call') {
+              // remember the calls made in the current step
+              stepToolCalls.push({ toolCallId: part.toolCallId, toolName: part.toolName });
+            }
+            if (part.type === 'finish-step') {
+              responseModelId = part.response.modelId;
+              steps.push({
+                stepNumber: steps.length + 1,
+                finishReason: part.finishReason,
+                usage: part.usage,
+                toolCalls: stepToolCalls,
+              });
+              stepToolCalls = [];
+              // send the whole list; metadata arrays are replaced, not merged
+              return { steps: [...steps] };
+            }
+            if (part.type === 'finish') {
+              // the model that actually answered, keeping the provider prefix
+              const answeredBy = responseModelId ? `${modelId.split(':')[0]}:${responseModelId}` : modelId;
+              const cost = computeCost(answeredBy, part.totalUsage);
+              finishUsage = { usage: part.totalUsage, model: answeredBy, cost };
+              // provide both a simple token count and the full usage object
+              return {
+                totalTokens: part.totalUsage.totalTokens, // let the UI display token count
+                totalUsage: part.totalUsage,              // richer usage details for advanced UIs
+                model: answeredBy,
+                cost,                                     // USD, when the model has a known price
+              };
+            }
+          },
+        })),
+      );
+
+      if (!needsTitle) return;
+
+      // once the first reply is complete, summarize the exchange into a title
+      try {
+        const answer = await result.text;
+        generatedTitle = await generateChatTitle({
+          messages: [
+            ...validated,
+            { id: 'pending', role: 'assistant', parts: [{ type: 'text', text: answer }] },
+          ],
+        });
+        if (generatedTitle) {
+          // transient: the header picks it up live, but it isn't stored in the message
+          writeData('title', { title: generatedTitle });
+        }
+      } catch (error) {
+        // a missing title is cosmetic; never fail the chat over it
+        console.error('title generation failed:', error);
       }
-      if (part.type === 'finish') {
-        // provide both a simple token count and the full usage object
-        return {
-          totalTokens: part.totalUsage.totalTokens, // let the UI display token count
-          totalUsage: part.totalUsage,              // richer usage details for advanced UIs
-        };
+    },
+
+    // when the stream finishes, persist what this request added
+    onFinish: async ({ messages, responseMessage }) => {
+      // add this answer to the usage ledger; quotas and the usage page read it
+      if (finishUsage) {
+        try {
+          await recordUsage({
+            userId: user.id,
+            chatId: id ?? null,
+            messageId: responseMessage.id,
+            model: finishUsage.model,
+            inputTokens: finishUsage.usage.inputTokens ?? 0,
+            outputTokens: finishUsage.usage.outputTokens ?? 0,
+            cachedInputTokens: finishUsage.usage.cachedInputTokens ?? 0,
+            totalTokens: finishUsage.usage.totalTokens ?? 0,
+            cost: finishUsage.cost,
+          });
+        } catch (error) {
+          // the answer matters more than the bookkeeping; keep going
+          console.error('failed to record usage:', error);
+        }
+      }
+
+      if (!id) return;
+      if (fullMessages) {
+        // the client owns the whole list in this shape, so store it as-is
+        await store.saveChat({ chatId: id, messages });
+      } else {
+        // only write the new row so concurrent requests can't clobber each other
+        // (the user message was stored before the model started)
+        await store.appendMessage(id, responseMessage);
+      }
+
+      // the answer is saved, so there is nothing left to resume; a newer
+      // request may have started its own stream meanwhile, so only clear ours
+      if (streamId && (await store.getChat(id))?.activeStreamId === streamId) {
+        await store.updateChat(id, { activeStreamId: null });
+      }
+
+      // remember the model so a reload keeps the same choice
+      if (chat?.model !== modelId) {
+        await store.updateChat(id, { model: modelId });
+      }
+      // same for settings sent with the request (e.g. chosen before the first message)
+      if (parsedSettings?.success && JSON.stringify(chat?.settings) !== JSON.stringify(settings)) {
+        await store.updateChat(id, { settings });
+      }
+
+      // save the title last (the chat now exists), unless the user named it meanwhile
+      if (generatedTitle && !(await store.getChat(id))?.title) {
+        await store.updateChat(id, { title: generatedTitle });
       }
     },
+  });
 
-    // when the stream finishes, persist the full message list (including AI reply)
-    // NEW
-    onFinish: async ({ messages }) => {
+  return createUIMessageStreamResponse({
+    stream,
+    // buffer a copy of what the client receives and record it on the chat;
+    // GET /api/chat/[id]/stream replays it after a reload or a dropped connection
+    consumeSseStream: async ({ stream: sseStream }) => {
       if (!id) return;
-      await saveChat({ chatId: id, messages: messages as MyUIMessage[] });
+      try {
+        streamId = generateId();
+        await getStreamStore().createStream(streamId, sseStream);
+        await store.updateChat(id, { activeStreamId: streamId });
+      } catch (error) {
+        // the answer still reaches this client; it just can't be resumed
+        console.error('failed to buffer stream for resuming:', error);
+      }
     },
   });
 }
@@ -0,0 +1,62 @@
+// src/app/api/chats/[id]/export/route.test.ts
+// a message that no longer fits the schemas (quarantined) is exported as it is
+// stored in the JSON archive, and as its placeholder everywhere else
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubEnv('CHAT_STORE', 'memory');
+  vi.spyOn(console, 'error').mockImplementation(() => {}); // "quarantining stored message ..."
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// an answer that called a tool this app no longer has
+const retiredToolCall = {
+  id: 'a1',
+  role: 'assistant',
+  parts: [
+    { type: 'text', text: 'Let me look that up.' },
+    { type: 'tool-retiredTool', toolCallId: 'call-1', state: 'output-available', input: {}, output: 'found it' },
+  ],
+  metadata: { parentId: 'q1' },
+};
+
+// the route with alice's chat holding a question and that answer, and a GET of an export as alice
+async function load() {
+  const { GET } = await import('./route');
+  const { createSessionToken, SESSION_COOKIE } = await import('../../../../../lib/auth');
+  const { getChatStore } = await import('../../../../../util/chat-store');
+  const store = getChatStore();
+  await store.createChat('chat-1', { ownerId: 'alice' });
+  const question = { id: 'q1', role: 'user' as const, parts: [{ type: 'text' as const, text: 'hi' }], metadata: { parentId: null } };
+  // the store takes whatever was saved back then; only loading checks it
+  await store.saveChat({ chatId: 'chat-1', messages: [question, retiredToolCall as never] });
+
+  const cookie = `${SESSION_COOKIE}=${await createSessionToken({ id: 'alice', name: 'alice' })}`;
+  return (format: string) =>
+    GET(new Request(`http://localhost/api/chats/chat-1/export?format=${format}`, { headers: { cookie } }), {
+      params: Promise.resolve({ id: 'chat-1' }),
+    });
+}
+
+describe('GET /api/chats/[id]/export', () => {
+  it('puts a quarantined message into the archive as it is stored', async () => {
+    const exportAs = await load();
+    const res = await exportAs('json');
+    expect(res.status).toBe(200);
+    const archive = (await res.json()) as { messages: unknown[] };
+    expect(archive.messages).toHaveLength(2);
+    expect(archive.messages[1]).toEqual(retiredToolCall);
+  });
+
+  it('leaves its content out of the Markdown copy', async () => {
+    const exportAs = await load();
+    const markdown = await (await exportAs('md')).text();
+    expect(markdown).toContain('hi');
+    expect(markdown).not.toContain('Let me look that up.');
+  });
+});
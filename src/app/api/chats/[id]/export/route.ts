@@ -0,0 +1,56 @@
+// src/app/api/chats/[id]/export/route.ts
+// download one chat as Markdown, a JSON archive (for import) or standalone HTML
+import { apiError } from '../../../../../lib/api-errors';
+import { embedUploads } from '../../../../../lib/attachments';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFilename,
+  toArchive,
+  toHtml,
+  toMarkdown,
+  type ExportFormat,
+} from '../../../../../lib/chat-export';
+import { loadArchiveMessages, loadChatMessages } from '../../../../../lib/message-validation';
+import { authorizeChat } from '../../../../../util/chat-access';
+import { listUsage } from '../../../../../util/usage-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/chats/[id]/export?format=md|json|html (Markdown when missing)
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  const format = (new URL(req.url).searchParams.get('format') ?? 'md') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return apiError(400, 'invalid_request', `Unknown format; use one of ${EXPORT_FORMATS.join(', ')}.`);
+  }
+
+  const { chat, user } = access;
+
+  // Markdown only names attachments; the other two carry the files themselves.
+  // the archive keeps messages that can't be shown as they are stored
+  let body: string;
+  if (format === 'md') {
+    body = toMarkdown(chat, await loadChatMessages(id));
+  } else if (format === 'html') {
+    body = toHtml(chat, await embedUploads(await loadChatMessages(id), user.id));
+  } else {
+    const messages = await embedUploads(await loadArchiveMessages(id), user.id);
+    const archive = toArchive(chat, messages, await listUsage({ userId: user.id }));
+    body = JSON.stringify(archive, null, 2);
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'content-type': EXPORT_CONTENT_TYPES[format],
+      'content-disposition': `attachment; filename="${exportFilename(chat, format)}"`,
+      'cache-control': 'private, no-store',
+    },
+  });
+}
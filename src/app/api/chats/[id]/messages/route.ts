@@ -0,0 +1,24 @@
+// src/app/api/chats/[id]/messages/route.ts
+// every stored message of a chat, all branches included, so the page can
+// show the active path and offer the alternatives next to it
+import { authorizeChat } from '../../../../../util/chat-access';
+import { loadChatMessages } from '../../../../../lib/message-validation';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/chats/[id]/messages returns { messages } in the order they were stored
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  // every branch, checked against the current schemas (the same view the page gets)
+  const messages = await loadChatMessages(id);
+
+  return new Response(JSON.stringify({ ok: true, messages }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
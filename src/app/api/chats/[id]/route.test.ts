@@ -0,0 +1,61 @@
+// src/app/api/chats/[id]/route.test.ts
+// PATCH /api/chats/[id]: what it changes, and the bodies it turns away with a
+// 400 instead of failing; each test gets a fresh (empty) chat store
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubEnv('CHAT_STORE', 'memory');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// the route with one chat of alice's in the store, and a PATCH of it as alice
+async function load() {
+  const { PATCH } = await import('./route');
+  const { createSessionToken, SESSION_COOKIE } = await import('../../../../lib/auth');
+  const { getChatStore } = await import('../../../../util/chat-store');
+  await getChatStore().createChat('chat-1', { ownerId: 'alice' });
+  const cookie = `${SESSION_COOKIE}=${await createSessionToken({ id: 'alice', name: 'alice' })}`;
+  const patch = (body: string) =>
+    PATCH(
+      new Request('http://localhost/api/chats/chat-1', {
+        method: 'PATCH',
+        body,
+        headers: { 'content-type': 'application/json', cookie },
+      }),
+      { params: Promise.resolve({ id: 'chat-1' }) },
+    );
+  return { patch, store: getChatStore() };
+}
+
+describe('PATCH /api/chats/[id]', () => {
+  it('renames and archives a chat', async () => {
+    const { patch, store } = await load();
+    const res = await patch(JSON.stringify({ title: '  Trip plans ', archived: true }));
+    expect(res.status).toBe(200);
+    expect(await store.getChat('chat-1')).toMatchObject({ title: 'Trip plans', archived: true });
+  });
+
+  it.each([
+    ['a body that is not JSON', '{oops'],
+    ['an empty body', ''],
+    ['a title that is not a string', JSON.stringify({ title: 42 })],
+    ['settings without a system prompt', JSON.stringify({ settings: { temperature: 1 } })],
+  ])('answers 400 invalid_request for %s', async (_, body) => {
+    const { patch, store } = await load();
+    const res = await patch(body);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ ok: false, code: 'invalid_request' });
+    expect(await store.getChat('chat-1')).toMatchObject({ title: null, archived: false });
+  });
+
+  it('answers 400 model_not_allowed for a model off the allow-list', async () => {
+    const { patch } = await load();
+    const res = await patch(JSON.stringify({ model: 'nobody:nothing' }));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: 'model_not_allowed' });
+  });
+});
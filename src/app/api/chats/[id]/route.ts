@@ -0,0 +1,84 @@
+// src/app/api/chats/[id]/route.ts
+// read, rename, archive or delete a single chat from the sidebar;
+// every method is limited to the chat's owner
+import { apiError } from '../../../../lib/api-errors';
+import { getChatStore } from '../../../../util/chat-store';
+import { authorizeChat } from '../../../../util/chat-access';
+import { isAllowedModel } from '../../../../lib/providers';
+import { chatUpdateSchema } from '../../../../util/schemas';
+import { deleteSharesForChat } from '../../../../util/share-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/chats/[id] returns the chat summary (title etc.)
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  return json({ ok: true, chat: access.chat }, 200);
+}
+
+// PATCH /api/chats/[id] with { title?, archived?, model?, settings? }
+export async function PATCH(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  // reject anything that isn't the shape we expect (or isn't JSON at all)
+  // before touching the store
+  const parsed = chatUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return apiError(
+      400,
+      'invalid_request',
+      'Expected { title?: string, archived?: boolean, model?: string, settings?: object }.',
+      { issues: parsed.error.issues },
+    );
+  }
+  const { title, archived, model, settings } = parsed.data;
+  if (model !== undefined && !isAllowedModel(model)) {
+    return apiError(400, 'model_not_allowed', 'Model not allowed.');
+  }
+
+  // an empty title clears it so the sidebar falls back to "Untitled chat"
+  const chat = await getChatStore().updateChat(id, {
+    ...(title !== undefined && { title: title.trim() || null }),
+    ...(archived !== undefined && { archived }),
+    ...(model !== undefined && { model }),
+    ...(settings !== undefined && { settings }),
+  });
+  if (!chat) {
+    return json({ ok: false, error: 'Chat not found.' }, 404);
+  }
+
+  return json({ ok: true, chat }, 200);
+}
+
+// DELETE /api/chats/[id] removes the chat and its messages (and revokes its share links)
+export async function DELETE(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  const removed = await getChatStore().deleteChat(id);
+  if (!removed) {
+    return json({ ok: false, error: 'Chat not found.' }, 404);
+  }
+  // a deleted chat shouldn't live on behind a link
+  await deleteSharesForChat(id, access.user.id);
+
+  return json({ ok: true }, 200);
+}
+
+// small helper to keep JSON responses consistent
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,65 @@
+// src/app/api/chats/[id]/shares/route.ts
+// read-only links to a chat: list the ones that are live, or take a new snapshot
+import { apiError } from '../../../../../lib/api-errors';
+import { embedUploads } from '../../../../../lib/attachments';
+import { getActivePath, getPath } from '../../../../../lib/chat-tree';
+import { loadChatMessages } from '../../../../../lib/message-validation';
+import { authorizeChat } from '../../../../../util/chat-access';
+import { shareRequestSchema } from '../../../../../util/schemas';
+import { createShare, listShares } from '../../../../../util/share-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/chats/[id]/shares lists this chat's live links, newest first
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  const shares = await listShares({ ownerId: access.user.id, chatId: id });
+  return json({ ok: true, shares }, 200);
+}
+
+// POST /api/chats/[id]/shares with { leafId? } snapshots one branch as it is
+// right now; later messages in the chat don't show up in the link
+export async function POST(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const access = await authorizeChat(req, id);
+  if (!access.ok) return access.response;
+
+  // an empty body is fine: share the branch stored last
+  const parsed = shareRequestSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return apiError(400, 'invalid_request', 'Expected { leafId?: string }.', { issues: parsed.error.issues });
+  }
+
+  const messages = await loadChatMessages(id);
+  const { leafId } = parsed.data;
+  const branch = leafId ? getPath(messages, leafId) : getActivePath(messages);
+  if (branch.length === 0) {
+    return apiError(leafId ? 404 : 400, leafId ? 'not_found' : 'invalid_request', 'Nothing to share yet.');
+  }
+
+  // attachments are embedded: the viewer may not read the owner's uploads
+  const share = await createShare({
+    chatId: id,
+    ownerId: access.user.id,
+    title: access.chat.title,
+    model: access.chat.model,
+    messages: await embedUploads(branch, access.user.id),
+  });
+
+  const { messages: snapshot, ...info } = share;
+  return json({ ok: true, share: { ...info, messageCount: snapshot.length } }, 201);
+}
+
+// small helper to keep JSON responses consistent
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,40 @@
+// src/app/api/chats/export/route.ts
+// "Export all": every chat the user owns (archived ones too) in one zip, each
+// as a JSON archive that import reads back plus a Markdown copy for reading
+import { strToU8, zipSync } from 'fflate';
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import { embedUploads } from '../../../../lib/attachments';
+import { exportFilename, toArchive, toMarkdown } from '../../../../lib/chat-export';
+import { loadArchiveMessages, loadChatMessages } from '../../../../lib/message-validation';
+import { getChatStore } from '../../../../util/chat-store';
+import { listUsage } from '../../../../util/usage-store';
+
+// GET /api/chats/export
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const store = getChatStore();
+  const chats = await store.listChats({ includeArchived: true, ownerId: user.id });
+  // the ledger is read once and split per chat by toArchive
+  const usage = await listUsage({ userId: user.id });
+
+  const files: Record<string, Uint8Array> = {};
+  for (const chat of chats) {
+    // the archive keeps messages that can't be shown as they are stored
+    const archive = toArchive(chat, await embedUploads(await loadArchiveMessages(chat.id), user.id), usage);
+    files[`json/${exportFilename(chat, 'json')}`] = strToU8(JSON.stringify(archive, null, 2));
+    files[`markdown/${exportFilename(chat, 'md')}`] = strToU8(toMarkdown(chat, await loadChatMessages(chat.id)));
+  }
+
+  const zip = zipSync(files);
+  const day = new Date().toISOString().slice(0, 10);
+  return new Response(new Uint8Array(zip), {
+    status: 200,
+    headers: {
+      'content-type': 'application/zip',
+      'content-disposition': `attachment; filename="chats-${day}.zip"`,
+      'cache-control': 'private, no-store',
+    },
+  });
+}
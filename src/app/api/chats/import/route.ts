@@ -0,0 +1,58 @@
+// src/app/api/chats/import/route.ts
+// bring exported chats back: a JSON archive or a zip of them (as made by
+// "Export all"); each archive becomes a new chat owned by whoever imports it
+import { apiError } from '../../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import type { ChatArchive } from '../../../../lib/chat-export';
+import {
+  checkArchive,
+  getImportMaxBytes,
+  importArchive,
+  readArchiveFile,
+  type ArchiveEntry,
+} from '../../../../lib/chat-import';
+import { readJsonBody } from '../../../../lib/chat-request';
+
+// POST /api/chats/import with multipart form data: file=<archive.json or chats.zip>,
+// or a single archive as the JSON body
+export async function POST(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const maxBytes = getImportMaxBytes();
+  let entries: ArchiveEntry[];
+  if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) return apiError(400, 'invalid_request', 'Expected a "file" field.');
+    if (file.size > maxBytes) {
+      return apiError(413, 'payload_too_large', `Imports may be at most ${maxBytes} bytes.`);
+    }
+    const read = readArchiveFile(file.name || 'upload', new Uint8Array(await file.arrayBuffer()));
+    if (!read.ok) return apiError(read.error.status, read.error.code, read.error.error);
+    entries = read.entries;
+  } else {
+    const read = await readJsonBody(req, maxBytes);
+    if (!read.ok) return apiError(read.error.status, read.error.code, read.error.error);
+    entries = [{ name: 'archive', value: read.body }];
+  }
+
+  // check everything first, so a bad archive in a zip doesn't leave half an import behind
+  const archives: ChatArchive[] = [];
+  for (const entry of entries) {
+    const checked = await checkArchive(entry, user.id);
+    if (!checked.ok) {
+      const { status, code, error, issues } = checked.error;
+      return apiError(status, code, error, issues ? { issues } : {});
+    }
+    archives.push(checked.archive);
+  }
+
+  const chats = [];
+  for (const archive of archives) chats.push(await importArchive(archive, user.id));
+
+  return new Response(JSON.stringify({ ok: true, chats }), {
+    status: 201,
+    headers: { 'content-type': 'application/json' },
+  });
+}
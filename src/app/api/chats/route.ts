@@ -0,0 +1,20 @@
+// src/app/api/chats/route.ts
+// lists the signed-in user's saved chats for the sidebar (newest activity first)
+import { getChatStore } from '../../../util/chat-store';
+import { getSessionUser, unauthorized } from '../../../lib/auth';
+
+// GET /api/chats?archived=1 also returns archived chats
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const url = new URL(req.url);
+  const includeArchived = url.searchParams.get('archived') === '1';
+
+  const chats = await getChatStore().listChats({ includeArchived, ownerId: user.id });
+
+  return new Response(JSON.stringify({ ok: true, chats }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,48 @@
+// src/app/api/documents/[id]/route.ts
+// one document of the knowledge base: read its chunks, or remove it
+import { apiError } from '../../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import { deleteDocument, getDocument } from '../../../../util/document-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/documents/[id] returns the document and its chunks (text only, no vectors)
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  // someone else's document looks exactly like a missing one
+  const document = await getDocument(id);
+  if (!document || document.ownerId !== user.id) return apiError(404, 'not_found', 'Document not found.');
+
+  const { chunks, ...info } = document;
+  return new Response(
+    JSON.stringify({
+      ok: true,
+      document: info,
+      chunks: chunks.map(({ index, text, page }) => ({ index, text, page })),
+    }),
+    { status: 200, headers: { 'content-type': 'application/json' } },
+  );
+}
+
+// DELETE /api/documents/[id] takes the document out of the knowledge base;
+// answers that cited it keep their citations, which then lead nowhere
+export async function DELETE(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const document = await getDocument(id);
+  if (!document || document.ownerId !== user.id) return apiError(404, 'not_found', 'Document not found.');
+
+  await deleteDocument(id);
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
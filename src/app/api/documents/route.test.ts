@@ -0,0 +1,61 @@
+// src/app/api/documents/route.test.ts
+// POST /api/documents: a file that gets indexed, and an embedding provider
+// that fails (502, and no half-added document); documents go to a throwaway
+// directory and each test gets fresh modules, so the index starts empty
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+beforeEach(() => {
+  vi.resetModules();
+  dir = mkdtempSync(path.join(tmpdir(), 'documents-'));
+  vi.stubEnv('DOCUMENTS_DIR', dir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// the route, and an upload of a small text file as a signed-in user
+async function load() {
+  const { GET, POST } = await import('./route');
+  const { createSessionToken, SESSION_COOKIE } = await import('../../../lib/auth');
+  const cookie = `${SESSION_COOKIE}=${await createSessionToken({ id: 'alice', name: 'alice' })}`;
+  const upload = () => {
+    const form = new FormData();
+    form.set('file', new File(['Cats sleep most of the day.'], 'cats.txt', { type: 'text/plain' }));
+    return POST(new Request('http://localhost/api/documents', { method: 'POST', body: form, headers: { cookie } }));
+  };
+  const list = async () =>
+    ((await (await GET(new Request('http://localhost/api/documents', { headers: { cookie } }))).json()) as {
+      documents: unknown[];
+    }).documents;
+  return { upload, list };
+}
+
+describe('POST /api/documents', () => {
+  it('indexes a text file', async () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'mock:hash');
+    const { upload, list } = await load();
+    const res = await upload();
+    expect(res.status).toBe(201);
+    expect(await list()).toHaveLength(1);
+  });
+
+  it('answers 502 when the embedding model fails, and keeps nothing', async () => {
+    // no API key: the OpenAI embedding call fails before it is sent
+    vi.stubEnv('EMBEDDING_MODEL', 'openai:text-embedding-3-small');
+    vi.stubEnv('OPENAI_API_KEY', undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { upload, list } = await load();
+    const res = await upload();
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ ok: false, code: 'upstream_error' });
+    expect(await list()).toEqual([]);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+// src/app/api/documents/route.ts
+// the signed-in user's knowledge base: list it, or add a file to it (the file
+// is read, chunked and embedded right away, so it can be searched as soon as
+// this answers)
+import { apiError } from '../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../lib/auth';
+import { checkDocument, getDocumentMaxBytes, getDocumentMediaType, ingestDocument } from '../../../lib/documents';
+import { listDocuments } from '../../../util/document-store';
+
+// GET /api/documents lists the user's documents, newest first
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  return new Response(JSON.stringify({ ok: true, documents: await listDocuments(user.id) }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+// POST /api/documents with multipart form data: file=<a .txt, .md or .pdf file>
+export async function POST(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof File)) return apiError(400, 'invalid_request', 'Expected a "file" field.');
+
+  // check type and size before reading the whole file into memory
+  const mediaType = getDocumentMediaType(file);
+  const problem = checkDocument({ mediaType, size: file.size });
+  if (problem) {
+    return file.size > getDocumentMaxBytes()
+      ? apiError(413, 'payload_too_large', problem)
+      : apiError(400, 'invalid_document', problem);
+  }
+
+  const ingested = await ingestDocument({
+    ownerId: user.id,
+    filename: file.name || 'document',
+    mediaType,
+    data: new Uint8Array(await file.arrayBuffer()),
+  });
+  // a file we can't read is the client's problem (400); an embedding call that
+  // fails is the provider's (502)
+  if ('error' in ingested) {
+    return apiError(ingested.code === 'upstream_error' ? 502 : 400, ingested.code, ingested.error);
+  }
+
+  return new Response(JSON.stringify({ ok: true, document: ingested.document }), {
+    status: 201,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,38 @@
+// src/app/api/feedback/export/route.ts
+// the user's rated answers as JSONL eval cases (see lib/feedback.ts), from
+// every chat they own, archived ones too:
+// GET /api/feedback/export?rating=up|down&from=YYYY-MM-DD&to=YYYY-MM-DD
+import { apiError } from '../../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import { collectRatedExchanges, toFeedbackFilter, toJsonl } from '../../../../lib/feedback';
+import { loadChatMessages } from '../../../../lib/message-validation';
+import { getChatStore } from '../../../../util/chat-store';
+import { feedbackExportQuerySchema } from '../../../../util/schemas';
+
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = feedbackExportQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return apiError(400, 'invalid_request', 'Invalid export query.', { issues: parsed.error.issues });
+  }
+  const filter = toFeedbackFilter(parsed.data);
+
+  const chats = await getChatStore().listChats({ includeArchived: true, ownerId: user.id });
+  let body = '';
+  for (const chat of chats) {
+    body += toJsonl(collectRatedExchanges(chat, await loadChatMessages(chat.id), filter));
+  }
+
+  const day = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'content-type': 'application/x-ndjson; charset=utf-8',
+      'content-disposition': `attachment; filename="feedback-${day}.jsonl"`,
+      'cache-control': 'private, no-store',
+    },
+  });
+}
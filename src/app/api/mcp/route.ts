@@ -0,0 +1,16 @@
+// src/app/api/mcp/route.ts
+// the configured MCP tool servers: whether each is connected, why not, and
+// the tools it offers (connecting to those that aren't yet)
+import { getSessionUser, unauthorized } from '../../../lib/auth';
+import { listMcpServers } from '../../../lib/mcp';
+
+// GET /api/mcp
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  return new Response(JSON.stringify({ ok: true, servers: await listMcpServers() }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,11 @@
+// src/app/api/models/route.ts
+// lists the models the picker may offer, plus the default
+import { DEFAULT_MODEL_ID, listModels } from '../../../lib/providers';
+
+// GET /api/models
+export async function GET() {
+  return new Response(
+    JSON.stringify({ ok: true, models: listModels(), defaultModel: DEFAULT_MODEL_ID }),
+    { status: 200, headers: { 'content-type': 'application/json' } },
+  );
+}
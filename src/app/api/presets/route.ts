@@ -0,0 +1,11 @@
+// src/app/api/presets/route.ts
+// lists the prompt presets the settings panel can apply
+import { getDefaultSettings, listPresets } from '../../../lib/prompt-presets';
+
+// GET /api/presets
+export async function GET() {
+  return new Response(
+    JSON.stringify({ ok: true, presets: listPresets(), defaultSettings: getDefaultSettings() }),
+    { status: 200, headers: { 'content-type': 'application/json' } },
+  );
+}
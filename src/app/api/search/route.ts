@@ -0,0 +1,26 @@
+// src/app/api/search/route.ts
+// full-text search over the signed-in user's chats: titles, message text,
+// tool inputs/outputs and attachment names
+import { apiError } from '../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../lib/auth';
+import { searchChats } from '../../../lib/search';
+import { searchQuerySchema } from '../../../util/schemas';
+
+// GET /api/search?q=words&role=user|assistant&chat=<id>&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=50
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = searchQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return apiError(400, 'invalid_request', 'Invalid search.', { issues: parsed.error.issues });
+  }
+
+  const hits = await searchChats(parsed.data, user.id);
+
+  return new Response(JSON.stringify({ ok: true, hits }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
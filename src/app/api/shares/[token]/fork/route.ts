@@ -0,0 +1,39 @@
+// src/app/api/shares/[token]/fork/route.ts
+// "continue this chat": copy a shared snapshot into a new chat owned by the
+// viewer, who can then keep talking to it; the original is never touched
+import { apiError } from '../../../../../lib/api-errors';
+import { checkFileParts } from '../../../../../lib/attachments';
+import { getSessionUser, unauthorized } from '../../../../../lib/auth';
+import { saveAsNewChat } from '../../../../../lib/chat-import';
+import type { MyUIMessage } from '../../../../../lib/chat-types';
+import { validateStoredMessages } from '../../../../../lib/message-validation';
+import { getShare } from '../../../../../util/share-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ token: string }> };
+
+// POST /api/shares/[token]/fork answers { ok, chat } with the new chat
+export async function POST(req: Request, { params }: Context) {
+  const { token } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const share = await getShare(token);
+  if (!share) return apiError(404, 'not_found', 'Share link not found.');
+
+  // the snapshot was taken under older schemas, maybe; check it like any stored chat
+  const messages = await validateStoredMessages(share.messages as MyUIMessage[]);
+  // shares carry their files inline; they pass the upload checks like any other
+  for (const message of messages) {
+    const problem = await checkFileParts(message, user.id);
+    if (problem) return apiError(400, 'invalid_attachment', problem);
+  }
+  // the sharer's settings (system prompt) stay private; the copy starts with the defaults
+  const chat = await saveAsNewChat(user.id, { messages, title: share.title, model: share.model });
+
+  return new Response(JSON.stringify({ ok: true, chat }), {
+    status: 201,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,26 @@
+// src/app/api/shares/[token]/route.ts
+// revoke a read-only link; only the person who shared it may
+import { apiError } from '../../../../lib/api-errors';
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import { deleteShare, getShare } from '../../../../util/share-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ token: string }> };
+
+// DELETE /api/shares/[token]: the link stops working right away
+export async function DELETE(req: Request, { params }: Context) {
+  const { token } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  // someone else's link looks exactly like one that doesn't exist
+  const share = await getShare(token);
+  if (!share || share.ownerId !== user.id) return apiError(404, 'not_found', 'Share link not found.');
+
+  await deleteShare(token);
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,13 @@
+// src/app/api/tools/route.ts
+// lists the tools a chat can turn on or off in its settings: the built-in
+// ones and, as a whole, each configured MCP server
+import { listTools } from '../../../lib/ai-tools';
+import { listMcpServerToggles } from '../../../lib/mcp';
+
+// GET /api/tools
+export async function GET() {
+  return new Response(JSON.stringify({ ok: true, tools: listTools(), mcpServers: listMcpServerToggles() }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
@@ -0,0 +1,42 @@
+// src/app/api/uploads/[id]/route.ts
+// serves a stored attachment back to the user who uploaded it
+import { getSessionUser, unauthorized } from '../../../../lib/auth';
+import { getUpload } from '../../../../util/upload-store';
+
+// route params arrive as a promise in the app router
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/uploads/[id] returns the file bytes
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  // someone else's upload looks exactly like a missing one
+  const upload = await getUpload(id);
+  if (!upload || upload.info.ownerId !== user.id) {
+    return new Response(JSON.stringify({ ok: false, error: 'File not found.' }), {
+      status: 404,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  const { info, data } = upload;
+  // images and PDFs open in the browser; text is always served as plain text
+  // so an uploaded file can never run as a page on our origin
+  const contentType = info.mediaType.startsWith('text/') || info.mediaType === 'application/json'
+    ? 'text/plain; charset=utf-8'
+    : info.mediaType;
+
+  return new Response(new Uint8Array(data), {
+    status: 200,
+    headers: {
+      'content-type': contentType,
+      'content-length': String(info.size),
+      'content-disposition': `inline; filename*=UTF-8''${encodeURIComponent(info.filename)}`,
+      'x-content-type-options': 'nosniff',
+      'cache-control': 'private, max-age=31536000, immutable',
+    },
+  });
+}
@@ -0,0 +1,45 @@
+// src/app/api/uploads/route.ts
+// receives an attachment from the chat input and stores it on disk;
+// the returned url is what the message's file part points at
+import { getSessionUser, unauthorized } from '../../../lib/auth';
+import { checkUpload, getUploadMaxBytes, saveUpload, uploadUrl } from '../../../util/upload-store';
+
+// POST /api/uploads with multipart form data: file=<the file>
+export async function POST(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof File)) {
+    return new Response(JSON.stringify({ ok: false, error: 'Expected a "file" field.' }), {
+      status: 400,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  // check type and size before reading the whole file into memory
+  const problem = checkUpload({ mediaType: file.type, size: file.size });
+  if (problem) {
+    return new Response(JSON.stringify({ ok: false, error: problem }), {
+      status: file.size > getUploadMaxBytes() ? 413 : 400,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  const info = await saveUpload({
+    ownerId: user.id,
+    mediaType: file.type,
+    filename: file.name || 'attachment',
+    data: new Uint8Array(await file.arrayBuffer()),
+  });
+
+  // shaped like a FileUIPart so the client can attach it as-is
+  return new Response(
+    JSON.stringify({
+      ok: true,
+      file: { type: 'file', mediaType: info.mediaType, filename: info.filename, url: uploadUrl(info.id) },
+    }),
+    { status: 201, headers: { 'content-type': 'application/json' } },
+  );
+}
@@ -0,0 +1,13 @@
+// src/app/chat/[id]/not-found.tsx
+// shown for chat ids that don't exist (or belong to someone else)
+import Link from 'next/link';
+
+export default function ChatNotFound() {
+  return (
+    <main style={{ padding: 8 }}>
+      <h1>Chat not found</h1>
+      <p>This chat doesn&apos;t exist, was deleted, or isn&apos;t yours.</p>
+      <Link href="/chat">Start a new chat</Link>
+    </main>
+  );
+}
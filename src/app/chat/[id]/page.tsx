@@ -1,288 +1,49 @@
 // src/app/chat/[id]/page.tsx
-// 'use client' tells Next.js this file runs in the browser, not only on the server
-'use client';
+// a server component: loads the chat and its saved history before the page is
+// sent, so reopening a chat shows the conversation right away; the interactive
+// part lives in the ChatView client component. unknown ids get a proper 404
+import { notFound, redirect } from 'next/navigation';
+import { ChatView } from '../../../components';
+import { canAccessChat } from '../../../lib/auth';
+import { getCurrentUser } from '../../../lib/current-user';
+import { loadChatMessages } from '../../../lib/message-validation';
+import { getDefaultSettings } from '../../../lib/prompt-presets';
+import { DEFAULT_MODEL_ID, isAllowedModel } from '../../../lib/providers';
+import { getChatStore } from '../../../util/chat-store';
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ message?: string }>; // ?message=<id> from a search result
+}) {
+  const { id } = await params;
+  const { message: focusMessageId } = await searchParams;
+
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect(`/login?next=/chat/${id}`);
+
+  const store = getChatStore();
+  const chat = await store.getChat(id);
+  // someone else's chat looks exactly like one that doesn't exist
+  if (!chat || !canAccessChat(chat, user)) notFound();
+
+  // every branch, checked against the current metadata/tool/data schemas
+  const messages = await loadChatMessages(id);
 
-// we import a ready-made chat helper that handles common chat chores for us
-import { useChat } from '@ai-sdk/react';
-// this sets up how we talk to our server (which URL to send messages to, etc.)
-import { DefaultChatTransport, UIMessage, UIDataTypes } from 'ai';
-// a small tool from React so the page can remember your current input
-import { useMemo, useState } from 'react';
-// import Spinner from the barrel file
-import { Spinner } from '../../../components';
-// import the shared tools type so UI messages know the tools’ input/output shapes
-import type { AppUITools } from '../../../lib/ai-tools';
-// ✅ get dynamic route params in a client component
-import { useParams } from 'next/navigation'; 
-
-
-
-
-
-
-// build a UIMessage type that carries our tool typings end-to-end on the client
-type MyUIMessage = UIMessage<never, UIDataTypes, AppUITools>;
-
-// this defines the page component; Next.js will show this on /chat/[id]
-export default function Page() {
-  // ✅ read `[id]` from the URL without making the component async
-  const params = useParams<{ id: string }>();
-  const chatId = params.id; // stable chat id from the route
-
-  const server_address: string | undefined = '/api/chat';
-
-  // we ask the chat helper for:
-  // - messages: the list of chat bubbles (both you and the AI)
-  // - sendMessage: a function to send a new message
-  // - status: whether we’re ready to send or still busy
-  // - stop: a function to abort the current streaming response
-  // - error: any error that happened during the last request
-  // - reload: try the last request again
-  // - setMessages: lets us directly edit the message list (e.g. delete a message)
-  // - regenerate: asks the AI to redo the last assistant message
-  const {
-    messages,
-    sendMessage,
-    status,
-    stop,
-    error,
-    reload,
-    setMessages,
-    regenerate,
-  } = useChat<MyUIMessage>({
-    id: chatId, // stable id so the server can load and persist history for this chat
-
-    // tell the chat helper how to reach our server API using a trigger-aware payload
-    transport: new DefaultChatTransport({
-      api: server_address,
-      prepareSendMessagesRequest: ({ id, messages, trigger }) => {
-        // Find the LAST assistant message – this is the one we want to regenerate.
-        const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant');
-        const assistantId = lastAssistant?.id;
-        // Keep lastMessage for submit/fallback use
-        const lastMessage = messages[messages.length - 1];
-        const messageId = lastMessage?.id;
-
-        if (trigger === 'submit-message') {
-          return {
-            headers: {
-              Authorization: 'Bearer token123',        // example bearer token
-              'X-Custom-Header': 'custom-value',       // any extra header your API expects
-            },
-            body: {
-              trigger: 'submit-message',
-              id,
-              message: messages[messages.length - 1], // send only the newest message
-              messageId,
-              user_id: '123',                           // an app-level identifier
-              customKey: 'customValue',                 // example custom field (server logs it)
-              route: 'submit-message'
-            },
-          };
-        } else if (trigger === 'regenerate-message') {
-          return {
-            body: {
-              trigger: 'regenerate-message',
-              id,
-              // IMPORTANT: point regenerate at the LAST ASSISTANT message
-              messageId: assistantId,
-              route: 'regenerate-message'
-            },
-          };
-        }
-
-        // fall back to a compact shape if no special trigger is set
-        return {
-          body: {
-            id,
-            message: messages[messages.length - 1],
-            user_id: '123',                           // an app-level identifier
-            customKey: 'customValue',                 // example custom field (server logs it)
-            route: 'fallback',
-          },
-        };
-      },
-    }),
-
-    // smooth out UI updates so we re-render at most ~every 50ms while streaming
-    // this keeps the UI snappy without re-rendering on every tiny chunk
-    experimental_throttle: 50,
-
-    // (Event Callbacks): run code at key points in the chat lifecycle
-    onFinish: ({ message, messages, isAbort, isDisconnect, isError }) => {
-      // fires when the assistant has fully finished responding
-      // good place to sync analytics, update other UI bits, etc.
-      // we keep it minimal here and just log some useful details
-      console.log('assistant finished', {
-        messageId: message.id,
-        totalMessages: messages.length,
-        isAbort,
-        isDisconnect,
-        isError,
-      });
-
-      // also log usage metadata if the server attached it
-      // helps track token consumption without extra round-trips
-      console.log('total usage (if provided):', message.metadata?.totalUsage);
-    },
-    onError: (err) => {
-      // called whenever the fetch/streaming fails
-      // keep logs developer-facing; user-facing copy stays generic below
-      console.error('useChat onError:', err);
-    },
-    onData: (data) => {
-      // called for every data part as it streams in
-      // can be used for custom parsing or side-effects per chunk
-      console.log('useChat onData part:', JSON.stringify(data, null, 2));  // pretty-print with 2 spaces
-      // note: you can cancel processing by throwing here
-      // e.g. if a chunk fails validation: throw new Error('abort stream');
-    },
-  });
-
-  // input is whatever you’re typing into the text box; setInput updates it
-  const [input, setInput] = useState('');
-
-  // small helper to remove a message by id
-  // we use the "functional" form of setMessages so we always work with the latest state
-  const handleDelete = async (idToDelete: string) => {
-    // optimistically update the UI first so deletion feels instant
-    setMessages(prev => prev.filter(m => m.id !== idToDelete));
-
-    // also tell the server to remove this message from persisted history
-    try {
-      await fetch(server_address!, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          trigger: 'delete-message', // server understands this trigger
-          id: chatId,                // must match the chat id used by the hook
-          messageId: idToDelete,     // which message to delete
-        }),
-      });
-    } catch (e) {
-      console.error('failed to delete message on server:', e);
-      // optional: rollback UI or show a toast if needed
-    }
-  };
-
-  // this is what shows up on the screen
   return (
-    <>
-      {/* show every message we have so far */}
-      {/*
-        Deduplicate by id to avoid React's "Encountered two children with the same key" warning
-        which can happen during regenerate/reconciliation.
-      */}
-      {useMemo(
-        () => Array.from(new Map(messages.map(m => [m.id, m])).values()),
-        [messages]
-      ).map(message => (
-         // each item needs a stable key so React can track it
-        // each item needs a stable key so React can track it
-        <div key={message.id}>
-          {/* show who spoke: if role is 'user', label it “User:”, else label it “AI:” */}
-          {message.role === 'user' ? 'User: ' : 'AI: '}
-
-          {/* optionally show when the message started, if the server attached metadata */}
-          {message.metadata?.createdAt && (
-            <span>
-              {new Date(message.metadata.createdAt).toLocaleTimeString()} —{' '}
-            </span>
-          )
-          }
-
-          {/* each message can have multiple parts (usually text) */}
-          {message.parts.map((part, index) =>
-            // if a part is text, we display the text; if it’s not text, we ignore it here
-            part.type === 'text' ? <span key={index}>{part.text}</span> : null,
-          )}
-
-          {/* show token usage if the server sent it in metadata */}
-          {message.metadata?.totalTokens && (
-            <span> ({message.metadata.totalTokens} tokens)</span>
-          )}
-
-          {/* show full usage details if provided by the server
-              useful when the server returns a LanguageModelUsage object */}
-          {message.metadata?.totalUsage?.totalTokens && (
-            <div> Total usage: {message.metadata.totalUsage.totalTokens} tokens</div>
-          )}
-
-          {/* a tiny delete button per message so users can prune history */}
-          <button type="button" onClick={() => handleDelete(message.id)}>
-            Delete
-          </button>
-        </div>
-      ))}
-
-      {/* while we’re sending or receiving, show a tiny status area */}
-      {(status === 'submitted' || status === 'streaming') && (
-        <div>
-          {/* if we’re waiting for the stream to start, you could show a spinner */}
-          {/* Spinner is now a real component defined above */}
-          {status === 'submitted' && <Spinner />}
-          {/* let the user cancel a long answer mid-stream */}
-          <button type="button" onClick={() => stop()}>
-            Stop
-          </button>
-        </div>
-      )}
-
-      {/* offer a “Regenerate” action once we’re idle, or after an error */}
-      {(status === 'ready' || status === 'error') && (
-        <div>
-          {/* re-ask the model to produce the last assistant message again */}
-          <button type="button" onClick={() => regenerate()}>
-            Regenerate
-          </button>
-        </div>
-      )}
-
-      {/* if something went wrong, keep the message generic and offer a retry */}
-      {error && (
-        <div role="alert">
-          {/* keep error messages vague to avoid leaking server details */}
-          An error occurred.
-          {/* try the last request again */}
-          <button type="button" onClick={() => reload()}>
-            Retry
-          </button>
-        </div>
-      )}
-
-      {/* the form that handles typing and submitting your message */}
-      <form
-        // when you submit the form (press enter or click submit), run this code
-        onSubmit={e => {
-          e.preventDefault(); // stop the page from reloading
-          if (input.trim()) {
-            // request-level options: per-send headers/body/metadata override hook defaults
-            // use this to pass auth, knobs like temperature, or custom fields to your API
-            sendMessage(
-              { text: input },
-            );
-            // clear the input box after sending
-            setInput('');
-          }
-        }}
-      >
-        {/* the text box where you type */}
-        <input
-          value={input} // tie the input box to our state variable “input”
-          onChange={e => setInput(e.target.value)} // update “input” as you type
-          // disable typing while we’re busy or after an error until the user retries
-          disabled={status !== 'ready' || error != null}
-          placeholder="Say something..." // gray hint text
-        />
-        {/* the button to submit your message */}
-        <button
-          type="submit"
-          // prevent new submits while we’re busy or if there’s an error shown
-          disabled={status !== 'ready' || error != null}
-        >
-          Submit
-        </button>
-      </form>
-    </>
+    <ChatView
+      // a fresh ChatView per chat (and per search result), so state never leaks between them
+      key={`${id}:${focusMessageId ?? ''}`}
+      chatId={id}
+      initialMessages={messages}
+      initialTitle={chat.title}
+      // a model that was removed from the allow-list falls back to the default
+      initialModel={chat.model && isAllowedModel(chat.model) ? chat.model : DEFAULT_MODEL_ID}
+      initialSettings={chat.settings ?? getDefaultSettings()}
+      focusMessageId={focusMessageId}
+    />
   );
 }
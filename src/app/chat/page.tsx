@@ -1,11 +1,26 @@
 // src/app/chat/page.tsx
-// NEW
-// when a user hits /chat without an id, we create a chat and redirect to /chat/[id]
-import { redirect } from 'next/navigation';
-import { createChat } from '../../util/chat-store';
+// /chat shows an empty chat under a fresh id; nothing is saved until the first
+// message, at which point the chat moves to its own /chat/[id] URL
+import { ChatView } from '../../components';
+import { getDefaultSettings } from '../../lib/prompt-presets';
+import { DEFAULT_MODEL_ID } from '../../lib/providers';
+import { generateChatId } from '../../util/chat-store';
+
+// render on every request so each visit gets its own id (not one baked in at build time)
+export const dynamic = 'force-dynamic';
 
 export default async function Page() {
-  // create a new chat and jump to its page so the UI can load/persist by id
-  const id = await createChat();
-  redirect(`/chat/${id}`);
+  const id = generateChatId();
+
+  return (
+    <ChatView
+      key={id}
+      chatId={id}
+      initialMessages={[]}
+      initialTitle={null}
+      initialModel={DEFAULT_MODEL_ID}
+      initialSettings={getDefaultSettings()}
+      isNew
+    />
+  );
 }
@@ -0,0 +1,46 @@
+// src/app/documents/[id]/page.tsx
+// a server component: one document of the knowledge base, passage by passage;
+// citations link here with #chunk-<n>, and the cited passage is highlighted
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getCurrentUser } from '../../../lib/current-user';
+import { getDocument } from '../../../util/document-store';
+
+// documents can be removed at any time
+export const dynamic = 'force-dynamic';
+
+export default async function DocumentPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect(`/login?next=/documents/${id}`);
+
+  // someone else's document looks exactly like a missing one
+  const document = await getDocument(id);
+  if (!document || document.ownerId !== user.id) notFound();
+
+  return (
+    <main style={{ padding: 8, maxWidth: 800 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>{document.filename}</h1>
+      <p>
+        <Link href="/documents">← All documents</Link>
+      </p>
+      <p style={{ fontSize: 12, opacity: 0.7 }}>
+        {document.pageCount !== undefined && `${document.pageCount} pages · `}
+        {document.chunkCount} passages · added {new Date(document.createdAt).toLocaleString()}
+      </p>
+
+      {document.chunks.map(chunk => (
+        // the overlap between passages shows up twice; that is what was indexed
+        <section key={chunk.index} id={`chunk-${chunk.index}`} className="document-chunk">
+          <div style={{ fontSize: 12, opacity: 0.7 }}>
+            Passage {chunk.index + 1}
+            {chunk.page !== undefined && ` · page ${chunk.page}`}
+          </div>
+          <p style={{ whiteSpace: 'pre-wrap', margin: '4px 0' }}>{chunk.text}</p>
+        </section>
+      ))}
+    </main>
+  );
+}
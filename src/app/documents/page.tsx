@@ -0,0 +1,41 @@
+// src/app/documents/page.tsx
+// a server component: the signed-in user's document collection, which the
+// assistant searches (with the searchDocuments tool) when answering
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { DocumentLibrary } from '../../components';
+import { getCurrentUser } from '../../lib/current-user';
+import { EMBEDDING_MODEL_ID } from '../../lib/providers';
+import { listDocuments } from '../../util/document-store';
+
+// the list changes whenever a document is added or removed
+export const dynamic = 'force-dynamic';
+
+export default async function DocumentsPage() {
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect('/login?next=/documents');
+
+  const documents = await listDocuments(user.id);
+  // documents indexed with another embedding model can't be searched until added again
+  const stale = documents.filter(document => document.embeddingModel !== EMBEDDING_MODEL_ID);
+
+  return (
+    <main style={{ padding: 8, maxWidth: 800 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>Documents</h1>
+      <p>
+        <Link href="/chat">← Back to chats</Link>
+      </p>
+      <p style={{ fontSize: 14 }}>
+        The assistant can search these when it answers, and links every passage it used.
+      </p>
+      {stale.length > 0 && (
+        <p role="alert">
+          {stale.map(document => document.filename).join(', ')} {stale.length === 1 ? 'was' : 'were'} indexed
+          with another embedding model and won&apos;t be found until removed and added again.
+        </p>
+      )}
+      <DocumentLibrary documents={documents} />
+    </main>
+  );
+}
@@ -0,0 +1,19 @@
+// src/app/login/page.tsx
+// the sign-in page; middleware sends anonymous visitors here with ?next=<where they were going>
+import { LoginForm } from '../../components';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+  // only follow same-site paths, so a crafted link can't bounce people elsewhere
+  const redirectTo = next?.startsWith('/') && !next.startsWith('//') ? next : '/chat';
+
+  return (
+    <main style={{ maxWidth: 360, margin: '64px auto', padding: 8 }}>
+      <LoginForm redirectTo={redirectTo} />
+    </main>
+  );
+}
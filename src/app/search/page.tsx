@@ -0,0 +1,76 @@
+// src/app/search/page.tsx
+// a server component: search every chat of the signed-in user. the form is a
+// plain GET form, so results are rendered on the server and links can be shared
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '../../lib/current-user';
+import { highlight, searchChats } from '../../lib/search';
+import { searchQuerySchema } from '../../util/schemas';
+
+// results depend on the query and on chats that change all the time
+export const dynamic = 'force-dynamic';
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect('/login?next=/search');
+
+  const params = await searchParams;
+  // an empty or invalid query just shows the form
+  const parsed = searchQuerySchema.safeParse(params);
+  const hits = parsed.success ? await searchChats(parsed.data, user.id) : [];
+
+  return (
+    <main style={{ padding: 8, maxWidth: 800 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>Search</h1>
+      <p>
+        <Link href="/chat">← Back to chats</Link>
+      </p>
+
+      <form method="get" action="/search" style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+        <input name="q" defaultValue={params.q} placeholder="Search your chats..." aria-label="Search" autoFocus />
+        <select name="role" defaultValue={params.role ?? ''} aria-label="Who said it">
+          <option value="">Anyone</option>
+          <option value="user">Me</option>
+          <option value="assistant">AI</option>
+        </select>
+        <label>
+          From <input type="date" name="from" defaultValue={params.from} />
+        </label>
+        <label>
+          To <input type="date" name="to" defaultValue={params.to} />
+        </label>
+        {/* keep a "search in this chat" filter when one was given */}
+        {params.chat && <input type="hidden" name="chat" value={params.chat} />}
+        <button type="submit">Search</button>
+      </form>
+
+      {params.q && !parsed.success && <p role="alert">Check the dates and try again.</p>}
+      {parsed.success && hits.length === 0 && <p>No matches.</p>}
+
+      <ul style={{ listStyle: 'none', padding: 0 }}>
+        {hits.map(hit => (
+          <li key={`${hit.chatId}:${hit.messageId ?? ''}`} style={{ margin: '12px 0' }}>
+            {/* jump straight to the message (on its branch) inside the chat */}
+            <Link href={hit.messageId ? `/chat/${hit.chatId}?message=${hit.messageId}` : `/chat/${hit.chatId}`}>
+              {hit.chatTitle ?? 'Untitled chat'}
+            </Link>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>
+              {hit.role === null ? 'chat title' : hit.role === 'user' ? 'you' : 'AI'} ·{' '}
+              {new Date(hit.createdAt).toLocaleString()}
+            </div>
+            <div>
+              {highlight(hit.snippet, hit.terms).map((piece, i) =>
+                piece.match ? <mark key={i}>{piece.text}</mark> : <span key={i}>{piece.text}</span>,
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+// src/app/share/[token]/page.tsx
+// a server component: the public, read-only view of a shared snapshot. anyone
+// with the link may read it (middleware lets /share/ through); messages use the
+// same renderers as the chat page, just without the buttons that change things
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ForkButton, MessageSteps } from '../../../components';
+import type { MyUIMessage } from '../../../lib/chat-types';
+import { getCurrentUser } from '../../../lib/current-user';
+import { validateStoredMessages } from '../../../lib/message-validation';
+import { getShare } from '../../../util/share-store';
+
+// revoking must take effect right away, so never serve a cached copy
+export const dynamic = 'force-dynamic';
+
+// shared links are meant for the people they were sent to, not for search engines
+export const metadata: Metadata = { robots: { index: false, follow: false } };
+
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  // unknown and revoked links look the same
+  const share = await getShare(token);
+  if (!share) notFound();
+
+  // checked against today's schemas, like any stored chat
+  const messages = await validateStoredMessages(share.messages as MyUIMessage[]);
+  const user = await getCurrentUser();
+
+  return (
+    <main style={{ maxWidth: 760, margin: '0 auto', padding: 8 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0' }}>{share.title ?? 'Untitled chat'}</h1>
+      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+        Read-only snapshot shared {new Date(share.createdAt).toLocaleString()}
+        {share.model && ` · ${share.model}`}
+      </div>
+
+      {messages.map(message => (
+        <div key={message.id} style={{ marginBottom: 8 }}>
+          {message.role === 'user' ? 'User: ' : 'AI: '}
+          {message.metadata?.model && <span>[{message.metadata.model}] </span>}
+          {message.metadata?.quarantined && <span>(this message can&apos;t be shown) </span>}
+          {/* no approval handler: pending tool calls show as they were, without buttons */}
+          <MessageSteps message={message} />
+        </div>
+      ))}
+
+      {/* copy the snapshot into a chat of your own and keep going from there */}
+      <ForkButton token={token} signedIn={user != null} />
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+// src/app/tools/page.tsx
+// a server component: every tool the model can be given, the built-in ones
+// and those of the configured MCP servers, with each server's connection status
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { listTools } from '../../lib/ai-tools';
+import { getCurrentUser } from '../../lib/current-user';
+import { listMcpServers } from '../../lib/mcp';
+
+// server status changes at any time, so never serve a cached copy
+export const dynamic = 'force-dynamic';
+
+// how each connection status reads
+const STATUS_LABELS = {
+  connected: '● connected',
+  error: '● unreachable',
+  not_connected: '○ not connected',
+} as const;
+
+export default async function ToolsPage() {
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect('/login?next=/tools');
+
+  const tools = listTools();
+  const servers = await listMcpServers();
+
+  return (
+    <main style={{ padding: 8, maxWidth: 800 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>Tools</h1>
+      <p>
+        <Link href="/chat">← Back to chats</Link>
+      </p>
+      <p style={{ fontSize: 14 }}>
+        Each chat picks which of these the assistant may use under &quot;Chat settings&quot;.
+      </p>
+
+      <h2 style={{ fontSize: 16 }}>Built-in</h2>
+      <ul>
+        {tools.map(tool => (
+          <li key={tool.name}>
+            <strong>{tool.label}</strong> <code>{tool.name}</code>
+            {tool.requiresApproval && <small> (asks before running)</small>}
+            {!tool.enabledByDefault && <small> (off unless a chat turns it on)</small>}
+          </li>
+        ))}
+      </ul>
+
+      <h2 style={{ fontSize: 16 }}>MCP servers</h2>
+      {servers.length === 0 && <p>No MCP servers are configured (see MCP_SERVERS_FILE).</p>}
+      {servers.map(server => (
+        <section key={server.name} data-status={server.status} style={{ margin: '8px 0' }}>
+          <div>
+            <strong>{server.label}</strong> <code>{server.name}</code> <small>({server.transport})</small>{' '}
+            <span style={{ color: server.status === 'connected' ? 'green' : server.status === 'error' ? 'crimson' : 'gray' }}>
+              {STATUS_LABELS[server.status]}
+            </span>
+            {!server.enabledByDefault && <small> (off unless a chat turns it on)</small>}
+          </div>
+          {server.connectedAt && <small>Connected since {new Date(server.connectedAt).toUTCString()}</small>}
+          {server.error && <div role="alert">Error: {server.error}</div>}
+          {server.tools.length > 0 && (
+            <ul>
+              {server.tools.map(tool => (
+                <li key={tool.name}>
+                  <code>{tool.name}</code>
+                  {tool.description && ` — ${tool.description}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+    </main>
+  );
+}
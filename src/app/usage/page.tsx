@@ -0,0 +1,97 @@
+// src/app/usage/page.tsx
+// a server component: the signed-in user's usage from the ledger, totalled by
+// model, by chat and by day, next to their quotas
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { UsageTable } from '../../components';
+import { getCurrentUser } from '../../lib/current-user';
+import { getQuotaStatus, groupUsage, sumUsage, usageDay } from '../../lib/usage';
+import { getChatStore } from '../../util/chat-store';
+import { listUsage } from '../../util/usage-store';
+
+// the ledger changes with every answer, so never serve a cached copy
+export const dynamic = 'force-dynamic';
+
+// how far back the "by day" table goes
+const DAYS_SHOWN = 30;
+
+export default async function UsagePage() {
+  // middleware already sends anonymous visitors to /login; this keeps the page safe on its own
+  const user = await getCurrentUser();
+  if (!user) redirect('/login?next=/usage');
+
+  const entries = await listUsage({ userId: user.id });
+  const quotas = await getQuotaStatus(user.id);
+  // chat titles for the "by chat" table; deleted chats keep their usage
+  const chats = await getChatStore().listChats({ includeArchived: true, ownerId: user.id });
+  const titles = new Map(chats.map(chat => [chat.id, chat.title]));
+
+  const totals = sumUsage(entries);
+  const since = Date.now() - DAYS_SHOWN * 24 * 60 * 60 * 1000;
+
+  return (
+    <main style={{ padding: 8 }}>
+      <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>Usage</h1>
+      <p>
+        <Link href="/chat">← Back to chats</Link>
+      </p>
+
+      <p>
+        {totals.requests} answers, {totals.totalTokens.toLocaleString()} tokens, $
+        {totals.cost.toFixed(4)} in total.
+        {totals.unpriced > 0 && ' * Some answers came from models without a known price.'}
+      </p>
+
+      {/* each configured limit with how much of it is used */}
+      {quotas.length > 0 && (
+        <ul>
+          {quotas.map(quota => (
+            <li key={`${quota.period}-${quota.metric}`}>
+              {quota.period === 'day' ? 'Today' : 'This month'}:{' '}
+              {quota.metric === 'tokens'
+                ? `${quota.used.toLocaleString()} of ${quota.limit.toLocaleString()} tokens`
+                : `$${quota.used.toFixed(2)} of $${quota.limit.toFixed(2)}`}{' '}
+              <meter min={0} max={quota.limit} value={Math.min(quota.used, quota.limit)} />
+              {' '}(resets {new Date(quota.resetsAt).toUTCString()})
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {entries.length === 0 && <p>No usage recorded yet.</p>}
+
+      <UsageTable
+        caption="By model"
+        label="Model"
+        rows={groupUsage(entries, entry => entry.model).map(row => ({ ...row, name: row.key }))}
+      />
+
+      <UsageTable
+        caption="By chat"
+        label="Chat"
+        rows={groupUsage(entries, entry => entry.chatId ?? '').map(row => ({
+          ...row,
+          name: !row.key ? (
+            'Unsaved requests'
+          ) : titles.has(row.key) ? (
+            <Link href={`/chat/${row.key}`}>{titles.get(row.key) ?? 'Untitled chat'}</Link>
+          ) : (
+            'Deleted chat'
+          ),
+        }))}
+      />
+
+      {/* newest day first */}
+      <UsageTable
+        caption={`By day (last ${DAYS_SHOWN} days, UTC)`}
+        label="Day"
+        rows={groupUsage(
+          entries.filter(entry => entry.createdAt >= since),
+          usageDay,
+        )
+          .sort((a, b) => b.key.localeCompare(a.key))
+          .map(row => ({ ...row, name: row.key }))}
+      />
+    </main>
+  );
+}
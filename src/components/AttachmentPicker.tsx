@@ -0,0 +1,83 @@
+// src/components/AttachmentPicker.tsx
+// 'use client' because it uploads files from the browser and shows what's attached
+'use client';
+
+import type { FileUIPart } from 'ai';
+import { useRef } from 'react';
+
+// what the file chooser offers; the server enforces the same list (and a size limit)
+const ACCEPT = 'image/*,application/pdf,text/plain,text/markdown,text/csv,application/json';
+
+// upload files to the server and get back file parts that point at them;
+// files the server refuses are reported and skipped
+export async function uploadFiles(files: File[]): Promise<FileUIPart[]> {
+  const uploaded: FileUIPart[] = [];
+  for (const file of files) {
+    const form = new FormData();
+    form.append('file', file);
+    try {
+      const res = await fetch('/api/uploads', { method: 'POST', body: form });
+      const data: { ok: boolean; file?: FileUIPart; error?: string } = await res.json();
+      if (data.ok && data.file) uploaded.push(data.file);
+      else window.alert(`${file.name}: ${data.error ?? 'upload failed'}`);
+    } catch (e) {
+      console.error('upload failed:', e);
+      window.alert(`${file.name}: upload failed`);
+    }
+  }
+  return uploaded;
+}
+
+// a paperclip button plus the list of files attached to the next message
+export function AttachmentPicker({
+  attachments,
+  onAdd,
+  onRemove,
+  disabled,
+}: {
+  attachments: FileUIPart[];              // already uploaded, waiting to be sent
+  onAdd: (files: File[]) => void;         // the user picked files to upload
+  onRemove: (index: number) => void;      // the user took one off again
+  disabled?: boolean;                     // e.g. while a reply is streaming
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <span>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ACCEPT}
+        hidden
+        onChange={e => {
+          onAdd(Array.from(e.target.files ?? []));
+          e.target.value = ''; // allow picking the same file again
+        }}
+      />
+      <button
+        type="button"
+        aria-label="Attach files"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        📎
+      </button>
+
+      {/* small previews of what will be sent; images get a thumbnail */}
+      {attachments.map((file, i) => (
+        <span key={file.url} style={{ display: 'inline-flex', alignItems: 'center', margin: '0 4px' }}>
+          {file.mediaType.startsWith('image/') ? (
+            // eslint-disable-next-line @next/next/no-img-element -- urls point at our upload route
+            <img src={file.url} alt={file.filename ?? 'attachment'} style={{ height: 32 }} />
+          ) : (
+            <span>{file.filename ?? file.mediaType}</span>
+          )}
+          <button type="button" aria-label={`Remove ${file.filename ?? 'attachment'}`} onClick={() => onRemove(i)}>
+            ×
+          </button>
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+// src/components/BranchNav.tsx
+// the little "< 2/3 >" switcher shown on messages that have alternative versions
+
+export function BranchNav({
+  index,
+  count,
+  onSelect,
+  disabled,
+}: {
+  index: number;                      // which version is showing (0-based)
+  count: number;                      // how many versions exist
+  onSelect: (index: number) => void;  // called with the version to show
+  disabled?: boolean;                 // e.g. while a reply is streaming
+}) {
+  // nothing to switch between
+  if (count < 2) return null;
+
+  return (
+    <span aria-label="Message versions" style={{ whiteSpace: 'nowrap' }}>
+      <button
+        type="button"
+        aria-label="Previous version"
+        disabled={disabled || index === 0}
+        onClick={() => onSelect(index - 1)}
+      >
+        &lt;
+      </button>
+      {' '}{index + 1}/{count}{' '}
+      <button
+        type="button"
+        aria-label="Next version"
+        disabled={disabled || index === count - 1}
+        onClick={() => onSelect(index + 1)}
+      >
+        &gt;
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,65 @@
+// src/components/ChatHeader.tsx
+// 'use client' because the header lets you edit the title in place
+'use client';
+
+import { useState } from 'react';
+
+// shows the chat title and lets the user override it
+export function ChatHeader({
+  title,
+  onRename,
+  exportChatId,
+}: {
+  title: string | null;                    // null until the chat has a name
+  onRename: (title: string) => void;       // called with the new title on save
+  exportChatId?: string;                   // offer downloads once the chat is saved
+}) {
+  // whether the inline editor is open, and what's typed in it
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  if (editing) {
+    return (
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          setEditing(false);
+          onRename(draft);
+        }}
+      >
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && setEditing(false)}
+          aria-label="Chat title"
+        />
+        <button type="submit">Save</button>
+      </form>
+    );
+  }
+
+  return (
+    <h1 style={{ fontSize: 20, margin: '4px 0 12px' }}>
+      {title ?? 'New chat'}{' '}
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(title ?? '');
+          setEditing(true);
+        }}
+      >
+        Rename
+      </button>
+      {exportChatId && (
+        // plain links: the browser downloads whatever the export route sends
+        <span style={{ fontSize: 12, fontWeight: 'normal', marginLeft: 8 }}>
+          Export:{' '}
+          <a href={`/api/chats/${exportChatId}/export?format=md`}>Markdown</a> ·{' '}
+          <a href={`/api/chats/${exportChatId}/export?format=json`}>JSON</a> ·{' '}
+          <a href={`/api/chats/${exportChatId}/export?format=html`}>HTML</a>
+        </span>
+      )}
+    </h1>
+  );
+}
@@ -0,0 +1,163 @@
+// src/components/ChatSettingsPanel.tsx
+// 'use client' because the panel edits settings in the browser before saving them
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { ToolInfo } from '../lib/ai-tools';
+import type { McpServerToggle } from '../lib/mcp';
+import type { ChatSettings, PromptPreset } from '../util/schemas';
+
+// a collapsible panel for the chat's system prompt, temperature, max output
+// tokens and the tools the model may use
+export function ChatSettingsPanel({
+  value,
+  onSave,
+}: {
+  value: ChatSettings | undefined;          // the settings currently in effect
+  onSave: (settings: ChatSettings) => void; // called with the edited settings
+}) {
+  // presets come from the server so everyone shares the same list
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  // every registered tool, for the on/off list
+  const [tools, setTools] = useState<ToolInfo[]>([]);
+  // external MCP tool servers, each turned on or off as a whole
+  const [mcpServers, setMcpServers] = useState<McpServerToggle[]>([]);
+  // the edits in progress; copied from `value` whenever it changes
+  const [draft, setDraft] = useState<ChatSettings | undefined>(value);
+
+  useEffect(() => {
+    fetch('/api/presets')
+      .then(res => res.json())
+      .then((data: { presets?: PromptPreset[] }) => setPresets(data.presets ?? []))
+      .catch(e => console.error('failed to load presets:', e));
+    fetch('/api/tools')
+      .then(res => res.json())
+      .then((data: { tools?: ToolInfo[]; mcpServers?: McpServerToggle[] }) => {
+        setTools(data.tools ?? []);
+        setMcpServers(data.mcpServers ?? []);
+      })
+      .catch(e => console.error('failed to load tools:', e));
+  }, []);
+
+  useEffect(() => setDraft(value), [value]);
+
+  if (!draft) return null;
+
+  // applying a preset replaces every field with the preset's values
+  // (presets don't pick tools, so the chat's tool choice stays)
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) setDraft({ ...preset.settings, presetId: preset.id, enabledTools: draft.enabledTools });
+  };
+
+  // a chat that never chose has the default tools on; the first toggle
+  // turns that into an explicit list
+  const enabledTools =
+    draft.enabledTools ?? [
+      ...tools.filter(t => t.enabledByDefault).map(t => t.name),
+      ...mcpServers.filter(server => server.enabledByDefault).map(server => server.id),
+    ];
+  const toggleTool = (name: string, on: boolean) =>
+    setDraft({
+      ...draft,
+      enabledTools: on ? [...enabledTools, name] : enabledTools.filter(enabled => enabled !== name),
+    });
+
+  // number inputs: an empty box means "use the model's default"
+  const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+  return (
+    <details style={{ margin: '8px 0' }}>
+      <summary>Chat settings</summary>
+
+      <label style={{ display: 'block' }}>
+        Preset:{' '}
+        <select value={draft.presetId ?? ''} onChange={e => applyPreset(e.target.value)}>
+          <option value="">(custom)</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id} title={preset.description}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={{ display: 'block' }}>
+        System prompt:
+        <textarea
+          rows={4}
+          style={{ display: 'block', width: '100%' }}
+          value={draft.systemPrompt}
+          // hand edits turn the settings into a custom set
+          onChange={e => setDraft({ ...draft, systemPrompt: e.target.value, presetId: undefined })}
+        />
+      </label>
+      <small>Variables: {'{{date}}'}, {'{{time}}'}, {'{{user_name}}'}</small>
+
+      <label style={{ display: 'block' }}>
+        Temperature (0–2):{' '}
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={draft.temperature ?? ''}
+          onChange={e => setDraft({ ...draft, temperature: toNumber(e.target.value), presetId: undefined })}
+        />
+      </label>
+
+      <label style={{ display: 'block' }}>
+        Max output tokens:{' '}
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={draft.maxOutputTokens ?? ''}
+          onChange={e =>
+            setDraft({ ...draft, maxOutputTokens: toNumber(e.target.value), presetId: undefined })
+          }
+        />
+      </label>
+
+      {tools.length > 0 && (
+        <fieldset style={{ margin: '4px 0' }}>
+          <legend>Tools the model may use</legend>
+          {tools.map(t => (
+            <label key={t.name} style={{ display: 'block' }} title={t.description}>
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(t.name)}
+                onChange={e => toggleTool(t.name, e.target.checked)}
+              />{' '}
+              {t.label}
+              {t.requiresApproval && <small> (asks before running)</small>}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {mcpServers.length > 0 && (
+        <fieldset style={{ margin: '4px 0' }}>
+          <legend>
+            Tool servers (MCP) <small><Link href="/tools">status</Link></small>
+          </legend>
+          {mcpServers.map(server => (
+            <label key={server.id} style={{ display: 'block' }}>
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(server.id)}
+                onChange={e => toggleTool(server.id, e.target.checked)}
+              />{' '}
+              {server.label}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <button type="button" onClick={() => onSave(draft)} disabled={!draft.systemPrompt.trim()}>
+        Save settings
+      </button>
+    </details>
+  );
+}
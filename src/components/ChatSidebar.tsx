@@ -0,0 +1,205 @@
+// src/components/ChatSidebar.tsx
+// 'use client' because the sidebar fetches the chat list and handles clicks in the browser
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import type { ChatSummary } from '../util/chat-store';
+import { UserMenu } from './UserMenu';
+
+// the sidebar lists saved chats and lets you switch, rename, archive and delete them
+export function ChatSidebar({
+  currentChatId,
+  refreshKey,
+}: {
+  currentChatId: string; // highlight the chat that is open right now
+  refreshKey?: unknown;  // change this to re-fetch the list (e.g. after a reply finishes)
+}) {
+  const router = useRouter();
+
+  // the chats we got from the server
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  // archived chats are hidden unless the user asks for them
+  const [showArchived, setShowArchived] = useState(false);
+  // which chat (if any) is being renamed, and the draft title
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  // ask the server for the current list
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/chats${showArchived ? '?archived=1' : ''}`);
+      const data: { chats?: ChatSummary[] } = await res.json();
+      setChats(data.chats ?? []);
+    } catch (e) {
+      console.error('failed to load chats:', e);
+    }
+  }, [showArchived]);
+
+  // load on mount, when the archived toggle flips, and whenever the parent says so
+  useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  // send a PATCH for rename/archive and then reload the list
+  const patchChat = async (id: string, patch: { title?: string; archived?: boolean }) => {
+    try {
+      await fetch(`/api/chats/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      });
+    } catch (e) {
+      console.error('failed to update chat:', e);
+    }
+    await refresh();
+  };
+
+  // delete after a quick confirmation; leave the page if it was the open chat
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this chat? This cannot be undone.')) return;
+    // optimistically drop it from the list so the click feels instant
+    setChats(prev => prev.filter(c => c.id !== id));
+    try {
+      await fetch(`/api/chats/${id}`, { method: 'DELETE' });
+    } catch (e) {
+      console.error('failed to delete chat:', e);
+    }
+    if (id === currentChatId) router.push('/chat');
+    await refresh();
+  };
+
+  // import chats from an exported .json archive or "Export all" zip, then open the first one
+  const handleImport = async (file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    try {
+      const res = await fetch('/api/chats/import', { method: 'POST', body: form });
+      const data: { chats?: ChatSummary[]; error?: string } = await res.json();
+      if (!res.ok || !data.chats) {
+        window.alert(data.error ?? 'Import failed.');
+        return;
+      }
+      await refresh();
+      if (data.chats[0]) router.push(`/chat/${data.chats[0].id}`);
+    } catch (e) {
+      console.error('failed to import chats:', e);
+      window.alert('Import failed.');
+    }
+  };
+
+  // finish renaming: save the draft title and close the editor
+  const commitRename = async (id: string) => {
+    setEditingId(null);
+    await patchChat(id, { title: draftTitle });
+  };
+
+  return (
+    <nav aria-label="Chats" style={{ width: 260, padding: 8, borderRight: '1px solid #8884' }}>
+      <UserMenu />
+
+      {/* a fresh chat only becomes real once you send the first message */}
+      <Link href="/chat">+ New chat</Link>{' '}
+      {/* find old answers across every chat */}
+      <Link href="/search">Search</Link>{' '}
+      {/* the files the assistant can search and cite */}
+      <Link href="/documents">Documents</Link>{' '}
+      {/* the tools the assistant can use, and how the MCP servers are doing */}
+      <Link href="/tools">Tools</Link>
+
+      {/* every chat as a zip (JSON archives plus Markdown), and the way back in */}
+      <div style={{ fontSize: 12, marginTop: 4 }}>
+        {/* a button, not a link: it's a download, not a page to navigate to */}
+        <button type="button" onClick={() => window.location.assign('/api/chats/export')}>
+          Export all
+        </button>{' '}
+        {/* every rated answer as JSONL, for building eval sets */}
+        <button type="button" onClick={() => window.location.assign('/api/feedback/export')}>
+          Export ratings
+        </button>{' '}
+        <label style={{ cursor: 'pointer', textDecoration: 'underline' }}>
+          Import
+          <input
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            hidden
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // so picking the same file again still fires
+              if (file) void handleImport(file);
+            }}
+          />
+        </label>
+      </div>
+
+      <label style={{ display: 'block', margin: '8px 0' }}>
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={e => setShowArchived(e.target.checked)}
+        />{' '}
+        Show archived
+      </label>
+
+      <ul style={{ listStyle: 'none', padding: 0 }}>
+        {chats.map(chat => (
+          <li
+            key={chat.id}
+            style={{ fontWeight: chat.id === currentChatId ? 'bold' : undefined, marginBottom: 6 }}
+          >
+            {editingId === chat.id ? (
+              // inline rename: enter saves, escape cancels
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  void commitRename(chat.id);
+                }}
+              >
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={e => setDraftTitle(e.target.value)}
+                  onKeyDown={e => e.key === 'Escape' && setEditingId(null)}
+                  aria-label="Chat title"
+                />
+                <button type="submit">Save</button>
+              </form>
+            ) : (
+              <Link href={`/chat/${chat.id}`}>
+                {chat.title ?? 'Untitled chat'}
+                {chat.archived && ' (archived)'}
+              </Link>
+            )}
+
+            {/* a little meta line so similar titles are easier to tell apart */}
+            <div style={{ fontSize: 12, opacity: 0.7 }}>
+              {chat.messageCount} messages · {new Date(chat.updatedAt).toLocaleString()}
+            </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(chat.id);
+                  setDraftTitle(chat.title ?? '');
+                }}
+              >
+                Rename
+              </button>
+              <button
+                type="button"
+                onClick={() => patchChat(chat.id, { archived: !chat.archived })}
+              >
+                {chat.archived ? 'Unarchive' : 'Archive'}
+              </button>
+              <button type="button" onClick={() => handleDelete(chat.id)}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
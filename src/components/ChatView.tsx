@@ -0,0 +1,732 @@
+// src/components/ChatView.tsx
+// 'use client' tells Next.js this file runs in the browser, not only on the server;
+// the chat pages load the saved history on the server and hand it to this component
+'use client';
+
+// we import a ready-made chat helper that handles common chat chores for us
+import { useChat } from '@ai-sdk/react';
+// this sets up how we talk to our server (which URL to send messages to, etc.)
+import { DefaultChatTransport, type FileUIPart } from 'ai';
+// client-side links to other pages (like the usage page)
+import Link from 'next/link';
+// a small tool from React so the page can remember your current input
+import { useEffect, useMemo, useRef, useState } from 'react';
+// the pieces of the chat screen: spinner, header, sidebar, model picker,
+// settings panel, branch switcher and the message renderer
+import { AttachmentPicker, uploadFiles } from './AttachmentPicker';
+import { BranchNav } from './BranchNav';
+import { ChatHeader } from './ChatHeader';
+import { ChatSettingsPanel } from './ChatSettingsPanel';
+import { ChatSidebar } from './ChatSidebar';
+import { ContextMeter } from './ContextMeter';
+import { ProgressLine, StatusNotices } from './DataParts';
+import { FeedbackButtons } from './FeedbackButtons';
+import { MessageSteps } from './MessageSteps';
+import { ModelPicker } from './ModelPicker';
+import { ShareMenu } from './ShareMenu';
+import { Spinner } from './Spinner';
+// import the shared message type so UI messages know the tools’ input/output shapes
+import type { MyUIMessage } from '../lib/chat-types';
+// conversations are trees; these helpers pick the branch to show and list alternatives
+import {
+  getActivePath,
+  getLatestLeafId,
+  getPath,
+  getSiblings,
+  mergeMessages,
+  removeMessage,
+} from '../lib/chat-tree';
+import type { ChatSettings, MessageFeedback, MyDataParts } from '../util/schemas';
+
+// the whole chat screen for one chat id
+export function ChatView({
+  chatId,
+  initialMessages,
+  initialTitle,
+  initialModel,
+  initialSettings,
+  isNew = false,
+  focusMessageId,
+}: {
+  chatId: string;                   // stable chat id (from the URL, or fresh for /chat)
+  initialMessages: MyUIMessage[];   // every saved message, all branches, validated on the server
+  initialTitle: string | null;      // the saved title (null until named)
+  initialModel: string;             // the chat's model, or the default for new chats
+  initialSettings: ChatSettings;    // the chat's settings, or the defaults for new chats
+  isNew?: boolean;                  // nothing saved yet; the URL gets the id on first send
+  focusMessageId?: string;          // open on this message's branch and scroll to it (from search)
+}) {
+  const server_address: string | undefined = '/api/chat';
+
+  // the chat title shown in the header; filled from the server and updated live
+  const [title, setTitle] = useState<string | null>(initialTitle);
+
+  // transient data parts of the latest answer: notes from the server and
+  // where the tool-calling loop is (neither is stored with the message)
+  const [notices, setNotices] = useState<MyDataParts['status'][]>([]);
+  const [progress, setProgress] = useState<MyDataParts['progress']>();
+
+  // the model this chat talks to; a ref mirrors it so the transport (created once)
+  // always sends the current choice
+  const [modelId, setModelId] = useState(initialModel);
+  const modelIdRef = useRef(initialModel);
+  useEffect(() => {
+    modelIdRef.current = modelId;
+  }, [modelId]);
+
+  // the system prompt + generation settings, mirrored in a ref for the same reason
+  const [settings, setSettings] = useState(initialSettings);
+  const settingsRef = useRef(initialSettings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // every message we know about, all branches included; useChat only holds the
+  // branch on screen, so replies are merged in here when they finish
+  const [tree, setTree] = useState(initialMessages);
+
+  // we ask the chat helper for:
+  // - messages: the list of chat bubbles (both you and the AI)
+  // - sendMessage: a function to send a new message
+  // - status: whether we’re ready to send or still busy
+  // - stop: a function to abort the current streaming response
+  // - error: any error that happened during the last request
+  // - setMessages: lets us directly edit the message list (e.g. delete a message)
+  // - regenerate: asks the AI to redo the last assistant message
+  // - resumeStream: reattaches to an answer the server is still generating
+  const {
+    messages,
+    sendMessage,
+    status,
+    stop,
+    error,
+    setMessages,
+    regenerate,
+    resumeStream,
+  } = useChat<MyUIMessage>({
+    id: chatId, // stable id so the server can load and persist history for this chat
+
+    // start on the branch the user was last working on (rendered on the server),
+    // or on the one holding the message a search result pointed at
+    messages: initialMessages.some(m => m.id === focusMessageId)
+      ? getPath(initialMessages, getLatestLeafId(initialMessages, focusMessageId!))
+      : getActivePath(initialMessages),
+
+    // if the server is still generating an answer (e.g. after a reload),
+    // reattach to it and keep rendering; brand-new chats have nothing to resume
+    resume: !isNew,
+
+    // tell the chat helper how to reach our server API using a trigger-aware payload
+    transport: new DefaultChatTransport({
+      api: server_address,
+      prepareSendMessagesRequest: ({ id, messages, trigger, messageId: targetId, body }) => {
+        // an approve/deny click: the server runs (or rejects) the pending call and continues
+        if (body?.approval) {
+          return {
+            body: {
+              trigger: 'tool-approval',
+              id,
+              approval: body.approval,
+              model: modelIdRef.current,
+              settings: settingsRef.current,
+              route: 'tool-approval',
+            },
+          };
+        }
+
+        // Keep lastMessage for submit/fallback use
+        const lastMessage = messages[messages.length - 1];
+        const messageId = lastMessage?.id;
+
+        if (trigger === 'submit-message') {
+          return {
+            // no auth header needed: the session cookie travels with the request
+            headers: {
+              'X-Custom-Header': 'custom-value',       // any extra header your API expects
+            },
+            body: {
+              trigger: 'submit-message',
+              id,
+              message: messages[messages.length - 1], // send only the newest message
+              messageId,
+              model: modelIdRef.current,                // the model picked for this chat
+              settings: settingsRef.current,            // system prompt + generation settings
+              customKey: 'customValue',                 // example custom field (server logs it)
+              route: 'submit-message'
+            },
+          };
+        } else if (trigger === 'regenerate-message') {
+          return {
+            body: {
+              trigger: 'regenerate-message',
+              id,
+              // the answer to redo; without one, the server answers the last message
+              // left on screen (regenerate() has already dropped the old answer)
+              messageId: targetId ?? messageId,
+              model: modelIdRef.current,
+              settings: settingsRef.current,
+              route: 'regenerate-message'
+            },
+          };
+        }
+
+        // fall back to a compact shape if no special trigger is set
+        return {
+          body: {
+            id,
+            message: messages[messages.length - 1],
+            model: modelIdRef.current,
+            settings: settingsRef.current,
+            customKey: 'customValue',                 // example custom field (server logs it)
+            route: 'fallback',
+          },
+        };
+      },
+    }),
+
+    // smooth out UI updates so we re-render at most ~every 50ms while streaming
+    // this keeps the UI snappy without re-rendering on every tiny chunk
+    experimental_throttle: 50,
+
+    // (Event Callbacks): run code at key points in the chat lifecycle
+    onFinish: ({ message, messages, isAbort, isDisconnect, isError }) => {
+      // keep the finished branch in the tree so switching away doesn't lose it
+      setTree(prev => mergeMessages(prev, messages));
+
+      // fires when the assistant has fully finished responding
+      // good place to sync analytics, update other UI bits, etc.
+      // we keep it minimal here and just log some useful details
+      console.log('assistant finished', {
+        messageId: message.id,
+        totalMessages: messages.length,
+        isAbort,
+        isDisconnect,
+        isError,
+      });
+
+      // also log usage metadata if the server attached it
+      // helps track token consumption without extra round-trips
+      console.log('total usage (if provided):', message.metadata?.totalUsage);
+    },
+    onError: (err) => {
+      // called whenever the fetch/streaming fails
+      // keep logs developer-facing; user-facing copy stays generic below
+      console.error('useChat onError:', err);
+    },
+    onData: (data) => {
+      // called for every data part as it streams in
+      // can be used for custom parsing or side-effects per chunk
+      console.log('useChat onData part:', JSON.stringify(data, null, 2));  // pretty-print with 2 spaces
+      // the server streams an auto-generated title after the first reply
+      if (data.type === 'data-title') setTitle(data.data.title);
+      // transient notes and loop progress for the answer that is streaming
+      if (data.type === 'data-status') setNotices(current => [...current, data.data]);
+      if (data.type === 'data-progress') setProgress(data.data);
+      // note: you can cancel processing by throwing here
+      // e.g. if a chunk fails validation: throw new Error('abort stream');
+    },
+  });
+
+  // a new request starts with a clean slate of notes and progress
+  useEffect(() => {
+    if (status === 'submitted') {
+      setNotices([]);
+      setProgress(undefined);
+    }
+  }, [status]);
+
+  // bring the message a search result pointed at into view once, after the first render
+  useEffect(() => {
+    if (focusMessageId) {
+      document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [focusMessageId]);
+
+  // the full tree including whatever is streaming in right now
+  const allMessages = useMemo(() => mergeMessages(tree, messages), [tree, messages]);
+
+  // input is whatever you’re typing into the text box; setInput updates it
+  const [input, setInput] = useState('');
+
+  // files already uploaded and waiting to go out with the next message
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  // picked, pasted or dropped files are uploaded right away; the message only
+  // carries a link to them, not the file contents
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setUploading(true);
+    try {
+      const uploaded = await uploadFiles(files);
+      setAttachments(current => [...current, ...uploaded]);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // which user message is being edited, and the draft text
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  // show another version of a message, continuing down its newest replies
+  const showBranch = (messageId: string) => {
+    setTree(allMessages);
+    setMessages(getPath(allMessages, getLatestLeafId(allMessages, messageId)));
+  };
+
+  // editing a user message sends the new text as a sibling of the original,
+  // so the old version (and the answers under it) stay one click away
+  const handleEdit = (original: MyUIMessage, text: string) => {
+    setEditingId(null);
+    if (!text.trim()) return;
+    const index = messages.findIndex(m => m.id === original.id);
+    setTree(allMessages);
+    // keep only what came before the edited message, then send the new version there
+    setMessages(messages.slice(0, index));
+    // the new version keeps the files attached to the original
+    const files = original.parts.filter((part): part is FileUIPart => part.type === 'file');
+    sendMessage({ text, files, metadata: { parentId: messages[index - 1]?.id ?? null } });
+  };
+
+  // small helper to remove a message by id; its replies move up to its parent
+  const handleDelete = async (idToDelete: string) => {
+    // optimistically update the UI first so deletion feels instant
+    const next = removeMessage(allMessages, idToDelete);
+    const visible = messages.filter(m => m.id !== idToDelete);
+    setTree(next);
+    setMessages(getPath(next, visible[visible.length - 1]?.id ?? null));
+
+    // also tell the server to remove this message from persisted history
+    try {
+      await fetch(server_address!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          trigger: 'delete-message', // server understands this trigger
+          id: chatId,                // must match the chat id used by the hook
+          messageId: idToDelete,     // which message to delete
+        }),
+      });
+    } catch (e) {
+      console.error('failed to delete message on server:', e);
+      // optional: rollback UI or show a toast if needed
+    }
+  };
+
+  // pin or unpin a message; pinned messages always reach the model, even in long chats
+  const handlePin = async (messageId: string, pinned: boolean) => {
+    // optimistic, like delete: flip the flag on screen and in the tree
+    const pin = (list: MyUIMessage[]) =>
+      list.map(m => (m.id === messageId ? { ...m, metadata: { ...m.metadata, pinned } } : m));
+    setTree(pin(allMessages));
+    setMessages(pin(messages));
+
+    try {
+      await fetch(server_address!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger: 'pin-message', id: chatId, messageId, pinned }),
+      });
+    } catch (e) {
+      console.error('failed to pin message on server:', e);
+    }
+  };
+
+  // rate an answer (or take the rating back with null); optimistic, like pinning.
+  // the server stamps the time, so the local copy just uses "now"
+  const handleFeedback = async (messageId: string, feedback: MessageFeedback | null) => {
+    const rate = (list: MyUIMessage[]) =>
+      list.map(m => {
+        if (m.id !== messageId) return m;
+        const metadata = { ...m.metadata, feedback: feedback ? { ...feedback, ratedAt: Date.now() } : undefined };
+        return { ...m, metadata };
+      });
+    setTree(rate(allMessages));
+    setMessages(rate(messages));
+
+    try {
+      await fetch(server_address!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger: 'feedback', id: chatId, messageId, feedback }),
+      });
+    } catch (e) {
+      console.error('failed to save feedback on server:', e);
+    }
+  };
+
+  // how full the context window was for the latest answer on this branch, and
+  // which older messages the model got only as a summary (or not at all)
+  const contextUsage = [...messages].reverse().find(m => m.metadata?.context)?.metadata?.context;
+  const omittedIndex = contextUsage?.omittedThroughId
+    ? messages.findIndex(m => m.id === contextUsage.omittedThroughId)
+    : -1;
+  const omittedIds = new Set(
+    messages.slice(0, omittedIndex + 1).filter(m => !m.metadata?.pinned).map(m => m.id),
+  );
+
+  // answer a tool call that is waiting for approval; sending without a new message
+  // re-posts the current conversation, and the approval rides along in the body
+  const handleToolApproval = (toolCallId: string, approved: boolean) => {
+    sendMessage(undefined, { body: { approval: { toolCallId, approved } } });
+  };
+
+  // switch models; saved right away for existing chats (new chats save it with the first reply)
+  const handleModelChange = async (nextModelId: string) => {
+    setModelId(nextModelId);
+    try {
+      await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: nextModelId }),
+      });
+    } catch (e) {
+      console.error('failed to save model choice:', e);
+    }
+  };
+
+  // save new settings; like the model, new chats save them with the first reply
+  const handleSettingsSave = async (nextSettings: ChatSettings) => {
+    setSettings(nextSettings);
+    try {
+      await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: nextSettings }),
+      });
+    } catch (e) {
+      console.error('failed to save chat settings:', e);
+    }
+  };
+
+  // save a user-chosen title; it also stops automatic titles for this chat
+  const handleRename = async (nextTitle: string) => {
+    setTitle(nextTitle.trim() || null);
+    try {
+      await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: nextTitle }),
+      });
+    } catch (e) {
+      console.error('failed to rename chat:', e);
+    }
+  };
+
+  // this is what shows up on the screen
+  return (
+    <div style={{ display: 'flex', minHeight: '100vh' }}>
+      {/* list of saved chats; refresh it whenever a reply settles or the title changes */}
+      <ChatSidebar
+        currentChatId={chatId}
+        refreshKey={status === 'ready' ? `${messages.length}:${title}` : undefined}
+      />
+
+      <main style={{ flex: 1, padding: 8 }}>
+        {/* the chat title; renaming here overrides the generated one */}
+        <ChatHeader
+          title={title}
+          onRename={handleRename}
+          // nothing to export until the first message is saved
+          exportChatId={messages.length > 0 ? chatId : undefined}
+        />
+
+        {/* which model answers; switching mid-chat is fine, history carries over */}
+        <ModelPicker
+          value={modelId}
+          onChange={handleModelChange}
+          disabled={status === 'submitted' || status === 'streaming'}
+        />
+
+        {/* system prompt, presets and generation settings for this chat */}
+        <ChatSettingsPanel value={settings} onSave={handleSettingsSave} />
+
+        {/* read-only links for teammates; there is nothing to share before the first message */}
+        {messages.length > 0 && (
+          <ShareMenu chatId={chatId} leafId={messages[messages.length - 1]?.id} />
+        )}
+
+        {/* how much of the model's context the conversation takes up */}
+        <ContextMeter usage={contextUsage} omittedCount={omittedIds.size} />
+
+        {/* show every message we have so far */}
+        {/*
+          Deduplicate by id to avoid React's "Encountered two children with the same key" warning
+          which can happen during regenerate/reconciliation.
+        */}
+        {useMemo(
+          () => Array.from(new Map(messages.map(m => [m.id, m])).values()),
+          [messages]
+        ).map(message => {
+          // the other versions of this message (edits or regenerated answers)
+          const siblings = getSiblings(allMessages, message);
+          return (
+          // each item needs a stable key so React can track it
+          // messages the model no longer sees in full are dimmed, and the one a
+          // search result pointed at is outlined
+          <div
+            key={message.id}
+            id={`message-${message.id}`}
+            style={{
+              ...(omittedIds.has(message.id) && { opacity: 0.6 }),
+              ...(message.id === focusMessageId && { outline: '2px solid #fc0', outlineOffset: 2 }),
+            }}
+          >
+            {/* show who spoke: if role is 'user', label it “User:”, else label it “AI:” */}
+            {message.role === 'user' ? 'User: ' : 'AI: '}
+
+            {/* saved in a shape today's schemas can't read: kept on disk, never sent to the model */}
+            {message.metadata?.quarantined && (
+              <span title={message.metadata.quarantined.reason} style={{ color: '#b45309' }}>
+                ⚠ This message was saved in an older format that can&apos;t be read any more, so it is
+                hidden and not sent to the model.{' '}
+              </span>
+            )}
+
+            {/* pinned messages are always sent; dimmed ones were summarized or left out */}
+            {message.metadata?.pinned && <span title="Always sent to the model">📌 </span>}
+            {omittedIds.has(message.id) && (
+              <span>({contextUsage?.summarized ? 'summarized' : 'not sent to the model'}) </span>
+            )}
+
+            {/* switch between versions; hidden when there is only one */}
+            <BranchNav
+              index={siblings.findIndex(m => m.id === message.id)}
+              count={siblings.length}
+              onSelect={i => showBranch(siblings[i].id)}
+              disabled={status !== 'ready'}
+            />{' '}
+
+            {/* optionally show when the message started, if the server attached metadata */}
+            {message.metadata?.createdAt && (
+              <span>
+                {new Date(message.metadata.createdAt).toLocaleTimeString()} —{' '}
+              </span>
+            )
+            }
+
+            {/* which model answered, as reported by the server */}
+            {message.metadata?.model && <span>[{message.metadata.model}] </span>}
+
+            {/* each message can have multiple parts: text, reasoning, sources, files, tool calls;
+                multi-step answers are grouped into collapsible steps */}
+            {editingId === message.id ? (
+              // inline editor: saving sends the new text as a new version
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleEdit(message, editDraft);
+                }}
+              >
+                <input
+                  autoFocus
+                  value={editDraft}
+                  onChange={e => setEditDraft(e.target.value)}
+                  onKeyDown={e => e.key === 'Escape' && setEditingId(null)}
+                  aria-label="Edit message"
+                />
+                <button type="submit">Send</button>
+                <button type="button" onClick={() => setEditingId(null)}>
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <MessageSteps
+                message={message}
+                // decisions can only be sent while no request is in flight
+                onToolApproval={status === 'ready' ? handleToolApproval : undefined}
+              />
+            )}
+
+            {/* show token usage if the server sent it in metadata */}
+            {message.metadata?.totalTokens && (
+              <span> ({message.metadata.totalTokens} tokens)</span>
+            )}
+
+            {/* and what the answer cost, when the model has a known price */}
+            {message.metadata?.cost !== undefined && (
+              <span> (${message.metadata.cost.toFixed(4)})</span>
+            )}
+
+            {/* show full usage details if provided by the server
+                useful when the server returns a LanguageModelUsage object */}
+            {message.metadata?.totalUsage?.totalTokens && (
+              <div> Total usage: {message.metadata.totalUsage.totalTokens} tokens</div>
+            )}
+
+            {/* edit a question or redo an answer; both keep the old version as a branch */}
+            {message.role === 'user' && (
+              <button
+                type="button"
+                disabled={status !== 'ready'}
+                onClick={() => {
+                  setEditingId(message.id);
+                  setEditDraft(
+                    message.parts.map(part => (part.type === 'text' ? part.text : '')).join(''),
+                  );
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {message.role === 'assistant' && (
+              <button
+                type="button"
+                disabled={status !== 'ready'}
+                onClick={() => regenerate({ messageId: message.id })}
+              >
+                Regenerate
+              </button>
+            )}
+
+            {/* thumbs up/down (and a comment) on an answer that has finished streaming */}
+            {message.role === 'assistant' &&
+              !message.metadata?.quarantined &&
+              (status === 'ready' || message.id !== messages[messages.length - 1]?.id) && (
+              <FeedbackButtons
+                feedback={message.metadata?.feedback}
+                onChange={feedback => handleFeedback(message.id, feedback)}
+              />
+            )}
+
+            {/* keep a message in the model's context however long the chat gets */}
+            <button
+              type="button"
+              onClick={() => handlePin(message.id, !message.metadata?.pinned)}
+            >
+              {message.metadata?.pinned ? 'Unpin' : 'Pin'}
+            </button>
+
+            {/* a tiny delete button per message so users can prune history */}
+            <button type="button" onClick={() => handleDelete(message.id)}>
+              Delete
+            </button>
+          </div>
+          );
+        })}
+
+        {/* while we’re sending or receiving, show a tiny status area */}
+        {(status === 'submitted' || status === 'streaming') && (
+          <div>
+            {/* if we’re waiting for the stream to start, you could show a spinner */}
+            {/* Spinner is now a real component defined above */}
+            {status === 'submitted' && <Spinner />}
+            {/* which step of the tool-calling loop is running */}
+            {progress && <ProgressLine progress={progress} />}
+            {/* let the user cancel a long answer mid-stream */}
+            <button type="button" onClick={() => stop()}>
+              Stop
+            </button>
+          </div>
+        )}
+
+        {/* what the server said about the latest answer, e.g. a tool server that was down */}
+        <StatusNotices notices={notices} />
+
+        {/* offer a “Regenerate” action once we’re idle, or after an error */}
+        {(status === 'ready' || status === 'error') && (
+          <div>
+            {/* re-ask the model to produce the last assistant message again */}
+            <button type="button" onClick={() => regenerate()}>
+              Regenerate
+            </button>
+          </div>
+        )}
+
+        {/* if something went wrong, keep the message generic and offer a retry */}
+        {error && (
+          <div role="alert">
+            {/* keep error messages vague to avoid leaking server details; limits
+                (quota, rate, size) are the exception, since the user can act on them */}
+            {getLimitError(error)?.error ?? 'An error occurred.'}{' '}
+            {getLimitError(error)?.code === 'quota_exceeded' && <Link href="/usage">See your usage</Link>}
+            {/* try the last request again */}
+            <button type="button" onClick={() => regenerate()}>
+              Retry
+            </button>
+            {/* if the connection dropped, the server may still be answering: pick it up */}
+            <button type="button" onClick={() => resumeStream()}>
+              Reconnect
+            </button>
+          </div>
+        )}
+
+        {/* the form that handles typing and submitting your message */}
+        <form
+          // when you submit the form (press enter or click submit), run this code
+          onSubmit={e => {
+            e.preventDefault(); // stop the page from reloading
+            if (input.trim() || attachments.length > 0) {
+              // a new chat becomes real with its first message; give it its own URL
+              // (without a navigation) so a reload or the sidebar finds it again
+              if (isNew && messages.length === 0) {
+                window.history.replaceState(null, '', `/chat/${chatId}`);
+              }
+              // request-level options: per-send headers/body/metadata override hook defaults
+              // use this to pass auth, knobs like temperature, or custom fields to your API
+              // the new message answers the last one on screen (null starts the chat)
+              sendMessage({
+                text: input,
+                files: attachments,
+                metadata: { parentId: messages[messages.length - 1]?.id ?? null },
+              });
+              // clear the input box (and the attached files) after sending
+              setInput('');
+              setAttachments([]);
+            }
+          }}
+          // files can also be dropped onto the form or pasted into the text box
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => {
+            e.preventDefault();
+            addFiles(Array.from(e.dataTransfer.files));
+          }}
+        >
+          <AttachmentPicker
+            attachments={attachments}
+            onAdd={addFiles}
+            onRemove={index => setAttachments(current => current.filter((_, i) => i !== index))}
+            disabled={uploading || status !== 'ready' || error != null}
+          />
+          {/* the text box where you type */}
+          <input
+            value={input} // tie the input box to our state variable “input”
+            onChange={e => setInput(e.target.value)} // update “input” as you type
+            onPaste={e => {
+              // pasted screenshots/files become attachments; plain text pastes as usual
+              if (e.clipboardData.files.length > 0) {
+                e.preventDefault();
+                addFiles(Array.from(e.clipboardData.files));
+              }
+            }}
+            // disable typing while we’re busy or after an error until the user retries
+            disabled={status !== 'ready' || error != null}
+            placeholder="Say something..." // gray hint text
+          />
+          {/* the button to submit your message */}
+          <button
+            type="submit"
+            // prevent new submits while we’re busy, uploading, or if there’s an error shown
+            disabled={uploading || status !== 'ready' || error != null}
+          >
+            Submit
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
+
+// the server answers with { code, error } when a limit is hit (a used-up quota,
+// too many requests, a message that is too long); the transport hands us that
+// body as the error message
+function getLimitError(error: Error): { code: string; error: string } | undefined {
+  try {
+    const body: { code?: string; error?: string } = JSON.parse(error.message);
+    const isLimit = ['quota_exceeded', 'rate_limited', 'payload_too_large'].includes(body.code ?? '');
+    return isLimit && body.code && body.error ? { code: body.code, error: body.error } : undefined;
+  } catch {
+    return undefined;
+  }
+}
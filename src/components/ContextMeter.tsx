@@ -0,0 +1,31 @@
+// src/components/ContextMeter.tsx
+// shows how much of the model's context window the last answer used, and
+// whether older messages had to be left out (or summarized) to make it fit
+import type { ContextUsage } from '../lib/context-window';
+
+export function ContextMeter({
+  usage,
+  omittedCount,
+}: {
+  usage: ContextUsage | undefined; // from the latest answer's metadata; nothing to show without it
+  omittedCount: number;            // how many messages on screen the model no longer sees in full
+}) {
+  if (!usage) return null;
+
+  const percent = Math.min(100, Math.round((usage.usedTokens / usage.limitTokens) * 100));
+
+  return (
+    <div style={{ fontSize: 12, margin: '4px 0' }}>
+      <meter min={0} max={100} value={percent} low={70} high={90} optimum={0} />{' '}
+      Context: ~{usage.usedTokens.toLocaleString()} / {usage.limitTokens.toLocaleString()} tokens
+      ({percent}%)
+      {omittedCount > 0 && (
+        <span>
+          {' '}
+          · {omittedCount} earlier {omittedCount === 1 ? 'message' : 'messages'}{' '}
+          {usage.summarized ? 'summarized' : 'left out'}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// src/components/DataParts.tsx
+// renderers for our custom data parts (see dataPartsSchema): tables are part
+// of an answer; status notes and progress only show while an answer streams
+import type { MyDataParts } from '../util/schemas';
+
+// a table the model made with the showTable tool
+export function DataTable({ table }: { table: MyDataParts['table'] }) {
+  return (
+    <table style={{ borderCollapse: 'collapse', margin: '4px 0', fontSize: 14 }}>
+      {table.title && <caption style={{ textAlign: 'left', fontWeight: 'bold' }}>{table.title}</caption>}
+      <thead>
+        <tr>
+          {table.columns.map((column, i) => (
+            <th key={i} style={CELL_STYLE}>
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, r) => (
+          <tr key={r}>
+            {row.map((cell, c) => (
+              // numbers line up on the right, like in a spreadsheet
+              <td key={c} style={{ ...CELL_STYLE, textAlign: typeof cell === 'number' ? 'right' : 'left' }}>
+                {cell ?? ''}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// notes the server sent about the answer in progress (e.g. a tool server that is down)
+export function StatusNotices({ notices }: { notices: MyDataParts['status'][] }) {
+  if (notices.length === 0) return null;
+  return (
+    <ul style={{ listStyle: 'none', padding: 0, margin: '4px 0', fontSize: 12 }}>
+      {notices.map((notice, i) => (
+        <li key={i} role={notice.level === 'warning' ? 'alert' : undefined}>
+          {notice.level === 'warning' ? '⚠ ' : 'ℹ '}
+          {notice.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// which step of the agent loop is running, e.g. "Step 2 of 5: using calculator…"
+export function ProgressLine({ progress }: { progress: MyDataParts['progress'] }) {
+  return (
+    <small>
+      {' '}Step {progress.step} of {progress.maxSteps}: {progress.activity}…{' '}
+      <progress max={progress.maxSteps} value={progress.step} />{' '}
+    </small>
+  );
+}
+
+// table cells: a thin border and a little room
+const CELL_STYLE = { border: '1px solid #8886', padding: '2px 6px' } as const;
@@ -0,0 +1,95 @@
+// src/components/DocumentLibrary.tsx
+// 'use client' because it uploads and removes documents from the browser
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useRef, useState } from 'react';
+import type { DocumentInfo } from '../util/document-store';
+
+// the file types the knowledge base reads (the server checks again)
+const ACCEPT = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+// the user's document collection: add files (each is indexed before the next
+// one is sent) and remove them; the page re-renders the list from the server
+export function DocumentLibrary({ documents }: { documents: DocumentInfo[] }) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // what is happening right now, e.g. "Indexing report.pdf…"
+  const [status, setStatus] = useState<string | null>(null);
+  // files the server refused, with the reason
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // send the picked files one at a time; a bad file doesn't stop the rest
+  const handleAdd = async (files: File[]) => {
+    setErrors([]);
+    for (const file of files) {
+      setStatus(`Indexing ${file.name}…`);
+      const form = new FormData();
+      form.append('file', file);
+      try {
+        const res = await fetch('/api/documents', { method: 'POST', body: form });
+        const data: { error?: string } = await res.json();
+        if (!res.ok) setErrors(prev => [...prev, `${file.name}: ${data.error ?? 'could not be added.'}`]);
+      } catch (e) {
+        console.error('failed to add document:', e);
+        setErrors(prev => [...prev, `${file.name}: could not be added.`]);
+      }
+    }
+    setStatus(null);
+    router.refresh();
+  };
+
+  const handleDelete = async (document: DocumentInfo) => {
+    if (!window.confirm(`Remove ${document.filename}? Answers will no longer find it.`)) return;
+    try {
+      await fetch(`/api/documents/${document.id}`, { method: 'DELETE' });
+    } catch (e) {
+      console.error('failed to remove document:', e);
+    }
+    router.refresh();
+  };
+
+  return (
+    <div>
+      <button type="button" disabled={status !== null} onClick={() => inputRef.current?.click()}>
+        Add documents
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        multiple
+        hidden
+        onChange={e => {
+          const files = Array.from(e.target.files ?? []);
+          // reset so picking the same file again still fires onChange
+          e.target.value = '';
+          if (files.length > 0) void handleAdd(files);
+        }}
+      />
+      {status && <span style={{ marginLeft: 8 }}>{status}</span>}
+      {errors.map(error => (
+        <p key={error} role="alert">
+          {error}
+        </p>
+      ))}
+
+      {documents.length === 0 && <p>No documents yet. Text, Markdown and PDF files can be added.</p>}
+      <ul style={{ listStyle: 'none', padding: 0 }}>
+        {documents.map(document => (
+          <li key={document.id} style={{ margin: '8px 0' }}>
+            <Link href={`/documents/${document.id}`}>{document.filename}</Link>{' '}
+            <span style={{ fontSize: 12, opacity: 0.7 }}>
+              {document.pageCount !== undefined && `${document.pageCount} pages · `}
+              {document.chunkCount} passages · added {new Date(document.createdAt).toLocaleDateString()}
+            </span>{' '}
+            <button type="button" onClick={() => handleDelete(document)} aria-label={`Remove ${document.filename}`}>
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+// src/components/FeedbackButtons.tsx
+// thumbs up / down on an answer, with an optional comment; rated answers can
+// be exported as eval cases (GET /api/feedback/export)
+'use client';
+
+import { useState } from 'react';
+import type { MessageFeedback } from '../util/schemas';
+
+export function FeedbackButtons({
+  feedback,
+  onChange,
+}: {
+  feedback?: MessageFeedback;                          // the rating the answer has now, if any
+  onChange: (feedback: MessageFeedback | null) => void; // null takes the rating back
+}) {
+  // the comment box is open while the user writes (or edits) a comment
+  const [commenting, setCommenting] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  // clicking the active thumb again clears the rating (and its comment)
+  const rate = (rating: MessageFeedback['rating']) => {
+    if (feedback?.rating === rating) {
+      onChange(null);
+      setCommenting(false);
+      return;
+    }
+    onChange({ rating, comment: feedback?.comment });
+    // a thumbs down is most useful with a reason, so ask for one right away
+    if (rating === 'down' && !feedback?.comment) openComment();
+  };
+
+  const openComment = () => {
+    setDraft(feedback?.comment ?? '');
+    setCommenting(true);
+  };
+
+  return (
+    <span aria-label="Rate this answer" style={{ whiteSpace: 'nowrap' }}>
+      <button
+        type="button"
+        aria-label="Good answer"
+        aria-pressed={feedback?.rating === 'up'}
+        onClick={() => rate('up')}
+        style={{ opacity: feedback?.rating === 'up' ? 1 : 0.5 }}
+      >
+        👍
+      </button>
+      <button
+        type="button"
+        aria-label="Bad answer"
+        aria-pressed={feedback?.rating === 'down'}
+        onClick={() => rate('down')}
+        style={{ opacity: feedback?.rating === 'down' ? 1 : 0.5 }}
+      >
+        👎
+      </button>
+
+      {/* a comment belongs to a rating, so it can only be added once there is one */}
+      {feedback && !commenting && (
+        <button type="button" onClick={openComment} title={feedback.comment}>
+          {feedback.comment ? 'Edit comment' : 'Add comment'}
+        </button>
+      )}
+      {feedback && commenting && (
+        <form
+          style={{ display: 'inline' }}
+          onSubmit={e => {
+            e.preventDefault();
+            onChange({ rating: feedback.rating, comment: draft.trim() || undefined });
+            setCommenting(false);
+          }}
+        >
+          <input
+            autoFocus
+            value={draft}
+            maxLength={2000}
+            placeholder="What was good or wrong about it?"
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setCommenting(false)}
+            aria-label="Feedback comment"
+          />
+          <button type="submit">Save</button>
+          <button type="button" onClick={() => setCommenting(false)}>
+            Cancel
+          </button>
+        </form>
+      )}
+    </span>
+  );
+}
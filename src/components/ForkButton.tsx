@@ -0,0 +1,41 @@
+// src/components/ForkButton.tsx
+// 'use client' because it posts the fork request and navigates in the browser
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+// "continue this chat" on a shared link: copies the snapshot into a new chat
+// of your own; visitors who aren't signed in are sent to log in first
+export function ForkButton({ token, signedIn }: { token: string; signedIn: boolean }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+
+  if (!signedIn) {
+    return <Link href={`/login?next=/share/${token}`}>Sign in to continue this chat</Link>;
+  }
+
+  const handleFork = async () => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/shares/${token}/fork`, { method: 'POST' });
+      const data: { chat?: { id: string }; error?: string } = await res.json();
+      if (!res.ok || !data.chat) {
+        window.alert(data.error ?? 'Could not copy this chat.');
+        return;
+      }
+      router.push(`/chat/${data.chat.id}`);
+    } catch (e) {
+      console.error('failed to fork chat:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button type="button" disabled={busy} onClick={handleFork}>
+      {busy ? 'Copying…' : 'Continue this chat'}
+    </button>
+  );
+}
@@ -0,0 +1,82 @@
+// src/components/LoginForm.tsx
+// 'use client' because the form posts credentials and redirects in the browser
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+// one form for both signing in and creating an account
+export function LoginForm({ redirectTo }: { redirectTo: string }) {
+  const router = useRouter();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password }),
+      });
+      const data: { ok: boolean; error?: string } = await res.json();
+      if (!data.ok) {
+        setError(data.error ?? 'Something went wrong.');
+        return;
+      }
+      // the session cookie is set now; replace so "back" doesn't return to the form
+      router.replace(redirectTo);
+      router.refresh();
+    } catch (e) {
+      console.error('sign-in failed:', e);
+      setError('Could not reach the server.');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <h1>{mode === 'login' ? 'Sign in' : 'Create an account'}</h1>
+
+      <label style={{ display: 'block', margin: '8px 0' }}>
+        Name
+        <input
+          autoFocus
+          autoComplete="username"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          style={{ display: 'block', width: '100%' }}
+        />
+      </label>
+
+      <label style={{ display: 'block', margin: '8px 0' }}>
+        Password
+        <input
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          style={{ display: 'block', width: '100%' }}
+        />
+      </label>
+
+      {error && <p role="alert" style={{ color: 'crimson' }}>{error}</p>}
+
+      <button type="submit" disabled={pending}>
+        {mode === 'login' ? 'Sign in' : 'Sign up'}
+      </button>{' '}
+      <button
+        type="button"
+        onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+      >
+        {mode === 'login' ? 'Need an account?' : 'Have an account? Sign in'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,95 @@
+// src/components/MessagePart.tsx
+// renders one part of a message: text, reasoning, sources, files, tool calls
+// and the data parts that are stored with an answer (tables)
+import { isToolOrDynamicToolUIPart } from 'ai';
+import type { MyUIMessage } from '../lib/chat-types';
+import { DataTable } from './DataParts';
+import { ToolPart, type ToolApprovalHandler } from './ToolPart';
+
+// a single entry from message.parts
+export type MyMessagePart = MyUIMessage['parts'][number];
+
+export function MessagePart({
+  part,
+  onToolApproval,
+}: {
+  part: MyMessagePart;
+  onToolApproval?: ToolApprovalHandler; // lets tool calls that wait for approval show buttons
+}) {
+  // tool calls (ours and dynamic ones) have their own renderers
+  if (isToolOrDynamicToolUIPart(part)) {
+    return <ToolPart part={part} onToolApproval={onToolApproval} />;
+  }
+
+  switch (part.type) {
+    case 'text':
+      return <span>{part.text}</span>;
+
+    case 'reasoning':
+      // collapsed by default; reasoning can be long and is mostly for debugging
+      return (
+        <details>
+          <summary>{part.state === 'streaming' ? 'Thinking…' : 'Reasoning'}</summary>
+          <pre style={{ whiteSpace: 'pre-wrap', margin: 0 }}>{part.text}</pre>
+        </details>
+      );
+
+    case 'source-url': {
+      // web sources and passages from the user's documents (/documents/...)
+      // are links; any other url (it comes from a tool or the model) is only text
+      const host = webHost(part.url);
+      if (host === undefined && !part.url.startsWith('/documents/')) {
+        return <span title={part.url}>[{part.title ?? part.url}] </span>;
+      }
+      return (
+        <>
+          <a href={part.url} target="_blank" rel="noreferrer">
+            [{part.title ?? host ?? part.url}]
+          </a>{' '}
+        </>
+      );
+    }
+
+    case 'source-document':
+      return (
+        <span title={part.filename ?? part.mediaType}>[📄 {part.title}]</span>
+      );
+
+    case 'file':
+      // images get an inline preview; anything else becomes a download link
+      if (part.mediaType.startsWith('image/')) {
+        return (
+          // eslint-disable-next-line @next/next/no-img-element -- urls may be data: urls
+          <img
+            src={part.url}
+            alt={part.filename ?? 'attached image'}
+            style={{ maxWidth: 240, maxHeight: 240, display: 'block' }}
+          />
+        );
+      }
+      return (
+        <a href={part.url} target="_blank" rel="noreferrer" download={part.filename}>
+          📎 {part.filename ?? part.mediaType}
+        </a>
+      );
+
+    case 'data-table':
+      return <DataTable table={part.data} />;
+
+    // step boundaries and the other data parts (transient ones never land in
+    // a message) don't render anything here
+    default:
+      return null;
+  }
+}
+
+// helper: the host name of an http(s) url, or undefined for anything else
+// (relative or malformed urls, javascript:, data:, ...)
+function webHost(url: string): string | undefined {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,87 @@
+// src/components/MessageSteps.tsx
+// renders a message's parts, grouped into collapsible steps when the agent loop
+// took more than one step (e.g. call a tool, then answer with its result);
+// sources (citations) are gathered below the answer, whichever step found them
+import type { MyUIMessage } from '../lib/chat-types';
+import { MessagePart, type MyMessagePart } from './MessagePart';
+import type { ToolApprovalHandler } from './ToolPart';
+
+export function MessageSteps({
+  message,
+  onToolApproval,
+}: {
+  message: MyUIMessage;
+  onToolApproval?: ToolApprovalHandler;
+}) {
+  const sources = message.parts.filter(isSourcePart);
+  const { leading, steps } = splitIntoSteps(message.parts.filter(part => !isSourcePart(part)));
+
+  // helper: render a list of parts with stable-enough keys
+  const renderParts = (parts: MyMessagePart[], keyPrefix: string) =>
+    parts.map((part, index) => (
+      <MessagePart key={`${keyPrefix}-${index}`} part={part} onToolApproval={onToolApproval} />
+    ));
+
+  // the citations list, empty when the answer has no sources
+  const sourceList = sources.length > 0 && (
+    <div style={{ fontSize: 12, marginTop: 4 }}>
+      Sources: {renderParts(sources, 'source')}
+    </div>
+  );
+
+  // single-step answers (and user messages) don't need the extra chrome
+  if (steps.length <= 1) {
+    return (
+      <>
+        {renderParts([...leading, ...(steps[0] ?? [])], 'part')}
+        {sourceList}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {renderParts(leading, 'leading')}
+      {steps.map((parts, index) => {
+        // the server records one summary per step, in the same order
+        const summary = message.metadata?.steps?.[index];
+        const toolNames = summary?.toolCalls.map(call => call.toolName) ?? [];
+        return (
+          // earlier steps are usually tool plumbing, so only the last one starts open
+          <details key={index} open={index === steps.length - 1}>
+            <summary>
+              Step {index + 1}
+              {summary && (
+                <>
+                  {' '}— {summary.finishReason}
+                  {summary.usage.totalTokens != null && `, ${summary.usage.totalTokens} tokens`}
+                  {toolNames.length > 0 && `, tools: ${toolNames.join(', ')}`}
+                </>
+              )}
+            </summary>
+            {renderParts(parts, `step-${index}`)}
+          </details>
+        );
+      })}
+      {sourceList}
+    </>
+  );
+}
+
+// helper: parts that cite where the answer comes from
+function isSourcePart(part: MyMessagePart): boolean {
+  return part.type === 'source-url' || part.type === 'source-document';
+}
+
+// helper: each `step-start` part opens a new group; anything before the first
+// one (user messages, resolved approvals) is returned separately
+function splitIntoSteps(parts: MyMessagePart[]) {
+  const leading: MyMessagePart[] = [];
+  const steps: MyMessagePart[][] = [];
+  for (const part of parts) {
+    if (part.type === 'step-start') steps.push([]);
+    else if (steps.length === 0) leading.push(part);
+    else steps[steps.length - 1].push(part);
+  }
+  return { leading, steps };
+}
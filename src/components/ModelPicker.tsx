@@ -0,0 +1,44 @@
+// src/components/ModelPicker.tsx
+// 'use client' because the picker loads the model list and handles changes in the browser
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ModelOption } from '../lib/providers';
+
+// a drop-down of the models the server allows
+export function ModelPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string | undefined;            // the selected "provider:model" id
+  onChange: (modelId: string) => void;  // called when the user picks another model
+  disabled?: boolean;                   // e.g. while a reply is streaming
+}) {
+  // the allowed models, as reported by /api/models
+  const [models, setModels] = useState<ModelOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then(res => res.json())
+      .then((data: { models?: ModelOption[] }) => setModels(data.models ?? []))
+      .catch(e => console.error('failed to load models:', e));
+  }, []);
+
+  return (
+    <label>
+      Model:{' '}
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled || models.length === 0}
+      >
+        {models.map(model => (
+          <option key={model.id} value={model.id}>
+            {model.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
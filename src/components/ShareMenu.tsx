@@ -0,0 +1,114 @@
+// src/components/ShareMenu.tsx
+// 'use client' because it creates, copies and revokes links from the browser
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ShareInfo } from '../util/share-store';
+
+// a collapsible panel for read-only links to this chat: "Share" snapshots the
+// branch on screen, and every live link can be copied or revoked
+export function ShareMenu({
+  chatId,
+  leafId,
+}: {
+  chatId: string;
+  leafId: string | undefined; // the last message of the branch on screen
+}) {
+  const [open, setOpen] = useState(false);
+  // the links that work right now, newest first
+  const [shares, setShares] = useState<ShareInfo[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // ask the server for this chat's live links
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares`);
+      const data: { shares?: ShareInfo[] } = await res.json();
+      setShares(data.shares ?? []);
+    } catch (e) {
+      console.error('failed to load share links:', e);
+    }
+  }, [chatId]);
+
+  // only load once the panel is opened; most visits never need it
+  useEffect(() => {
+    if (open) void refresh();
+  }, [open, refresh]);
+
+  // snapshot the branch on screen and copy the new link right away
+  const handleShare = async () => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leafId }),
+      });
+      const data: { share?: ShareInfo; error?: string } = await res.json();
+      if (!res.ok || !data.share) {
+        window.alert(data.error ?? 'Could not create a link.');
+        return;
+      }
+      await copyLink(data.share.token);
+      await refresh();
+    } catch (e) {
+      console.error('failed to share chat:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // revoking is immediate: anyone opening the link afterwards gets a 404
+  const handleRevoke = async (token: string) => {
+    if (!window.confirm('Revoke this link? People who have it will no longer be able to open it.')) return;
+    setShares(prev => prev.filter(share => share.token !== token));
+    try {
+      await fetch(`/api/shares/${token}`, { method: 'DELETE' });
+    } catch (e) {
+      console.error('failed to revoke link:', e);
+    }
+    await refresh();
+  };
+
+  return (
+    <details open={open} onToggle={e => setOpen(e.currentTarget.open)} style={{ margin: '8px 0' }}>
+      <summary>Share</summary>
+
+      <button type="button" disabled={busy || !leafId} onClick={handleShare}>
+        {busy ? 'Creating link…' : 'Create read-only link'}
+      </button>
+      <div style={{ fontSize: 12, opacity: 0.7 }}>
+        The link shows this branch as it is now; messages sent later are not included.
+      </div>
+
+      <ul style={{ listStyle: 'none', padding: 0 }}>
+        {shares.map(share => (
+          <li key={share.token} style={{ fontSize: 12, marginTop: 4 }}>
+            <code>{shareUrl(share.token)}</code>{' '}
+            ({share.messageCount} messages · {new Date(share.createdAt).toLocaleString()}){' '}
+            <button type="button" onClick={() => copyLink(share.token)}>
+              Copy
+            </button>
+            <button type="button" onClick={() => handleRevoke(share.token)}>
+              Revoke
+            </button>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+// helper: the full link for a token, as it would be pasted to a teammate
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+// helper: put a link on the clipboard (not every browser allows it, so say so)
+async function copyLink(token: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(shareUrl(token));
+  } catch {
+    window.prompt('Copy this link:', shareUrl(token));
+  }
+}
@@ -0,0 +1,190 @@
+// src/components/ToolPart.tsx
+// renders tool calls and their results so you can see what the model actually did
+import { getToolOrDynamicToolName, type DynamicToolUIPart, type ToolUIPart } from 'ai';
+import type { ReactNode } from 'react';
+import type { AppUITools } from '../lib/ai-tools';
+import { parseToolError } from '../lib/tool-registry';
+
+// any tool part we might find in a message: one of ours, or a dynamic/unknown tool
+export type AnyToolPart = ToolUIPart<AppUITools> | DynamicToolUIPart;
+
+// pick out the part type for one specific tool, e.g. ToolPartOf<'weather'>
+type ToolPartOf<NAME extends keyof AppUITools & string> = Extract<
+  ToolUIPart<AppUITools>,
+  { type: `tool-${NAME}` }
+>;
+
+// called when the user approves or denies a call that is waiting for them
+export type ToolApprovalHandler = (toolCallId: string, approved: boolean) => void;
+
+// friendly labels for the four lifecycle states a tool call goes through
+const STATE_LABELS: Record<AnyToolPart['state'], string> = {
+  'input-streaming': 'preparing call…',
+  'input-available': 'running…',
+  'output-available': 'done',
+  'output-error': 'failed',
+};
+
+// pick the right renderer for a tool part; unknown tools get the generic card
+export function ToolPart({
+  part,
+  onToolApproval,
+}: {
+  part: AnyToolPart;
+  onToolApproval?: ToolApprovalHandler; // only passed while a decision can be sent
+}) {
+  switch (part.type) {
+    case 'tool-weather':
+      return <WeatherToolPart part={part} onToolApproval={onToolApproval} />;
+    case 'tool-calculator':
+      return <CalculatorToolPart part={part} onToolApproval={onToolApproval} />;
+    case 'tool-showTable':
+      return <ShowTableToolPart part={part} onToolApproval={onToolApproval} />;
+    default:
+      return <ToolCallCard part={part} onToolApproval={onToolApproval} />;
+  }
+}
+
+// the generic card: tool name, state, arguments, and either the result or the error
+export function ToolCallCard({
+  part,
+  renderInput,
+  renderOutput,
+  onToolApproval,
+}: {
+  part: AnyToolPart;
+  renderInput?: () => ReactNode;  // optional nicer view of the arguments
+  renderOutput?: () => ReactNode; // optional nicer view of the result
+  onToolApproval?: ToolApprovalHandler;
+}) {
+  const name = getToolOrDynamicToolName(part);
+  // a denied call still ends up "output-available", with a structured denial as output
+  const denial = part.state === 'output-available' ? asDenial(part.output) : undefined;
+  // our tools report failures as { code, message }; other errors are plain text
+  const failure = part.state === 'output-error' ? parseToolError(part.errorText) : undefined;
+
+  return (
+    <div
+      data-tool={name}
+      data-state={part.state}
+      style={{ border: '1px solid #8884', borderRadius: 6, padding: 6, margin: '4px 0' }}
+    >
+      <div>
+        <strong>🔧 {name}</strong>{' '}
+        <em>
+          ({part.state === 'input-available' && onToolApproval
+            ? 'waiting for approval'
+            : STATE_LABELS[part.state]})
+        </em>
+      </div>
+
+      {/* arguments: may be partial while the model is still streaming them */}
+      {part.input !== undefined && (
+        <div>
+          Input:{' '}
+          {renderInput && part.state !== 'input-streaming' ? renderInput() : <Json value={part.input} />}
+        </div>
+      )}
+
+      {/* calls to sensitive tools stop here until the user decides */}
+      {part.state === 'input-available' && onToolApproval && (
+        <div>
+          This tool needs your approval to run.{' '}
+          <button type="button" onClick={() => onToolApproval(part.toolCallId, true)}>
+            Approve
+          </button>
+          <button type="button" onClick={() => onToolApproval(part.toolCallId, false)}>
+            Deny
+          </button>
+        </div>
+      )}
+
+      {denial && <div>Denied: {denial.reason}</div>}
+
+      {part.state === 'output-available' && !denial && (
+        <div>Result: {renderOutput ? renderOutput() : <Json value={part.output} />}</div>
+      )}
+
+      {part.state === 'output-error' && (
+        <div role="alert">
+          {failure ? `Error (${failure.code.replace(/_/g, ' ')}): ${failure.message}` : `Error: ${part.errorText}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// weather: show the location in words and the forecast text as-is
+function WeatherToolPart({
+  part,
+  onToolApproval,
+}: {
+  part: ToolPartOf<'weather'>;
+  onToolApproval?: ToolApprovalHandler;
+}) {
+  return (
+    <ToolCallCard
+      part={part}
+      onToolApproval={onToolApproval}
+      renderInput={() => <span>{part.input?.location}</span>}
+      renderOutput={() => <span>{part.output}</span>}
+    />
+  );
+}
+
+// calculator: render the call as an equation, e.g. "6 * 7 = 42"
+function CalculatorToolPart({
+  part,
+  onToolApproval,
+}: {
+  part: ToolPartOf<'calculator'>;
+  onToolApproval?: ToolApprovalHandler;
+}) {
+  const expression = part.input?.expression ?? '';
+  return (
+    <ToolCallCard
+      part={part}
+      onToolApproval={onToolApproval}
+      renderInput={() => <code>{expression}</code>}
+      renderOutput={() => <code>{expression} = {String(part.output)}</code>}
+    />
+  );
+}
+
+// showTable: the table itself is its own part, so the call just names it
+function ShowTableToolPart({
+  part,
+  onToolApproval,
+}: {
+  part: ToolPartOf<'showTable'>;
+  onToolApproval?: ToolApprovalHandler;
+}) {
+  return (
+    <ToolCallCard
+      part={part}
+      onToolApproval={onToolApproval}
+      renderInput={() => (
+        <span>
+          {part.input?.title ?? 'table'} ({part.input?.columns?.length ?? 0} columns)
+        </span>
+      )}
+      renderOutput={() => <span>shown, {part.output?.rows} rows</span>}
+    />
+  );
+}
+
+// helper: recognize the `{ approved: false, reason }` result the server records on denial
+function asDenial(output: unknown): { reason: string } | undefined {
+  if (typeof output !== 'object' || output === null) return undefined;
+  const { approved, reason } = output as { approved?: unknown; reason?: unknown };
+  return approved === false && typeof reason === 'string' ? { reason } : undefined;
+}
+
+// helper: compact, readable JSON for arbitrary inputs/outputs
+function Json({ value }: { value: unknown }) {
+  return (
+    <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
+      {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
@@ -0,0 +1,66 @@
+// src/components/UsageTable.tsx
+// one table of the usage page: a row per group (model, chat, day) with its
+// token counts and cost, plus a bar so the big spenders stand out
+import type { ReactNode } from 'react';
+import type { UsageTotals } from '../lib/usage';
+
+export function UsageTable({
+  caption,
+  label,
+  rows,
+}: {
+  caption: string;                                            // e.g. "By model"
+  label: string;                                              // heading of the first column
+  rows: { key: string; name: ReactNode; totals: UsageTotals }[]; // name may be a link
+}) {
+  if (rows.length === 0) return null;
+  const most = Math.max(...rows.map(row => row.totals.totalTokens), 1);
+
+  return (
+    <table style={{ borderCollapse: 'collapse', margin: '12px 0', fontSize: 14 }}>
+      <caption style={{ textAlign: 'left', fontWeight: 'bold' }}>{caption}</caption>
+      <thead>
+        <tr>
+          <th style={cell}>{label}</th>
+          <th style={cell}>Requests</th>
+          <th style={cell}>Input</th>
+          <th style={cell}>Cached</th>
+          <th style={cell}>Output</th>
+          <th style={cell}>Total tokens</th>
+          <th style={cell}>Cost</th>
+          <th style={cell} />
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ key, name, totals }) => (
+          <tr key={key}>
+            <td style={cell}>{name}</td>
+            <td style={cell}>{totals.requests}</td>
+            <td style={cell}>{totals.inputTokens.toLocaleString()}</td>
+            <td style={cell}>{totals.cachedInputTokens.toLocaleString()}</td>
+            <td style={cell}>{totals.outputTokens.toLocaleString()}</td>
+            <td style={cell}>{totals.totalTokens.toLocaleString()}</td>
+            {/* a trailing * means some answers used a model without a known price */}
+            <td style={cell}>
+              ${totals.cost.toFixed(4)}
+              {totals.unpriced > 0 && '*'}
+            </td>
+            <td style={cell}>
+              <div
+                style={{
+                  width: `${(totals.totalTokens / most) * 120}px`,
+                  height: 8,
+                  background: 'currentColor',
+                  opacity: 0.4,
+                }}
+              />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// shared cell padding
+const cell = { padding: '2px 8px', textAlign: 'left' as const };
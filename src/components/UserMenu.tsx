@@ -0,0 +1,43 @@
+// src/components/UserMenu.tsx
+// 'use client' because it fetches the current user and handles the sign-out click
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import type { SessionUser } from '../lib/auth';
+
+// shows who is signed in, with a button to sign out
+export function UserMenu() {
+  const router = useRouter();
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  // ask the server who we are (the session cookie is httpOnly, so JS can't read it)
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(res => res.json())
+      .then((data: { user?: SessionUser }) => setUser(data.user ?? null))
+      .catch(e => console.error('failed to load user:', e));
+  }, []);
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (e) {
+      console.error('failed to sign out:', e);
+    }
+    router.push('/login');
+  };
+
+  if (!user) return null;
+
+  return (
+    <div style={{ marginBottom: 8, fontSize: 14 }}>
+      Signed in as <strong>{user.name}</strong>{' '}
+      <Link href="/usage">Usage</Link>{' '}
+      <button type="button" onClick={handleSignOut}>
+        Sign out
+      </button>
+    </div>
+  );
+}
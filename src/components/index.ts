@@ -1,2 +1,22 @@
 // re-export all components from one place
 export { Spinner } from './Spinner';
+export { ChatSidebar } from './ChatSidebar';
+export { ChatHeader } from './ChatHeader';
+export { UserMenu } from './UserMenu';
+export { LoginForm } from './LoginForm';
+export { ModelPicker } from './ModelPicker';
+export { ChatSettingsPanel } from './ChatSettingsPanel';
+export { MessagePart } from './MessagePart';
+export { MessageSteps } from './MessageSteps';
+export { BranchNav } from './BranchNav';
+export { ChatView } from './ChatView';
+export { AttachmentPicker, uploadFiles } from './AttachmentPicker';
+export { ContextMeter } from './ContextMeter';
+export { UsageTable } from './UsageTable';
+export { ShareMenu } from './ShareMenu';
+export { ForkButton } from './ForkButton';
+export { ToolPart, ToolCallCard } from './ToolPart';
+export type { ToolApprovalHandler } from './ToolPart';
+export { DocumentLibrary } from './DocumentLibrary';
+export { DataTable, ProgressLine, StatusNotices } from './DataParts';
+export { FeedbackButtons } from './FeedbackButtons';
@@ -0,0 +1,82 @@
+// src/lib/agent-loop.ts
+
+// settings and helpers for the multi-step agent loop: after a tool call the
+// model gets another step to read the result and answer, up to a limit
+import {
+  hasToolCall,
+  stepCountIs,
+  type FinishReason,
+  type LanguageModelUsage,
+  type StopCondition,
+  type ToolSet,
+} from 'ai';
+
+// knobs for the loop; read from the environment so they can change per deploy
+export type AgentLoopConfig = {
+  maxSteps: number;        // hard cap on model calls per request
+  stopOnTools: string[];   // stop right after any of these tools is called
+  stepTimeoutMs: number;   // abort if a single step takes longer than this
+};
+
+// what we record about each step in the message metadata
+export type StepSummary = {
+  stepNumber: number;
+  finishReason: FinishReason;
+  usage: LanguageModelUsage;
+  toolCalls: { toolCallId: string; toolName: string }[];
+};
+
+// the loop settings for this process (AGENT_MAX_STEPS, AGENT_STOP_ON_TOOLS,
+// AGENT_STEP_TIMEOUT_MS), with defaults that suit the built-in tools
+export function getAgentLoopConfig(): AgentLoopConfig {
+  return {
+    maxSteps: readPositiveInt(process.env.AGENT_MAX_STEPS, 5),
+    stopOnTools: (process.env.AGENT_STOP_ON_TOOLS ?? '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+    stepTimeoutMs: readPositiveInt(process.env.AGENT_STEP_TIMEOUT_MS, 15_000),
+  };
+}
+
+// turn the config into `stopWhen` conditions; the loop ends when any one matches
+export function buildStopConditions(config: AgentLoopConfig): StopCondition<ToolSet>[] {
+  return [stepCountIs(config.maxSteps), ...config.stopOnTools.map(name => hasToolCall(name))];
+}
+
+// an abort signal that fires when the current step runs too long, or when the
+// whole request would outlive the route's `maxDuration`; call `startStep()` as
+// each step begins and `dispose()` when the stream is done
+export function createStepTimeout({
+  stepTimeoutMs,
+  maxDurationSeconds,
+  safetyMarginMs = 2_000,
+}: {
+  stepTimeoutMs: number;
+  maxDurationSeconds: number;
+  safetyMarginMs?: number; // leave time to flush the stream and persist before the platform kills us
+}) {
+  const controller = new AbortController();
+  const deadline = Date.now() + maxDurationSeconds * 1000 - safetyMarginMs;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const startStep = () => {
+    clearTimeout(timer);
+    // a step never gets more time than the request has left
+    const budget = Math.min(stepTimeoutMs, deadline - Date.now());
+    timer = setTimeout(
+      () => controller.abort(new Error(`Step timed out after ${Math.max(budget, 0)}ms`)),
+      Math.max(budget, 0),
+    );
+  };
+
+  const dispose = () => clearTimeout(timer);
+
+  return { signal: controller.signal, startStep, dispose };
+}
+
+// helper: parse an env var as a positive integer, falling back when it isn't one
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -1,55 +1,67 @@
 // src/lib/ai-tools.ts
 
-// central place to define app tools and their inferred UI types
-import { z } from 'zod';
-import { InferUITools, ToolSet } from 'ai';
-
-// simple weather tool used for examples and tests
-const weatherTool = {
-  description: 'Get the current weather',
-  inputSchema: z.object({
-    // the city/state input expected from the UI or model
-    location: z.string().describe('The city and state'),
-  }),
-  execute: async ({ location }: { location: string }) => {
-    // stubbed result; replace with a real data source if you wire it up
-    return `The weather in ${location} is sunny.`;
-  },
-};
+// central place to register app tools and their inferred UI types. each tool
+// is declared in src/lib/tools/ with defineTool (see tool-registry.ts); adding
+// one to TOOL_DEFINITIONS is all it takes to offer it to the model, show it in
+// the per-chat tool list and type its parts on the page
+import type { InferUITools } from 'ai';
+import { createToolSet } from './tool-registry';
+import { calculatorTool } from './tools/calculator';
+import { dateTimeTool } from './tools/date-time';
+import { httpFetchTool } from './tools/http-fetch';
+import { searchDocumentsTool } from './tools/search-documents';
+import { showTableTool } from './tools/show-table';
+import { unitConvertTool } from './tools/unit-convert';
+import { weatherTool } from './tools/weather';
+
+// every tool the app knows, in the order the settings panel lists them
+const TOOL_DEFINITIONS = [
+  weatherTool,
+  calculatorTool,
+  dateTimeTool,
+  unitConvertTool,
+  httpFetchTool,
+  searchDocumentsTool,
+  showTableTool,
+] as const;
 
-// example tool set showing how multiple tools infer into a single mapping
-export const tools = {
-  weather: weatherTool,
-  calculator: {
-    description: 'Perform basic arithmetic',
-    inputSchema: z.object({
-      operation: z.enum(['add', 'subtract', 'multiply', 'divide']),
-      a: z.number(),
-      b: z.number(),
-    }),
-    execute: async ({
-      operation,
-      a,
-      b,
-    }: {
-      operation: 'add' | 'subtract' | 'multiply' | 'divide';
-      a: number;
-      b: number;
-    }) => {
-      // tiny switch for the four classic ops; no bells and whistles here
-      switch (operation) {
-        case 'add':
-          return a + b;
-        case 'subtract':
-          return a - b;
-        case 'multiply':
-          return a * b;
-        case 'divide':
-          return a / b;
-      }
-    },
-  },
-} satisfies ToolSet;
+// the AI SDK tool set: one entry per tool, keyed by name
+export const tools = createToolSet(TOOL_DEFINITIONS);
 
 // export a single inferred type so the UI/server can agree on tool I/O
 export type AppUITools = InferUITools<typeof tools>;
+export type AppToolName = keyof typeof tools & string;
+
+// what the per-chat tool list shows for each tool
+export type ToolInfo = {
+  name: AppToolName;
+  label: string;
+  description: string;
+  requiresApproval: boolean;
+  enabledByDefault: boolean;
+};
+
+// every registered tool, for the settings panel
+export function listTools(): ToolInfo[] {
+  return TOOL_DEFINITIONS.map(definition => ({
+    name: definition.name,
+    label: definition.label,
+    description: definition.description,
+    requiresApproval: definition.requiresApproval === true,
+    enabledByDefault: definition.enabledByDefault !== false,
+  }));
+}
+
+// the tools a chat may use: its own choice (names no longer registered are
+// dropped), or the ones that are on by default when it hasn't chosen
+export function resolveEnabledTools(enabledTools: string[] | undefined): AppToolName[] {
+  const all = listTools();
+  return enabledTools === undefined
+    ? all.filter(info => info.enabledByDefault).map(info => info.name)
+    : all.filter(info => enabledTools.includes(info.name)).map(info => info.name);
+}
+
+// true when a tool must be approved by the user before it runs
+export function toolRequiresApproval(name: string): boolean {
+  return TOOL_DEFINITIONS.some(definition => definition.name === name && definition.requiresApproval === true);
+}
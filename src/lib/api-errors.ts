@@ -0,0 +1,37 @@
+// src/lib/api-errors.ts
+
+// structured error responses for the API: every 4xx carries a stable `code`
+// the client can branch on, next to the human-readable `error`
+// e.g. { ok: false, code: 'rate_limited', error: 'Too many requests. ...' }
+
+// every code an API route may answer with
+export type ApiErrorCode =
+  | 'unauthorized'       // 401: no (valid) session
+  | 'forbidden'          // 403: someone else's chat
+  | 'not_found'          // 404: unknown message, tool call, ...
+  | 'invalid_json'       // 400: the body isn't JSON at all
+  | 'invalid_request'    // 400: the body doesn't match any request shape
+  | 'unknown_parent'     // 400: a new message answers a message we don't have
+  | 'model_not_allowed'  // 400: the model isn't on the allow-list
+  | 'invalid_settings'   // 400: bad system prompt / generation settings
+  | 'invalid_attachment' // 400: an attached file of an unsupported type
+  | 'invalid_archive'    // 400: an imported chat archive is malformed or fails validation
+  | 'invalid_document'   // 400: a knowledge-base file of an unsupported type, or without text
+  | 'conflict'           // 409: e.g. a tool call that is no longer pending
+  | 'payload_too_large'  // 413: the request body, a message or an attachment is too big
+  | 'rate_limited'       // 429: too many requests in a short time
+  | 'quota_exceeded'     // 429: the daily/monthly usage quota is used up
+  | 'upstream_error';    // 502: a provider we depend on (e.g. embeddings) failed
+
+// build the JSON error response; `extra` adds details such as zod issues
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  { headers, ...extra }: { headers?: Record<string, string>; [key: string]: unknown } = {},
+): Response {
+  return new Response(JSON.stringify({ ok: false, code, error, ...extra }), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
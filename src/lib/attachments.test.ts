@@ -0,0 +1,79 @@
+// src/lib/attachments.test.ts
+// which file parts a message may carry in, and what the model gets for them
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { saveUpload, uploadUrl } from '../util/upload-store';
+import { checkFileParts, prepareFilesForModel, storeInlineFiles } from './attachments';
+import type { MyUIMessage } from './chat-types';
+
+// uploads go to a throwaway directory
+let dir: string;
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'uploads-'));
+  vi.stubEnv('UPLOAD_DIR', dir);
+  vi.stubEnv('UPLOAD_MAX_BYTES', '100');
+});
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// a user message with one file part
+const withFile = (url: string, mediaType = 'image/png'): MyUIMessage => ({
+  id: 'm1',
+  role: 'user',
+  parts: [{ type: 'file', mediaType, filename: 'pic.png', url }],
+});
+
+// a base64 data url of `text`
+const dataUrl = (mediaType: string, text: string) =>
+  `data:${mediaType};base64,${Buffer.from(text).toString('base64')}`;
+
+describe('storeInlineFiles', () => {
+  it('moves a base64 data url into the upload store, typed by the data url', async () => {
+    // the part claims an image; the data url says text, and that is what is stored
+    const stored = await storeInlineFiles(withFile(dataUrl('text/plain', 'hello'), 'image/png'), 'alice');
+    if ('error' in stored) throw new Error(stored.error);
+    const [part] = stored.message.parts;
+    expect(part).toMatchObject({ type: 'file', mediaType: 'text/plain', url: expect.stringMatching(/^\/api\/uploads\//) });
+  });
+
+  it('keeps a reference to one of the owner’s uploads', async () => {
+    const info = await saveUpload({ ownerId: 'alice', mediaType: 'image/png', filename: 'a.png', data: new Uint8Array([1]) });
+    const stored = await storeInlineFiles(withFile(uploadUrl(info.id)), 'alice');
+    expect(stored).toEqual({ message: withFile(uploadUrl(info.id)) });
+  });
+
+  it.each([
+    ['an http url', 'http://169.254.169.254/latest/meta-data'],
+    ['an https url', 'https://example.com/cat.png'],
+    ['a data url that is not base64', 'data:text/plain,hello'],
+    ['a data url of a type we do not take', dataUrl('text/html', '<script></script>')],
+    ['a data url over the size limit', dataUrl('text/plain', 'x'.repeat(101))],
+    ['a reference to an upload that does not exist', '/api/uploads/nope'],
+  ])('refuses %s', async (_, url) => {
+    const stored = await storeInlineFiles(withFile(url), 'alice');
+    expect(stored).toMatchObject({ error: expect.stringContaining('pic.png') });
+  });
+
+  it('refuses a reference to someone else’s upload', async () => {
+    const info = await saveUpload({ ownerId: 'bob', mediaType: 'image/png', filename: 'b.png', data: new Uint8Array([1]) });
+    expect(await checkFileParts(withFile(uploadUrl(info.id)), 'alice')).toMatch(/not available/);
+    expect(await checkFileParts(withFile(uploadUrl(info.id)), 'bob')).toBeNull();
+  });
+});
+
+describe('prepareFilesForModel', () => {
+  it('never hands the model a url to fetch', async () => {
+    const [message] = await prepareFilesForModel([withFile('https://example.com/cat.png')], 'alice');
+    expect(message.parts).toEqual([{ type: 'text', text: '[attachment "pic.png" can\'t be shown to the model]' }]);
+  });
+
+  it('turns an upload reference into its content', async () => {
+    const info = await saveUpload({ ownerId: 'alice', mediaType: 'text/plain', filename: 'a.txt', data: Buffer.from('hi') });
+    const [message] = await prepareFilesForModel([withFile(uploadUrl(info.id), 'text/plain')], 'alice');
+    expect(message.parts).toEqual([{ type: 'text', text: 'Attached file "pic.png":\n\nhi' }]);
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/attachments.ts
+
+// file parts in saved messages point at `/api/uploads/<id>`; these helpers keep
+// it that way on the way in (data urls become uploads) and turn the references
+// back into real content on the way out to the model
+import type { FileUIPart } from 'ai';
+import {
+  checkUpload,
+  getUpload,
+  parseUploadUrl,
+  saveUpload,
+  uploadUrl,
+} from '../util/upload-store';
+import type { MyUIMessage } from './chat-types';
+
+type MyPart = MyUIMessage['parts'][number];
+
+// move any inline data urls in a new message into the upload store, so the
+// chat JSON only keeps a short reference; returns an error message when a
+// file is too big, of a type we don't accept, or not one we can take at all
+// (see checkFilePart)
+export async function storeInlineFiles(
+  message: MyUIMessage,
+  ownerId: string,
+): Promise<{ message: MyUIMessage } | { error: string }> {
+  const parts: MyPart[] = [];
+  for (const part of message.parts) {
+    if (part.type !== 'file') {
+      parts.push(part);
+      continue;
+    }
+    const checked = await checkFilePart(part, ownerId);
+    if (!checked.ok) return { error: checked.error };
+    if (!checked.inline) {
+      parts.push(part);
+      continue;
+    }
+    const info = await saveUpload({
+      ownerId,
+      mediaType: checked.inline.mediaType,
+      filename: part.filename ?? 'attachment',
+      data: checked.inline.data,
+    });
+    parts.push({ ...part, mediaType: info.mediaType, url: uploadUrl(info.id) });
+  }
+  return { message: { ...message, parts } };
+}
+
+// the first problem storeInlineFiles would run into, or null; lets a caller
+// check every message before anything is written
+export async function checkFileParts(message: MyUIMessage, ownerId: string): Promise<string | null> {
+  for (const part of message.parts) {
+    if (part.type !== 'file') continue;
+    const checked = await checkFilePart(part, ownerId);
+    if (!checked.ok) return checked.error;
+  }
+  return null;
+}
+
+// swap upload references for their content before the model sees them:
+// images and PDFs become data urls, text files become text parts (every model
+// can read those), and anything missing or not the user's is noted as such
+export async function prepareFilesForModel(
+  messages: MyUIMessage[],
+  ownerId: string,
+): Promise<MyUIMessage[]> {
+  return Promise.all(
+    messages.map(async message => {
+      if (!message.parts.some(part => part.type === 'file')) return message;
+      const parts = await Promise.all(
+        message.parts.map(part => (part.type === 'file' ? resolveFilePart(part, ownerId) : part)),
+      );
+      return { ...message, parts };
+    }),
+  );
+}
+
+// swap upload references for data urls, so an exported chat carries its files
+// with it (importing turns them back into uploads with storeInlineFiles);
+// references that are missing or not the user's are left as they are
+export async function embedUploads(messages: MyUIMessage[], ownerId: string): Promise<MyUIMessage[]> {
+  return Promise.all(
+    messages.map(async message => {
+      if (!message.parts.some(part => part.type === 'file')) return message;
+      const parts = await Promise.all(
+        message.parts.map(async part => {
+          const id = part.type === 'file' ? parseUploadUrl(part.url) : undefined;
+          const upload = id ? await getUpload(id) : undefined;
+          if (part.type !== 'file' || !upload || upload.info.ownerId !== ownerId) return part;
+          return { ...part, url: `data:${upload.info.mediaType};base64,${upload.data.toString('base64')}` };
+        }),
+      );
+      return { ...message, parts };
+    }),
+  );
+}
+
+// helper: one file part, ready for the model
+async function resolveFilePart(part: FileUIPart, ownerId: string): Promise<MyPart> {
+  const name = part.filename ?? 'attachment';
+  const id = parseUploadUrl(part.url);
+  if (!id) {
+    // inline data from before uploads existed is sent as it is (typed by its
+    // own data url); any other url is never handed to the model to fetch
+    const inline = parseDataUrl(part.url);
+    if (!inline) return { type: 'text', text: `[attachment "${name}" can't be shown to the model]` };
+    return { ...part, mediaType: inline.mediaType };
+  }
+
+  const upload = await getUpload(id);
+  if (!upload || upload.info.ownerId !== ownerId) {
+    return { type: 'text', text: `[attachment "${name}" is no longer available]` };
+  }
+
+  const { info, data } = upload;
+  if (info.mediaType.startsWith('text/') || info.mediaType === 'application/json') {
+    return { type: 'text', text: `Attached file "${name}":\n\n${data.toString('utf8')}` };
+  }
+  return { ...part, url: `data:${info.mediaType};base64,${data.toString('base64')}` };
+}
+
+// helper: whether a file part may come in, and its bytes if they are inline.
+// only two kinds are taken: a reference to one of the owner's uploads, or a
+// base64 data url that passes the upload checks (its type is the one the data
+// url declares, not the part's `mediaType`). anything else, e.g. an http(s)
+// url, is refused: it would skip the upload limits and make us fetch whatever
+// the client names
+async function checkFilePart(
+  part: FileUIPart,
+  ownerId: string,
+): Promise<{ ok: true; inline?: InlineFile } | { ok: false; error: string }> {
+  const name = part.filename ?? 'attachment';
+  const id = parseUploadUrl(part.url);
+  if (id) {
+    const upload = await getUpload(id);
+    return upload && upload.info.ownerId === ownerId
+      ? { ok: true }
+      : { ok: false, error: `${name}: the attached upload is not available.` };
+  }
+
+  const inline = parseDataUrl(part.url);
+  if (!inline) return { ok: false, error: `${name}: attachments must be uploaded files or base64 data URLs.` };
+  const problem = checkUpload({ mediaType: inline.mediaType, size: inline.data.byteLength });
+  return problem ? { ok: false, error: `${name}: ${problem}` } : { ok: true, inline };
+}
+
+// the bytes of a base64 data url and the media type it declares
+type InlineFile = { mediaType: string; data: Uint8Array };
+
+// helper: a base64 data url taken apart (undefined for anything else)
+function parseDataUrl(url: string): InlineFile | undefined {
+  const match = /^data:([^;,]*)(?:;[^;,]*)*;base64,([\s\S]*)$/.exec(url);
+  return match ? { mediaType: match[1].toLowerCase(), data: new Uint8Array(Buffer.from(match[2], 'base64')) } : undefined;
+}
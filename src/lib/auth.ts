@@ -0,0 +1,140 @@
+// src/lib/auth.ts
+
+// session handling: a signed token in an httpOnly cookie says who you are.
+// only Web Crypto is used here so the same code runs in middleware and routes
+import type { ChatSummary } from '../util/chat-store';
+import { apiError } from './api-errors';
+
+// the signed-in user as the app sees it
+export type SessionUser = {
+  id: string;
+  name: string;
+};
+
+// name of the cookie that carries the session token
+export const SESSION_COOKIE = 'session';
+
+// sessions last a week; signing in again issues a fresh one
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// what we sign: the user plus an expiry (seconds since epoch)
+type SessionPayload = { sub: string; name: string; exp: number };
+
+// create a token for a freshly authenticated user
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const payload: SessionPayload = {
+    sub: user.id,
+    name: user.name,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const body = base64url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${body}.${await sign(body)}`;
+}
+
+// check a token's signature and expiry; null if anything is off
+export async function verifySessionToken(token: string | undefined): Promise<SessionUser | null> {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const key = await getKey();
+  // anything wrong with the cookie (bad base64, bad signature, bad JSON) just
+  // means "not signed in"; a garbled cookie must never turn into a 500
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64url(signature),
+      new TextEncoder().encode(body),
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+    if (typeof payload.sub !== 'string' || payload.exp * 1000 < Date.now()) return null;
+    return { id: payload.sub, name: payload.name };
+  } catch {
+    return null;
+  }
+}
+
+// resolve the user behind a request from its session cookie
+export async function getSessionUser(req: Request): Promise<SessionUser | null> {
+  return verifySessionToken(readCookie(req.headers.get('cookie'), SESSION_COOKIE));
+}
+
+// Set-Cookie value that stores a session token
+export function sessionCookie(token: string): string {
+  return [
+    `${SESSION_COOKIE}=${token}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${SESSION_TTL_SECONDS}`,
+    ...(process.env.NODE_ENV === 'production' ? ['Secure'] : []),
+  ].join('; ');
+}
+
+// Set-Cookie value that removes the session
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+// only the owner may read, change or delete a chat; chats saved before
+// ownership existed have no owner and are therefore off-limits
+export function canAccessChat(chat: Pick<ChatSummary, 'ownerId'>, user: SessionUser): boolean {
+  return chat.ownerId === user.id;
+}
+
+// the standard JSON responses for "not signed in" and "not yours"
+export function unauthorized(): Response {
+  return apiError(401, 'unauthorized', 'Sign in required.');
+}
+export function forbidden(): Response {
+  return apiError(403, 'forbidden', 'You do not have access to this chat.');
+}
+
+// helper: pull one cookie out of a Cookie header
+function readCookie(header: string | null, name: string): string | undefined {
+  if (!header) return undefined;
+  for (const pair of header.split(';')) {
+    const [key, ...rest] = pair.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return undefined;
+}
+
+// helper: the HMAC key from AUTH_SECRET (a fixed dev key outside production)
+let keyPromise: Promise<CryptoKey> | undefined;
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const secret = process.env.AUTH_SECRET;
+    if (!secret && process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_SECRET must be set in production.');
+    }
+    keyPromise = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret ?? 'dev-only-insecure-secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify'],
+    );
+  }
+  return keyPromise;
+}
+
+// helper: sign a string and return the signature as base64url
+async function sign(data: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(data));
+  return base64url(new Uint8Array(signature));
+}
+
+// helpers: base64url without padding, in both directions
+function base64url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+function fromBase64url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -0,0 +1,39 @@
+// src/lib/chat-export.test.ts
+// source links in exported chats: web links stay links, anything else is only text
+import { describe, expect, it } from 'vitest';
+import { newChatSummary } from '../util/chat-store';
+import { toHtml, toMarkdown } from './chat-export';
+import type { MyUIMessage } from './chat-types';
+
+// a chat whose one answer cites `url`
+function citing(url: string): [ReturnType<typeof newChatSummary>, MyUIMessage[]] {
+  return [
+    newChatSummary('chat-1'),
+    [
+      {
+        id: 'a1',
+        role: 'assistant',
+        parts: [{ type: 'source-url', sourceId: 's1', url, title: 'Docs' }],
+      },
+    ],
+  ];
+}
+
+describe('source links in exports', () => {
+  it('keeps http(s) sources as links', () => {
+    const [chat, messages] = citing('https://example.com/docs?a=1&b=2');
+    expect(toHtml(chat, messages)).toContain('<a href="https://example.com/docs?a=1&amp;b=2">Docs</a>');
+    expect(toMarkdown(chat, messages)).toContain('- Source: [Docs](https://example.com/docs?a=1&b=2)');
+  });
+
+  it.each(['javascript:alert(document.cookie)', ' JavaScript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'not a url'])(
+    'shows %j as text, not a link',
+    url => {
+      const [chat, messages] = citing(url);
+      const html = toHtml(chat, messages);
+      expect(html).not.toMatch(/<a href="[^"]*(javascript|data:text)/i);
+      expect(html).not.toContain('<script>alert');
+      expect(toMarkdown(chat, messages)).not.toContain('](');
+    },
+  );
+});
@@ -0,0 +1,275 @@
+// src/lib/chat-export.ts
+
+// turns a saved chat into something you can keep outside the app:
+// - Markdown: the conversation as readable text, tool calls as fenced blocks
+// - HTML: a single standalone page (files embedded) that opens in any browser
+// - JSON archive: every branch plus metadata and usage, which import reads back
+// Markdown and HTML show the branch the user was last on; the archive keeps them all
+import { getToolOrDynamicToolName, isToolOrDynamicToolUIPart } from 'ai';
+import type { ChatSummary } from '../util/chat-store';
+import { CHAT_ARCHIVE_VERSION } from '../util/schemas';
+import type { UsageEntry } from '../util/usage-store';
+import { getActivePath } from './chat-tree';
+import type { MyUIMessage } from './chat-types';
+
+type MyPart = MyUIMessage['parts'][number];
+
+// the formats a single chat can be downloaded in
+export type ExportFormat = 'md' | 'json' | 'html';
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+
+// what a usage entry looks like inside an archive (who spent it is left out)
+export type ArchivedUsage = Omit<UsageEntry, 'id' | 'userId' | 'chatId'>;
+
+// the versioned JSON archive; chatArchiveSchema in util/schemas.ts checks it on import
+export type ChatArchive = {
+  format: 'chat-archive';
+  version: typeof CHAT_ARCHIVE_VERSION;
+  exportedAt: number;
+  chat: Pick<ChatSummary, 'id' | 'title' | 'createdAt' | 'updatedAt' | 'archived' | 'model' | 'settings'>;
+  messages: MyUIMessage[];
+  usage: ArchivedUsage[];
+};
+
+// the content type each format is served with
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json',
+  html: 'text/html; charset=utf-8',
+};
+
+// build the archive for one chat; `usage` may hold the user's whole ledger,
+// only the entries that belong to this chat are kept
+export function toArchive(chat: ChatSummary, messages: MyUIMessage[], usage: UsageEntry[]): ChatArchive {
+  return {
+    format: 'chat-archive',
+    version: CHAT_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      archived: chat.archived,
+      model: chat.model,
+      settings: chat.settings,
+    },
+    messages,
+    usage: usage
+      .filter(entry => entry.chatId === chat.id)
+      .map(entry => ({
+        messageId: entry.messageId,
+        model: entry.model,
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+        cachedInputTokens: entry.cachedInputTokens,
+        totalTokens: entry.totalTokens,
+        cost: entry.cost,
+        createdAt: entry.createdAt,
+      })),
+  };
+}
+
+// the conversation as Markdown: a heading per message, text as-is, tool calls
+// as fenced JSON blocks so they survive copy/paste and diffing
+export function toMarkdown(chat: ChatSummary, messages: MyUIMessage[]): string {
+  const lines: string[] = [`# ${chat.title ?? 'Untitled chat'}`, ''];
+  lines.push(`_Exported ${new Date().toISOString()}${chat.model ? ` · model ${chat.model}` : ''}_`, '');
+
+  for (const message of getActivePath(messages)) {
+    lines.push(`## ${messageHeading(message)}`, '');
+    for (const part of message.parts) {
+      const text = partToMarkdown(part);
+      if (text) lines.push(text, '');
+    }
+  }
+  return lines.join('\n');
+}
+
+// the conversation as one self-contained HTML page (styles inline, no scripts);
+// pass messages through embedUploads first so images and files come along
+export function toHtml(chat: ChatSummary, messages: MyUIMessage[]): string {
+  const title = escapeHtml(chat.title ?? 'Untitled chat');
+  const body = getActivePath(messages)
+    .map(message => {
+      const parts = message.parts.map(partToHtml).filter(Boolean).join('\n');
+      return `<section class="message ${message.role}">\n<h2>${escapeHtml(messageHeading(message))}</h2>\n${parts}\n</section>`;
+    })
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2em auto; padding: 0 1em; line-height: 1.5; }
+  .message { border-top: 1px solid #8884; padding: 0.5em 0; }
+  .message.user h2 { color: #2563eb; }
+  h2 { font-size: 14px; margin: 0.5em 0; opacity: 0.8; }
+  .text { white-space: pre-wrap; }
+  pre { background: #8881; padding: 0.5em; overflow-x: auto; white-space: pre-wrap; }
+  img { max-width: 100%; max-height: 480px; display: block; }
+  table { border-collapse: collapse; margin: 0.5em 0; }
+  th, td { border: 1px solid #8886; padding: 2px 6px; }
+  .meta { font-size: 12px; opacity: 0.7; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Exported ${escapeHtml(new Date().toISOString())}${chat.model ? ` · model ${escapeHtml(chat.model)}` : ''}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+// a download name like "trip-planning-Xy12ab.md"; the id keeps same-titled chats apart
+export function exportFilename(chat: Pick<ChatSummary, 'id' | 'title'>, format: ExportFormat): string {
+  const slug = (chat.title ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'chat'}-${chat.id}.${format}`;
+}
+
+// helper: "User · 2026-01-31 12:00" (plus the model for answers)
+function messageHeading(message: MyUIMessage): string {
+  const role = message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'System';
+  const details = [
+    message.role === 'assistant' ? message.metadata?.model : undefined,
+    message.metadata?.createdAt
+      ? new Date(message.metadata.createdAt).toISOString().slice(0, 16).replace('T', ' ')
+      : undefined,
+  ].filter(Boolean);
+  return [role, ...details].join(' · ');
+}
+
+// helper: what a tool call shows in an export: its name, state, input and result
+function toolSummary(part: MyPart): { name: string; json: string } | undefined {
+  if (!isToolOrDynamicToolUIPart(part)) return undefined;
+  const json = JSON.stringify(
+    {
+      tool: getToolOrDynamicToolName(part),
+      state: part.state,
+      input: part.input,
+      ...(part.state === 'output-available' && { output: part.output }),
+      ...(part.state === 'output-error' && { error: part.errorText }),
+    },
+    null,
+    2,
+  );
+  return { name: getToolOrDynamicToolName(part), json };
+}
+
+// helper: one part as Markdown (empty for parts that don't export)
+function partToMarkdown(part: MyPart): string {
+  const tool = toolSummary(part);
+  if (tool) return `**Tool call: \`${tool.name}\`**\n\n${fence(tool.json, 'json')}`;
+
+  switch (part.type) {
+    case 'text':
+      return part.text;
+    case 'reasoning':
+      return part.text ? part.text.split('\n').map(line => `> ${line}`).join('\n') : '';
+    case 'source-url':
+      // the url comes from a tool or the model: only web links stay links
+      return isWebUrl(part.url)
+        ? `- Source: [${part.title ?? part.url}](${part.url})`
+        : `- Source: ${part.title ? `${part.title} (${part.url})` : part.url}`;
+    case 'source-document':
+      return `- Source: ${part.title}`;
+    case 'file':
+      // uploads only exist inside the app, so only real links are kept
+      return /^https?:/.test(part.url)
+        ? `📎 [${part.filename ?? part.mediaType}](${part.url})`
+        : `📎 ${part.filename ?? part.mediaType}`;
+    case 'data-table': {
+      // pipes and line breaks would end a cell early
+      const cell = (value: string | number | null) => String(value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+      const { title, columns, rows } = part.data;
+      return [
+        ...(title ? [`**${title}**`, ''] : []),
+        `| ${columns.map(cell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+      ].join('\n');
+    }
+    default:
+      return ''; // step markers and the other data parts
+  }
+}
+
+// helper: one part as HTML (empty for parts that don't export)
+function partToHtml(part: MyPart): string {
+  const tool = toolSummary(part);
+  if (tool) {
+    return `<details><summary>Tool call: <code>${escapeHtml(tool.name)}</code></summary><pre>${escapeHtml(tool.json)}</pre></details>`;
+  }
+
+  switch (part.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(part.text)}</div>`;
+    case 'reasoning':
+      return part.text
+        ? `<details><summary>Reasoning</summary><pre>${escapeHtml(part.text)}</pre></details>`
+        : '';
+    case 'source-url':
+      // the url comes from a tool or the model: a javascript: (or any other
+      // non-web) url would run in the exported page, so it is only shown as text
+      return isWebUrl(part.url)
+        ? `<p><a href="${escapeHtml(part.url)}">${escapeHtml(part.title ?? part.url)}</a></p>`
+        : `<p>${escapeHtml(part.title ? `${part.title} (${part.url})` : part.url)}</p>`;
+    case 'source-document':
+      return `<p>📄 ${escapeHtml(part.title)}</p>`;
+    case 'file': {
+      const name = escapeHtml(part.filename ?? part.mediaType);
+      // only embedded (data:) or public (http) files work outside the app
+      if (!/^(data|https?):/.test(part.url)) return `<p>📎 ${name}</p>`;
+      return part.mediaType.startsWith('image/')
+        ? `<img src="${escapeHtml(part.url)}" alt="${name}">`
+        : `<p><a href="${escapeHtml(part.url)}" download="${name}">📎 ${name}</a></p>`;
+    }
+    case 'data-table': {
+      const { title, columns, rows } = part.data;
+      const cells = (values: (string | number | null)[], tag: 'th' | 'td') =>
+        values.map(value => `<${tag}>${escapeHtml(String(value ?? ''))}</${tag}>`).join('');
+      return (
+        `<table>${title ? `<caption>${escapeHtml(title)}</caption>` : ''}` +
+        `<thead><tr>${cells(columns, 'th')}</tr></thead>` +
+        `<tbody>${rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody></table>`
+      );
+    }
+    default:
+      return '';
+  }
+}
+
+// helper: a fenced code block whose fence is longer than any backtick run inside it
+function fence(text: string, lang: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(Math.max(3, longest + 1));
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+// helper: whether a url is a plain http(s) link (what a link in an export may point at)
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// helper: make text safe to put inside HTML (and attribute values)
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,66 @@
+// src/lib/chat-import.test.ts
+// reading uploaded archives: plain JSON, zips of them, and zips that unpack to too much
+import { strToU8, zipSync } from 'fflate';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readArchiveFile } from './chat-import';
+
+// unpacking may grow to 5 × IMPORT_MAX_BYTES = 5000 bytes here
+beforeEach(() => {
+  vi.stubEnv('IMPORT_MAX_BYTES', '1000');
+});
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// a zip whose directory (local headers and central directory) claims every
+// file unpacks to a single byte, whatever it really holds
+function understateSizes(zip: Uint8Array): Uint8Array {
+  const patched = zip.slice();
+  const view = new DataView(patched.buffer);
+  for (let i = 0; i + 4 <= patched.length; i++) {
+    const signature = view.getUint32(i, true);
+    if (signature === 0x04034b50) view.setUint32(i + 22, 1, true); // local file header
+    if (signature === 0x02014b50) view.setUint32(i + 24, 1, true); // central directory entry
+  }
+  return patched;
+}
+
+describe('readArchiveFile', () => {
+  it('reads a single JSON archive', () => {
+    const result = readArchiveFile('chat.json', strToU8('{"format":"chat-archive"}'));
+    expect(result).toEqual({ ok: true, entries: [{ name: 'chat.json', value: { format: 'chat-archive' } }] });
+  });
+
+  it('rejects a file that is neither JSON nor a zip', () => {
+    const result = readArchiveFile('chat.json', strToU8('{nope'));
+    expect(result).toMatchObject({ ok: false, error: { status: 400, code: 'invalid_json' } });
+  });
+
+  it('reads the .json files of a zip and skips the rest', () => {
+    const zip = zipSync({
+      'json/a.json': strToU8('{"a":1}'),
+      'markdown/a.md': strToU8('# a'),
+      '__MACOSX/json/._a.json': strToU8('{}'),
+    });
+    const result = readArchiveFile('chats.zip', zip);
+    expect(result).toEqual({ ok: true, entries: [{ name: 'json/a.json', value: { a: 1 } }] });
+  });
+
+  it('refuses a zip that unpacks to more than the limit', () => {
+    const zip = zipSync({ 'big.json': strToU8(JSON.stringify({ padding: 'x'.repeat(10_000) })) });
+    const result = readArchiveFile('chats.zip', zip);
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('counts the bytes it inflates, not the sizes the zip claims', () => {
+    const zip = understateSizes(zipSync({ 'big.json': strToU8(JSON.stringify({ padding: 'x'.repeat(10_000) })) }));
+    const result = readArchiveFile('chats.zip', zip);
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('rejects a zip that is cut off', () => {
+    const zip = zipSync({ 'a.json': strToU8(JSON.stringify({ padding: 'y'.repeat(3000) })) }, { level: 0 });
+    const result = readArchiveFile('chats.zip', zip.subarray(0, 200));
+    expect(result).toMatchObject({ ok: false, error: { status: 400, code: 'invalid_archive' } });
+  });
+});
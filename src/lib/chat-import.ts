@@ -0,0 +1,223 @@
+// src/lib/chat-import.ts
+
+// reads chats back in from exported archives (one .json file, or a .zip of
+// them as made by "Export all"). every archive is checked in full before
+// anything is written, and each becomes a brand-new chat owned by the importer
+import { Unzip, UnzipInflate } from 'fflate';
+import { generateChatId, getChatStore, type ChatSummary } from '../util/chat-store';
+import { chatArchiveSchema, chatSettingsSchema } from '../util/schemas';
+import { getUploadMaxBytes } from '../util/upload-store';
+import type { ApiErrorCode } from './api-errors';
+import { checkFileParts, storeInlineFiles } from './attachments';
+import type { ChatArchive } from './chat-export';
+import { withParentIds } from './chat-tree';
+import type { MyUIMessage } from './chat-types';
+import { validateImportedMessages } from './message-validation';
+import { isAllowedModel } from './providers';
+
+// why an import was refused; the route turns this into an apiError response
+export type ImportError = {
+  status: number;
+  code: ApiErrorCode;
+  error: string;
+  issues?: unknown[];
+};
+
+// one archive as found in the upload, before it is checked
+export type ArchiveEntry = { name: string; value: unknown };
+
+// most archives a single zip may hold
+const MAX_ARCHIVES = 500;
+// how much bigger than the upload a zip may unpack to (JSON compresses well)
+const MAX_UNZIP_RATIO = 5;
+// how much of a zip is inflated at a time; deflate expands at most about
+// 1000:1, so one slice can never add more than about 16 MB past the limit
+const UNZIP_CHUNK_BYTES = 16 * 1024;
+
+// the largest file import accepts (IMPORT_MAX_BYTES); by default room for a
+// handful of chats carrying attachments of the largest allowed upload size
+export function getImportMaxBytes(): number {
+  const parsed = Number.parseInt(process.env.IMPORT_MAX_BYTES ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : Math.max(50 * 1024 * 1024, getUploadMaxBytes() * 5);
+}
+
+// turn an uploaded file into the archives inside it: a zip gives one entry per
+// .json file in it, anything else is read as a single JSON archive
+export function readArchiveFile(
+  name: string,
+  data: Uint8Array,
+): { ok: true; entries: ArchiveEntry[] } | { ok: false; error: ImportError } {
+  if (!isZip(data)) {
+    const value = parseJson(new TextDecoder().decode(data));
+    return value === undefined
+      ? { ok: false, error: { status: 400, code: 'invalid_json', error: `${name} is not valid JSON.` } }
+      : { ok: true, entries: [{ name, value }] };
+  }
+
+  // the zip's own directory can lie about sizes, so the bytes are counted as
+  // they are inflated and unpacking stops as soon as they pass the limit
+  const maxUnpacked = getImportMaxBytes() * MAX_UNZIP_RATIO;
+  const unpacked = unzipWithLimit(data, maxUnpacked);
+  if (!unpacked.ok) {
+    return {
+      ok: false,
+      error: unpacked.tooLarge
+        ? { status: 413, code: 'payload_too_large', error: `${name} unpacks to more than ${maxUnpacked} bytes.` }
+        : { status: 400, code: 'invalid_archive', error: `${name} is not a readable zip file (${unpacked.error}).` },
+    };
+  }
+  const files = unpacked.files;
+
+  const entries = Object.entries(files).map(([file, bytes]) => ({
+    name: file,
+    value: parseJson(new TextDecoder().decode(bytes)),
+  }));
+  if (entries.length === 0) {
+    return { ok: false, error: { status: 400, code: 'invalid_archive', error: `${name} has no .json archives in it.` } };
+  }
+  if (entries.length > MAX_ARCHIVES) {
+    return {
+      ok: false,
+      error: { status: 400, code: 'invalid_archive', error: `A zip may hold at most ${MAX_ARCHIVES} archives.` },
+    };
+  }
+  return { ok: true, entries };
+}
+
+// check one archive: the outline (format, version), every message against
+// today's metadata/tool/data schemas, that the message tree holds together,
+// and that every attachment is one `ownerId` may bring in
+export async function checkArchive(
+  entry: ArchiveEntry,
+  ownerId: string,
+): Promise<{ ok: true; archive: ChatArchive } | { ok: false; error: ImportError }> {
+  const fail = (error: string, issues?: unknown[]) => ({
+    ok: false as const,
+    error: { status: 400, code: 'invalid_archive' as const, error: `${entry.name}: ${error}`, issues },
+  });
+
+  const parsed = chatArchiveSchema.safeParse(entry.value);
+  if (!parsed.success) return fail('not a chat archive this app can read.', parsed.error.issues);
+
+  const validated = await validateImportedMessages(parsed.data.messages);
+  if (!validated.success) return fail(validated.error);
+  const messages = withParentIds(validated.messages);
+
+  // ids must be unique, and every reply must answer a message that came along
+  const ids = new Set(messages.map(m => m.id));
+  if (ids.size !== messages.length) return fail('message ids are not unique.');
+  const orphan = messages.find(m => m.metadata?.parentId != null && !ids.has(m.metadata.parentId));
+  if (orphan) return fail(`message ${orphan.id} answers a message that isn't in the archive.`);
+
+  // attachments have to pass the same checks as uploads
+  for (const message of messages) {
+    const problem = await checkFileParts(message, ownerId);
+    if (problem) return fail(problem);
+  }
+
+  return {
+    ok: true,
+    archive: { ...parsed.data, messages, usage: parsed.data.usage ?? [] } as ChatArchive,
+  };
+}
+
+// save a checked archive as a new chat for `ownerId`
+export async function importArchive(archive: ChatArchive, ownerId: string): Promise<ChatSummary> {
+  const { title, archived, model, settings } = archive.chat;
+  return saveAsNewChat(ownerId, { messages: archive.messages, title, archived, model, settings });
+}
+
+// create a chat for `ownerId` from messages that were checked already (an
+// imported archive, a forked share); embedded files become the owner's
+// uploads, and a model or settings this deploy doesn't allow are dropped so
+// the chat opens with the defaults
+export async function saveAsNewChat(
+  ownerId: string,
+  {
+    messages: incoming,
+    title,
+    archived = false,
+    model,
+    settings,
+  }: { messages: MyUIMessage[]; title: string | null; archived?: boolean; model?: string; settings?: unknown },
+): Promise<ChatSummary> {
+  const messages: MyUIMessage[] = [];
+  for (const message of incoming) {
+    const stored = await storeInlineFiles(message, ownerId);
+    // callers ran checkFileParts already; this only guards against a config change in between
+    if ('error' in stored) throw new Error(stored.error);
+    messages.push(stored.message);
+  }
+
+  const store = getChatStore();
+  const id = generateChatId();
+  await store.createChat(id, { ownerId });
+  await store.saveChat({ chatId: id, messages });
+
+  const parsedSettings = chatSettingsSchema.safeParse(settings);
+  const chat = await store.updateChat(id, {
+    title,
+    archived,
+    ...(model && isAllowedModel(model) && { model }),
+    ...(parsedSettings.success && { settings: parsedSettings.data }),
+  });
+  return chat!;
+}
+
+// helper: the .json files in a zip, inflated a slice at a time; gives up as
+// soon as the inflated bytes (not the sizes the zip claims) pass `maxBytes`
+function unzipWithLimit(
+  data: Uint8Array,
+  maxBytes: number,
+): { ok: true; files: Record<string, Uint8Array> } | { ok: false; tooLarge: boolean; error?: string } {
+  const files: Record<string, Uint8Array> = {};
+  let total = 0;
+  let tooLarge = false;
+  let failure: string | undefined;
+
+  const unzip = new Unzip(file => {
+    if (!file.name.endsWith('.json') || file.name.startsWith('__MACOSX/')) return;
+    const chunks: Uint8Array[] = [];
+    file.ondata = (error, chunk, final) => {
+      if (tooLarge || failure) return;
+      if (error) {
+        failure = error.message;
+        return;
+      }
+      total += chunk.byteLength;
+      if (total > maxBytes) {
+        tooLarge = true;
+        file.terminate();
+        return;
+      }
+      chunks.push(chunk);
+      if (final) files[file.name] = new Uint8Array(Buffer.concat(chunks));
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for (let offset = 0; offset < data.byteLength && !tooLarge && !failure; offset += UNZIP_CHUNK_BYTES) {
+      unzip.push(data.subarray(offset, offset + UNZIP_CHUNK_BYTES), offset + UNZIP_CHUNK_BYTES >= data.byteLength);
+    }
+  } catch (error) {
+    failure = String(error);
+  }
+  if (tooLarge || failure) return { ok: false, tooLarge, error: failure };
+  return { ok: true, files };
+}
+
+// helper: zip files start with "PK\x03\x04"
+function isZip(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+// helper: JSON.parse that returns undefined instead of throwing
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
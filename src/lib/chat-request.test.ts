@@ -0,0 +1,131 @@
+// src/lib/chat-request.test.ts
+// every request shape POST /api/chat accepts, and every way a body is turned away
+import { describe, expect, it } from 'vitest';
+import { parseChatRequest, readJsonBody, type ChatRequestLimits } from './chat-request';
+
+// small limits so the size checks are easy to hit
+const limits: ChatRequestLimits = { maxBodyBytes: 1000, maxMessageChars: 20, maxFilesPerMessage: 2 };
+
+// a user message with the given parts (plain text by default)
+const userMessage = (parts: unknown[] = [{ type: 'text', text: 'hi' }]) => ({ id: 'm1', role: 'user', parts });
+
+describe('parseChatRequest', () => {
+  it.each([
+    ['submit-message', { trigger: 'submit-message', id: 'chat-1', message: userMessage() }],
+    ['regenerate-message', { trigger: 'regenerate-message', id: 'chat-1' }],
+    ['regenerate-message with messageId', { trigger: 'regenerate-message', id: 'chat-1', messageId: 'm1' }],
+    ['delete-message', { trigger: 'delete-message', id: 'chat-1', messageId: 'm1' }],
+    ['pin-message', { trigger: 'pin-message', id: 'chat-1', messageId: 'm1', pinned: true }],
+    ['feedback', { trigger: 'feedback', id: 'chat-1', messageId: 'm1', feedback: { rating: 'up', comment: 'ok' } }],
+    ['feedback taken back', { trigger: 'feedback', id: 'chat-1', messageId: 'm1', feedback: null }],
+    [
+      'tool-approval',
+      { trigger: 'tool-approval', id: 'chat-1', approval: { toolCallId: 'call-1', approved: false, reason: 'no' } },
+    ],
+    ['continue', { id: 'chat-1' }],
+    ['continue with a message', { id: 'chat-1', message: userMessage(), model: 'mock:echo' }],
+    ['full messages', { messages: [userMessage()] }],
+  ])('accepts %s', (_, body) => {
+    const result = parseChatRequest(body, limits);
+    expect(result.ok).toBe(true);
+  });
+
+  it.each([
+    ['a body that is not an object', 'hello'],
+    ['null', null],
+    ['an unknown trigger', { trigger: 'explode', id: 'chat-1' }],
+    ['submit-message without a message', { trigger: 'submit-message', id: 'chat-1' }],
+    ['delete-message without messageId', { trigger: 'delete-message', id: 'chat-1' }],
+    ['pin-message without pinned', { trigger: 'pin-message', id: 'chat-1', messageId: 'm1' }],
+    ['feedback with an unknown rating', { trigger: 'feedback', id: 'chat-1', messageId: 'm1', feedback: { rating: 'meh' } }],
+    ['feedback without feedback', { trigger: 'feedback', id: 'chat-1', messageId: 'm1' }],
+    ['tool-approval without approval', { trigger: 'tool-approval', id: 'chat-1' }],
+    ['a chat id with a path in it', { id: '../etc/passwd' }],
+    ['a continue request without id', {}],
+    ['an empty messages array', { messages: [] }],
+    ['a message with an unknown role', { id: 'chat-1', message: { id: 'm1', role: 'robot', parts: [] } }],
+    ['submit-message of an assistant message', { trigger: 'submit-message', id: 'chat-1', message: { ...userMessage(), role: 'assistant' } }],
+    ['submit-message of a system message', { trigger: 'submit-message', id: 'chat-1', message: { ...userMessage(), role: 'system' } }],
+    ['continue with an assistant message', { id: 'chat-1', message: { ...userMessage(), role: 'assistant' } }],
+    ['a message without parts', { id: 'chat-1', message: { id: 'm1', role: 'user' } }],
+    ['a model id that is too long', { id: 'chat-1', model: 'x'.repeat(201) }],
+  ])('rejects %s as invalid_request', (_, body) => {
+    const result = parseChatRequest(body, limits);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.status).toBe(400);
+    expect(result.error.code).toBe('invalid_request');
+    expect(result.error.issues?.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a message with too much text', () => {
+    const result = parseChatRequest(
+      { id: 'chat-1', message: userMessage([{ type: 'text', text: 'x'.repeat(21) }]) },
+      limits,
+    );
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('counts the text of every part of a message', () => {
+    const result = parseChatRequest(
+      { messages: [userMessage([{ type: 'text', text: 'x'.repeat(15) }, { type: 'text', text: 'x'.repeat(15) }])] },
+      limits,
+    );
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('rejects a message with too many attachments', () => {
+    const file = { type: 'file', mediaType: 'image/png', url: '/api/uploads/u1' };
+    const result = parseChatRequest({ id: 'chat-1', message: userMessage([file, file, file]) }, limits);
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('rejects an inline attachment larger than the upload limit', () => {
+    // UPLOAD_MAX_BYTES defaults to 10 MB; 14 million base64 characters hold about 10.5 MB
+    const url = `data:image/png;base64,${'A'.repeat(14_000_000)}`;
+    const result = parseChatRequest(
+      { id: 'chat-1', message: userMessage([{ type: 'file', mediaType: 'image/png', url }]) },
+      limits,
+    );
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+});
+
+describe('readJsonBody', () => {
+  // a POST with the given body and headers
+  const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/chat', { method: 'POST', body, headers, duplex: 'half' } as RequestInit);
+
+  it('parses a JSON body', async () => {
+    const result = await readJsonBody(post(JSON.stringify({ id: 'chat-1' })), 1000);
+    expect(result).toEqual({ ok: true, body: { id: 'chat-1' } });
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const result = await readJsonBody(post('{not json'), 1000);
+    expect(result).toMatchObject({ ok: false, error: { status: 400, code: 'invalid_json' } });
+  });
+
+  it('rejects an empty body as invalid_json', async () => {
+    const result = await readJsonBody(post(''), 1000);
+    expect(result).toMatchObject({ ok: false, error: { status: 400, code: 'invalid_json' } });
+  });
+
+  it('rejects a body whose Content-Length is over the limit without reading it', async () => {
+    const result = await readJsonBody(post('{}', { 'content-length': '5000' }), 1000);
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+
+  it('rejects a body that grows past the limit while streaming', async () => {
+    // no Content-Length: the bytes are counted as they arrive
+    const chunk = new TextEncoder().encode('x'.repeat(400));
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < 5; i++) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const result = await readJsonBody(post(stream), 1000);
+    expect(result).toMatchObject({ ok: false, error: { status: 413, code: 'payload_too_large' } });
+  });
+});
@@ -0,0 +1,174 @@
+// src/lib/chat-request.ts
+
+// reading and checking POST /api/chat bodies before the route trusts them:
+// a size cap while reading, a zod schema per request shape, and limits on how
+// long a message may be and how many (and how big) attachments it may carry
+import {
+  continueChatRequestSchema,
+  fullMessagesChatRequestSchema,
+  triggeredChatRequestSchema,
+  type MessageFeedback,
+} from '../util/schemas';
+import { getUploadMaxBytes } from '../util/upload-store';
+import type { ApiErrorCode } from './api-errors';
+import type { ToolApprovalDecision } from './tool-approval';
+import type { MyUIMessage } from './chat-types';
+
+// every field any request shape may carry; which ones are set depends on the shape
+export type ChatRequest = {
+  messages?: MyUIMessage[]; // full-messages shape only
+  id?: string;
+  message?: MyUIMessage;    // the newest message (submit, or continue with a message)
+  trigger?: 'submit-message' | 'regenerate-message' | 'delete-message' | 'pin-message' | 'feedback' | 'tool-approval';
+  messageId?: string;
+  pinned?: boolean;         // pin-message: whether the message should stay in the model's context
+  feedback?: MessageFeedback | null; // feedback: the rating for an answer (null takes it back)
+  approval?: ToolApprovalDecision;
+  model?: string;           // registry id picked in the chat page ("provider:model")
+  settings?: unknown;       // system prompt + generation settings from the settings panel
+  customKey?: string;
+  route?: string;
+};
+
+// a request we turn away, ready to become an apiError response
+export type ChatRequestError = {
+  status: number;
+  code: ApiErrorCode;
+  error: string;
+  issues?: unknown[];
+};
+
+// knobs for the limits; read from the environment so they can change per deploy
+export type ChatRequestLimits = {
+  maxBodyBytes: number;       // the whole JSON body
+  maxMessageChars: number;    // text in a single message
+  maxFilesPerMessage: number; // attachments on a single message
+};
+
+// the limits for this process (CHAT_MAX_BODY_BYTES, CHAT_MAX_MESSAGE_CHARS,
+// CHAT_MAX_FILES_PER_MESSAGE); the body must fit an inline attachment of the
+// largest allowed upload, base64 adds about a third
+export function getChatRequestLimits(): ChatRequestLimits {
+  return {
+    maxBodyBytes: readPositiveInt(
+      process.env.CHAT_MAX_BODY_BYTES,
+      Math.ceil(getUploadMaxBytes() * 1.4) + 1024 * 1024,
+    ),
+    maxMessageChars: readPositiveInt(process.env.CHAT_MAX_MESSAGE_CHARS, 32_000),
+    maxFilesPerMessage: readPositiveInt(process.env.CHAT_MAX_FILES_PER_MESSAGE, 10),
+  };
+}
+
+// read the body as JSON, giving up as soon as it grows past `maxBytes`
+// (Content-Length can be missing or wrong, so the bytes are counted)
+export async function readJsonBody(
+  req: Request,
+  maxBytes: number,
+): Promise<{ ok: true; body: unknown } | { ok: false; error: ChatRequestError }> {
+  const tooLarge = {
+    ok: false as const,
+    error: { status: 413, code: 'payload_too_large' as const, error: `Request body is larger than ${maxBytes} bytes.` },
+  };
+  if (Number(req.headers.get('content-length') ?? 0) > maxBytes) return tooLarge;
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (req.body) {
+    const reader = req.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return tooLarge;
+      }
+      chunks.push(value);
+    }
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+  } catch {
+    return { ok: false, error: { status: 400, code: 'invalid_json', error: 'Request body must be JSON.' } };
+  }
+}
+
+// check a parsed body against the request shape it claims to be, then the limits
+export function parseChatRequest(
+  body: unknown,
+  limits: ChatRequestLimits = getChatRequestLimits(),
+): { ok: true; request: ChatRequest } | { ok: false; error: ChatRequestError } {
+  // pick the schema up front so errors talk about the right shape
+  const fields = typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+  const schema =
+    fields.trigger !== undefined
+      ? triggeredChatRequestSchema
+      : fields.messages !== undefined
+        ? fullMessagesChatRequestSchema
+        : continueChatRequestSchema;
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: { status: 400, code: 'invalid_request', error: 'Invalid request body.', issues: parsed.error.issues },
+    };
+  }
+
+  // the parts are checked in full against our tools and schemas later on
+  // (validateUIMessages), so the looser request shape is safe to treat as ours
+  const request = parsed.data as ChatRequest;
+  for (const message of [...(request.message ? [request.message] : []), ...(request.messages ?? [])]) {
+    const problem = checkMessageLimits(message, limits);
+    if (problem) return { ok: false, error: problem };
+  }
+  return { ok: true, request };
+}
+
+// helper: why a message is too big, or undefined if it's fine
+function checkMessageLimits(message: MyUIMessage, limits: ChatRequestLimits): ChatRequestError | undefined {
+  const chars = message.parts.reduce(
+    (total, part) => total + (part.type === 'text' ? part.text.length : 0),
+    0,
+  );
+  if (chars > limits.maxMessageChars) {
+    return {
+      status: 413,
+      code: 'payload_too_large',
+      error: `Messages may be at most ${limits.maxMessageChars} characters long.`,
+    };
+  }
+
+  const files = message.parts.filter(part => part.type === 'file');
+  if (files.length > limits.maxFilesPerMessage) {
+    return {
+      status: 413,
+      code: 'payload_too_large',
+      error: `A message may carry at most ${limits.maxFilesPerMessage} attachments.`,
+    };
+  }
+
+  // inline (data url) attachments; uploaded ones were checked by the upload route
+  const maxBytes = getUploadMaxBytes();
+  if (files.some(file => inlineBytes(file.url) > maxBytes)) {
+    return {
+      status: 413,
+      code: 'payload_too_large',
+      error: `Attachments may be at most ${maxBytes} bytes.`,
+    };
+  }
+  return undefined;
+}
+
+// helper: roughly how many bytes a base64 data url holds (4 characters per 3 bytes)
+function inlineBytes(url: string): number {
+  if (!url.startsWith('data:')) return 0;
+  return Math.floor(((url.length - url.indexOf(',') - 1) * 3) / 4);
+}
+
+// helper: parse an env var as a positive integer, falling back when it isn't one
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
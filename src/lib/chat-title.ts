@@ -0,0 +1,70 @@
+// src/lib/chat-title.ts
+
+// generates a short, human-friendly title for a chat from its first exchange
+import { generateText, type LanguageModel } from 'ai';
+import type { MyUIMessage } from './chat-types';
+import { getBackgroundModel } from './providers';
+
+// the instruction the summarizer gets; kept short so titles come back fast
+const TITLE_INSTRUCTIONS = [
+  'You write titles for chat conversations.',
+  'Reply with a title of at most 6 words that captures the topic.',
+  'No quotes, no trailing punctuation, no preamble.',
+].join(' ');
+
+// pick the model used for titles: TITLE_MODEL is a registry id ("provider:model");
+// mock:title gives an offline, deterministic stand-in (first few words of the user's message)
+export function getTitleModel(): LanguageModel {
+  return getBackgroundModel(process.env.TITLE_MODEL);
+}
+
+// summarize the conversation so far into a title; null if nothing usable came back
+export async function generateChatTitle({
+  messages,
+  model = getTitleModel(),
+  abortSignal,
+}: {
+  messages: MyUIMessage[];
+  model?: LanguageModel;      // inject a different (or mock) model, e.g. in tests
+  abortSignal?: AbortSignal;
+}): Promise<string | null> {
+  const transcript = toTranscript(messages);
+  if (!transcript) return null;
+
+  const { text } = await generateText({
+    model,
+    system: TITLE_INSTRUCTIONS,
+    prompt: transcript,
+    abortSignal,
+  });
+
+  return cleanTitle(text);
+}
+
+// helper: flatten the first exchange into plain "User: / Assistant:" lines;
+// later turns rarely change what a chat is about, and this keeps the call cheap
+function toTranscript(messages: MyUIMessage[]): string {
+  return messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .slice(0, 2)
+    .map(m => {
+      const text = m.parts
+        .flatMap(p => (p.type === 'text' ? [p.text] : []))
+        .join(' ')
+        .slice(0, 1000);
+      return text ? `${m.role === 'user' ? 'User' : 'Assistant'}: ${text}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// helper: models love wrapping titles in quotes or adding a period; strip that
+function cleanTitle(text: string): string | null {
+  const title = (text.split('\n')[0] ?? '')
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'“”]+|["'“”.!]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80);
+  return title || null;
+}
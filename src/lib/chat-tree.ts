@@ -0,0 +1,94 @@
+// src/lib/chat-tree.ts
+
+// conversations are stored as a tree: every message records the message it
+// answers in `metadata.parentId` (null for the first one). editing a user
+// message or regenerating an answer adds a sibling instead of overwriting, so
+// every branch is kept; the page shows, and the model sees, one path at a time
+import type { MyUIMessage } from './chat-types';
+
+// the message a message answers (null for a root)
+export function getParentId(message: MyUIMessage): string | null {
+  return message.metadata?.parentId ?? null;
+}
+
+// messages saved before branching existed have no parentId; they simply
+// follow whatever was stored before them
+export function withParentIds(messages: MyUIMessage[]): MyUIMessage[] {
+  return messages.map((message, i) =>
+    message.metadata?.parentId !== undefined
+      ? message
+      : setParentId(message, messages[i - 1]?.id ?? null),
+  );
+}
+
+// the messages from the root down to `leafId`, in order (empty if it isn't there)
+export function getPath(messages: MyUIMessage[], leafId: string | null): MyUIMessage[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: MyUIMessage[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  // the length check guards against a (corrupt) parent cycle
+  while (current && path.length < messages.length) {
+    path.unshift(current);
+    const parentId = getParentId(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return path;
+}
+
+// the path that ends at the most recently stored message; that's the branch
+// the user was last working on, so it's the one we show when a chat opens
+export function getActivePath(messages: MyUIMessage[]): MyUIMessage[] {
+  return getPath(messages, messages[messages.length - 1]?.id ?? null);
+}
+
+// the alternatives for a message: itself and its siblings, oldest first
+export function getSiblings(messages: MyUIMessage[], message: MyUIMessage): MyUIMessage[] {
+  const parentId = getParentId(message);
+  return messages.filter(m => getParentId(m) === parentId);
+}
+
+// walk down from a message, always taking the newest reply, to find the end
+// of the branch it belongs to (used when switching to a sibling)
+export function getLatestLeafId(messages: MyUIMessage[], fromId: string): string {
+  let current = fromId;
+  for (let depth = 0; depth < messages.length; depth++) {
+    const children = messages.filter(m => getParentId(m) === current);
+    if (children.length === 0) break;
+    current = children[children.length - 1].id;
+  }
+  return current;
+}
+
+// give a new message its parent: the one the client named, or the newest
+// stored message when it didn't say (older clients); null if the named
+// parent doesn't exist in this chat, or is the message itself
+export function attachMessage(messages: MyUIMessage[], message: MyUIMessage): MyUIMessage | null {
+  const requested = message.metadata?.parentId;
+  const parentId = requested !== undefined ? requested : (messages[messages.length - 1]?.id ?? null);
+  if (parentId === message.id) return null;
+  if (parentId !== null && !messages.some(m => m.id === parentId)) return null;
+  return setParentId(message, parentId);
+}
+
+// remove one message; its replies move up to its parent so no branch is orphaned
+export function removeMessage(messages: MyUIMessage[], id: string): MyUIMessage[] {
+  const target = messages.find(m => m.id === id);
+  if (!target) return messages;
+  const parentId = getParentId(target);
+  return messages
+    .filter(m => m.id !== id)
+    .map(m => (getParentId(m) === id ? setParentId(m, parentId) : m));
+}
+
+// add or replace messages by id, keeping the original order for known ones
+export function mergeMessages(messages: MyUIMessage[], updates: MyUIMessage[]): MyUIMessage[] {
+  const updatesById = new Map(updates.map(m => [m.id, m]));
+  const merged = messages.map(m => updatesById.get(m.id) ?? m);
+  const known = new Set(messages.map(m => m.id));
+  return [...merged, ...updates.filter(m => !known.has(m.id))];
+}
+
+// helper: a copy of the message pointing at a new parent
+function setParentId(message: MyUIMessage, parentId: string | null): MyUIMessage {
+  return { ...message, metadata: { ...message.metadata, parentId } };
+}
@@ -0,0 +1,26 @@
+// src/lib/chat-types.ts
+
+// shared message types so the API route and the chat page agree on shapes
+import type { LanguageModelUsage, UIMessage } from 'ai';
+import type { MessageFeedback, MyDataParts } from '../util/schemas';
+import type { AppUITools } from './ai-tools';
+import type { StepSummary } from './agent-loop';
+import type { ContextUsage } from './context-window';
+
+// optional metadata type to expose usage and some handy fields
+export type MyMetadata = {
+  totalUsage?: LanguageModelUsage; // full usage object (tokens, input/output breakdown)
+  totalTokens?: number;            // simple token count for quick display
+  cost?: number;                   // what the answer cost in USD (when the model has a price)
+  createdAt?: number;              // server timestamp when stream started
+  model?: string;                  // model id for debugging/analytics
+  steps?: StepSummary[];           // one entry per model call in the agent loop
+  parentId?: string | null;        // the message this one answers (null for the first one)
+  pinned?: boolean;                // always sent to the model, even when older turns are left out
+  context?: ContextUsage;          // how full the context window was for this answer
+  feedback?: MessageFeedback & { ratedAt: number }; // the user's thumbs up/down (and comment) on this answer
+  quarantined?: { reason: string }; // stored in a shape that can't be read any more; not sent to the model
+};
+
+// make UI messages tools-aware so inputs/outputs are typed end-to-end
+export type MyUIMessage = UIMessage<MyMetadata, MyDataParts, AppUITools>;
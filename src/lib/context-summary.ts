@@ -0,0 +1,69 @@
+// src/lib/context-summary.ts
+
+// rolling summaries for long chats: when older turns no longer fit the model's
+// context window they are condensed into a short summary that stands in for them
+import { generateText, getToolOrDynamicToolName, isToolOrDynamicToolUIPart, type LanguageModel } from 'ai';
+import type { MyUIMessage } from './chat-types';
+import { getBackgroundModel } from './providers';
+
+// the instruction the summarizer gets; the summary is re-fed on every turn, so it stays short
+const SUMMARY_INSTRUCTIONS = [
+  'You condense the earlier part of a chat conversation so it can continue without the full transcript.',
+  'Keep facts, decisions, names, numbers, open questions and anything the user asked to remember.',
+  'If a previous summary is given, merge it with the new messages into one updated summary.',
+  'Write at most 250 words of plain prose. No preamble.',
+].join(' ');
+
+// pick the model used for summaries: CONTEXT_SUMMARY_MODEL is a registry id
+// ("provider:model"); mock:summary gives an offline, deterministic stand-in (the start of the transcript)
+export function getSummaryModel(): LanguageModel {
+  return getBackgroundModel(process.env.CONTEXT_SUMMARY_MODEL);
+}
+
+// fold `messages` (and the previous summary, if any) into a new summary;
+// null if nothing usable came back
+export async function summarizeMessages({
+  previous,
+  messages,
+  model = getSummaryModel(),
+  abortSignal,
+}: {
+  previous?: string | null;   // the summary of everything before `messages`
+  messages: MyUIMessage[];
+  model?: LanguageModel;      // inject a different (or mock) model, e.g. in tests
+  abortSignal?: AbortSignal;
+}): Promise<string | null> {
+  const transcript = toTranscript(messages);
+  if (!transcript) return previous ?? null;
+
+  const { text } = await generateText({
+    model,
+    system: SUMMARY_INSTRUCTIONS,
+    prompt: previous
+      ? `Previous summary:\n${previous}\n\nNew messages:\n${transcript}`
+      : transcript,
+    abortSignal,
+  });
+
+  return text.trim() || null;
+}
+
+// helper: flatten messages into "User: / Assistant:" lines; tool calls are
+// reduced to their name so large tool outputs don't blow up the summary call
+function toTranscript(messages: MyUIMessage[]): string {
+  return messages
+    .map(m => {
+      const text = m.parts
+        .flatMap(p => {
+          if (p.type === 'text') return [p.text];
+          if (p.type === 'file') return [`[attached ${p.filename ?? p.mediaType}]`];
+          if (isToolOrDynamicToolUIPart(p)) return [`[used tool ${getToolOrDynamicToolName(p)}]`];
+          return [];
+        })
+        .join(' ')
+        .slice(0, 4000);
+      return text ? `${m.role === 'user' ? 'User' : 'Assistant'}: ${text}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,202 @@
+// src/lib/context-window.ts
+
+// keeps long chats inside the model's context window: estimate how many tokens
+// the prompt needs and, when it's too much, leave out older turns (pinned
+// messages always stay) and optionally replace them with a rolling summary
+import { isToolOrDynamicToolUIPart } from 'ai';
+import type { MyUIMessage } from './chat-types';
+import { getContextWindow } from './providers';
+
+// what happens to older turns that no longer fit:
+// - window: they are simply left out (cheap, but the model forgets them)
+// - summarize: a short summary, stored with the chat, stands in for them
+export type ContextStrategy = 'window' | 'summarize';
+
+// knobs for context management; read from the environment so they can change per deploy
+export type ContextConfig = {
+  strategy: ContextStrategy;
+  maxTokens?: number; // optional cap below the model's window, to keep costs down
+  keepRatio: number;  // after summarizing, the share of the budget recent turns may use
+};
+
+// the rolling summary kept on the chat record (see ChatSummary.contextSummary)
+export type ContextSummary = {
+  text: string;      // the summary itself
+  throughId: string; // the last message it covers; only used on branches that contain it
+  createdAt: number;
+};
+
+// what we record on each answer so the UI can show how full the context was
+export type ContextUsage = {
+  usedTokens: number;              // estimated prompt size that was sent
+  limitTokens: number;             // the prompt budget for this model
+  omittedThroughId: string | null; // older messages up to here were left out (pinned ones excepted)
+  summarized: boolean;             // whether a summary stood in for them
+};
+
+// the result of fitting a conversation into the budget
+export type FittedContext = {
+  messages: MyUIMessage[];           // what to send to the model
+  summaryText: string | null;        // add this to the system prompt when present
+  newSummary?: ContextSummary;       // a fresh summary to store on the chat
+  usage: ContextUsage;
+};
+
+// rough cost of things we can't measure from text (images, PDFs)
+const FILE_TOKENS = 1_000;
+// per-message overhead for roles and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// the context settings for this process (CONTEXT_STRATEGY, CONTEXT_MAX_TOKENS,
+// CONTEXT_KEEP_RATIO)
+export function getContextConfig(): ContextConfig {
+  const maxTokens = Number.parseInt(process.env.CONTEXT_MAX_TOKENS ?? '', 10);
+  const keepRatio = Number.parseFloat(process.env.CONTEXT_KEEP_RATIO ?? '');
+  return {
+    strategy: process.env.CONTEXT_STRATEGY === 'window' ? 'window' : 'summarize',
+    maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : undefined,
+    keepRatio: keepRatio > 0 && keepRatio <= 1 ? keepRatio : 0.5,
+  };
+}
+
+// how many prompt tokens a model call may use: the model's window (or the
+// configured cap, if lower) minus room for the answer
+export function getContextBudget(
+  modelId: string,
+  maxOutputTokens: number | undefined,
+  config: ContextConfig = getContextConfig(),
+): number {
+  const limit = Math.min(getContextWindow(modelId), config.maxTokens ?? Infinity);
+  // never reserve more than a quarter of the window, or small models get no history at all
+  const reserve = Math.min(maxOutputTokens ?? 4_096, Math.floor(limit / 4));
+  return limit - reserve;
+}
+
+// a rough "4 characters per token" estimate; good enough to decide what fits
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// estimate what a message costs once converted for the model
+export function estimateMessageTokens(message: MyUIMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  for (const part of message.parts) {
+    if (part.type === 'text' || part.type === 'reasoning') {
+      tokens += estimateTokens(part.text);
+    } else if (part.type === 'file') {
+      tokens += FILE_TOKENS;
+    } else if (isToolOrDynamicToolUIPart(part)) {
+      tokens += estimateTokens(
+        JSON.stringify({ input: part.input, output: part.output, error: part.errorText }) ?? '',
+      );
+    }
+    // sources, step markers and data parts are not sent to the model
+  }
+  return tokens;
+}
+
+// fit a conversation (one branch, oldest first) into `budget` tokens; the last
+// message always stays, pinned messages always stay, and with the summarize
+// strategy everything else that is left out is covered by a rolling summary
+export async function fitContext({
+  messages,
+  budget,
+  system,
+  summary,
+  config = getContextConfig(),
+  summarize,
+}: {
+  messages: MyUIMessage[];
+  budget: number;
+  system: string;                          // the system prompt; counts against the budget too
+  summary?: ContextSummary | null;         // the summary stored on the chat, if any
+  config?: ContextConfig;
+  // condenses `messages` (plus the previous summary) into a new summary
+  summarize: (args: { previous: string | null; messages: MyUIMessage[] }) => Promise<string | null>;
+}): Promise<FittedContext> {
+  const sizes = messages.map(estimateMessageTokens);
+  const systemTokens = estimateTokens(system);
+  const total = systemTokens + sum(sizes);
+
+  // the common case: everything fits, send it all
+  if (total <= budget) {
+    return {
+      messages,
+      summaryText: null,
+      usage: { usedTokens: total, limitTokens: budget, omittedThroughId: null, summarized: false },
+    };
+  }
+
+  // helper: what we send when everything before `cut` is left out (pinned messages stay)
+  const keepFrom = (cut: number) => messages.filter((m, i) => i >= cut || m.metadata?.pinned);
+  const tokensFrom = (cut: number) =>
+    systemTokens + sum(sizes.filter((_, i) => i >= cut || messages[i].metadata?.pinned));
+  const result = (cut: number, summaryText: string | null, newSummary?: ContextSummary) => ({
+    messages: keepFrom(cut),
+    summaryText,
+    newSummary,
+    usage: {
+      usedTokens: tokensFrom(cut) + (summaryText ? estimateTokens(summaryText) : 0),
+      limitTokens: budget,
+      omittedThroughId: cut > 0 ? messages[cut - 1].id : null,
+      summarized: summaryText != null,
+    },
+  });
+
+  // the stored summary only applies if this branch contains the message it ends at
+  const summaryIndex = summary ? messages.findIndex(m => m.id === summary.throughId) : -1;
+  const previous = summaryIndex >= 0 ? summary! : null;
+
+  // reuse the stored summary as long as the turns after it still fit
+  if (config.strategy === 'summarize' && previous) {
+    const cut = summaryIndex + 1;
+    if (tokensFrom(cut) + estimateTokens(previous.text) <= budget) {
+      return result(cut, previous.text);
+    }
+  }
+
+  // keep the newest turns that fit; when summarizing, keep less than the full
+  // budget so the next few turns can reuse the summary instead of redoing it
+  const target = config.strategy === 'summarize' ? budget * config.keepRatio : budget;
+  let cut = messages.length - 1; // the last message always stays
+  let used = tokensFrom(cut);
+  while (cut > 0) {
+    const extra = messages[cut - 1].metadata?.pinned ? 0 : sizes[cut - 1];
+    if (used + extra > target) break;
+    used += extra;
+    cut--;
+  }
+
+  // a single message that is too big on its own is sent anyway; the provider will say so
+  if (cut === 0 || config.strategy === 'window') return result(cut, null);
+
+  // roll the summary forward: the previous one plus whatever has dropped out since;
+  // a summary that reaches past the new cut can't be extended, so start over
+  const extend = previous != null && summaryIndex < cut;
+  const toSummarize = messages
+    .slice(extend ? summaryIndex + 1 : 0, cut)
+    .filter(m => !m.metadata?.pinned);
+  try {
+    const text =
+      toSummarize.length > 0
+        ? await summarize({ previous: extend ? previous.text : null, messages: toSummarize })
+        : extend
+          ? previous.text
+          : null;
+    if (!text) return result(cut, null);
+    return result(cut, text, {
+      text,
+      throughId: messages[cut - 1].id,
+      createdAt: Date.now(),
+    });
+  } catch (error) {
+    // a missing summary only costs the model some memory; never fail the chat over it
+    console.error('context summary failed:', error);
+    return result(cut, null);
+  }
+}
+
+// helper: add up token counts
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
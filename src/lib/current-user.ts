@@ -0,0 +1,9 @@
+// src/lib/current-user.ts
+// the signed-in user for server components, read from the request cookies
+// (route handlers use getSessionUser(req) from ./auth instead)
+import { cookies } from 'next/headers';
+import { SESSION_COOKIE, verifySessionToken, type SessionUser } from './auth';
+
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  return verifySessionToken((await cookies()).get(SESSION_COOKIE)?.value);
+}
@@ -0,0 +1,46 @@
+// src/lib/data-parts.ts
+
+// the server side of our custom data parts (declared in dataPartsSchema):
+// every part is checked against its schema before it goes out, and is sent
+// transient or not as declared here. transient parts reach the page through
+// useChat's onData and are never stored; the others become part of the
+// answer, are saved with it and validated again whenever the chat loads
+import type { InferUIMessageChunk, UIMessageStreamWriter } from 'ai';
+import { dataPartsSchema, type MyDataParts } from '../util/schemas';
+import type { MyUIMessage } from './chat-types';
+
+// the name of a declared data part ("title", "status", ...)
+export type DataPartName = keyof MyDataParts & string;
+
+// which parts only matter while an answer streams
+export const TRANSIENT_DATA_PARTS: Record<DataPartName, boolean> = {
+  title: true,    // the header picks it up; the chat record stores the title
+  status: true,
+  progress: true,
+  table: false,   // part of the answer
+};
+
+// writes one data part into the answer being streamed; parts written with the
+// same id replace each other instead of piling up
+export type DataPartWriter = <NAME extends DataPartName>(
+  name: NAME,
+  data: MyDataParts[NAME],
+  options?: { id?: string },
+) => void;
+
+// a DataPartWriter on top of a UI message stream writer; data that doesn't
+// fit its schema throws instead of reaching the page
+export function createDataPartWriter(writer: UIMessageStreamWriter<MyUIMessage>): DataPartWriter {
+  return (name, data, { id } = {}) => {
+    const checked = dataPartsSchema[name].parse(data);
+    // the chunk union is keyed by template literal types TypeScript can't
+    // build from a generic name, hence the cast
+    writer.write({
+      type: `data-${name}`,
+      ...(id !== undefined && { id }),
+      data: checked,
+      // the SDK copies the flag into stored parts, so only set it when it's true
+      ...(TRANSIENT_DATA_PARTS[name] && { transient: true }),
+    } as InferUIMessageChunk<MyUIMessage>);
+  };
+}
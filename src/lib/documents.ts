@@ -0,0 +1,254 @@
+// src/lib/documents.ts
+
+// the knowledge base: files the user adds (text, Markdown, PDF) are split into
+// overlapping chunks, embedded and kept in the vector index
+// (util/document-store.ts). the searchDocuments tool embeds the model's query
+// with the same model and hands back the closest passages; the chat route turns
+// those into source parts, which the page shows as clickable citations
+import { embed, embedMany, type UIMessageChunk } from 'ai';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { saveDocument, searchChunks, type ChunkMatch, type DocumentInfo } from '../util/document-store';
+import { EMBEDDING_MODEL_ID, getEmbeddingModel } from './providers';
+
+// the file types the knowledge base reads
+export const DOCUMENT_MEDIA_TYPES = ['text/plain', 'text/markdown', 'application/pdf'];
+
+// about how many characters go into one chunk, and how many of them repeat
+// the end of the chunk before (so a passage cut in two is still found whole)
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+
+// passages less similar than this to the query aren't worth the model's context
+const MIN_SCORE = 0.1;
+
+// one passage as the searchDocuments tool returns it
+export type DocumentPassage = {
+  sourceId: string;  // also the id of the source part the answer cites it with
+  documentId: string;
+  title: string;     // file name, plus the page for PDFs
+  url: string;       // where the citation links to
+  text: string;
+  score: number;
+};
+
+// the largest file the knowledge base takes (DOCUMENT_MAX_BYTES, 20 MB by default)
+export function getDocumentMaxBytes(): number {
+  const parsed = Number.parseInt(process.env.DOCUMENT_MAX_BYTES ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 20 * 1024 * 1024;
+}
+
+// the media type to read a file as; browsers often send Markdown (and
+// sometimes plain text) without a type, so the extension decides then
+export function getDocumentMediaType({ name, type }: { name: string; type: string }): string {
+  if (DOCUMENT_MEDIA_TYPES.includes(type)) return type;
+  if (/\.(md|markdown)$/i.test(name)) return 'text/markdown';
+  if (/\.txt$/i.test(name)) return 'text/plain';
+  if (/\.pdf$/i.test(name)) return 'application/pdf';
+  return type;
+}
+
+// why a file can't be added, or null if it's fine
+export function checkDocument({ mediaType, size }: { mediaType: string; size: number }): string | null {
+  if (!DOCUMENT_MEDIA_TYPES.includes(mediaType)) {
+    return `Only text, Markdown and PDF files can be added (not ${mediaType || 'unknown'}).`;
+  }
+  if (size > getDocumentMaxBytes()) return `Documents may be at most ${getDocumentMaxBytes()} bytes.`;
+  if (size === 0) return 'The file is empty.';
+  return null;
+}
+
+// read, chunk, embed and index a file that passed checkDocument
+export async function ingestDocument({
+  ownerId,
+  filename,
+  mediaType,
+  data,
+}: {
+  ownerId: string;
+  filename: string;
+  mediaType: string;
+  data: Uint8Array;
+}): Promise<{ document: DocumentInfo } | { error: string; code: 'invalid_document' | 'upstream_error' }> {
+  const size = data.byteLength;
+  const pages = await readPages(mediaType, data);
+  if (!pages) return { error: `${filename} could not be read as a PDF.`, code: 'invalid_document' };
+
+  // PDF chunks remember their page so citations can point at it
+  const chunks = pages.flatMap((text, i) =>
+    chunkText(text).map(chunk => ({ text: chunk, ...(mediaType === 'application/pdf' && { page: i + 1 }) })),
+  );
+  // scanned PDFs have pages but no text layer
+  if (chunks.length === 0) return { error: `${filename} has no text in it.`, code: 'invalid_document' };
+
+  // the embedding provider may be down, or refuse the call; nothing is saved
+  // until every chunk has its vector, so a failure leaves no document behind
+  const embeddings = await embedChunks(chunks.map(chunk => chunk.text));
+  if (!embeddings) {
+    return { error: `${filename} could not be indexed right now. Try again later.`, code: 'upstream_error' };
+  }
+
+  const document = await saveDocument({
+    ownerId,
+    filename,
+    mediaType,
+    size,
+    ...(mediaType === 'application/pdf' && { pageCount: pages.length }),
+    embeddingModel: EMBEDDING_MODEL_ID,
+    chunks: chunks.map((chunk, index) => ({ index, ...chunk, embedding: embeddings[index] })),
+  });
+  return { document };
+}
+
+// split text into chunks of about `size` characters: paragraphs are kept
+// together where they fit, longer ones are cut between words, and each chunk
+// starts with the last `overlap` characters of the one before
+export function chunkText(text: string, { size = CHUNK_SIZE, overlap = CHUNK_OVERLAP } = {}): string[] {
+  const pieces = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => splitLongParagraph(paragraph, size));
+
+  const chunks: string[] = [];
+  let current = '';
+  // whether `current` holds more than the overlap carried over from the last chunk
+  let hasNewText = false;
+  for (const piece of pieces) {
+    if (hasNewText && current.length + 2 + piece.length > size) {
+      chunks.push(current);
+      current = tail(current, overlap);
+      hasNewText = false;
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+    hasNewText = true;
+  }
+  if (hasNewText) chunks.push(current);
+  return chunks;
+}
+
+// the passages of one user's documents closest to a query, best first
+export async function searchDocuments(ownerId: string, query: string, limit = 5): Promise<DocumentPassage[]> {
+  const { embedding } = await embed({ model: getEmbeddingModel(), value: query });
+  const matches = await searchChunks({
+    ownerId,
+    embedding,
+    embeddingModel: EMBEDDING_MODEL_ID,
+    limit,
+    minScore: MIN_SCORE,
+  });
+  return matches.map(toPassage);
+}
+
+// the page that shows a document, scrolled to one of its chunks
+export function documentUrl(documentId: string, chunkIndex?: number): string {
+  return `/documents/${documentId}${chunkIndex === undefined ? '' : `#chunk-${chunkIndex}`}`;
+}
+
+// pass a UI message stream through, adding a source part after every
+// searchDocuments result for each passage it returned (once per answer), so
+// the saved answer carries its citations
+export function withDocumentSources<CHUNK extends UIMessageChunk>(stream: ReadableStream<CHUNK>): ReadableStream<CHUNK> {
+  const searchCallIds = new Set<string>();
+  const cited = new Set<string>();
+  return stream.pipeThrough(
+    new TransformStream<CHUNK, CHUNK>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        if (chunk.type === 'tool-input-available' && chunk.toolName === 'searchDocuments') {
+          searchCallIds.add(chunk.toolCallId);
+        }
+        if (chunk.type !== 'tool-output-available' || !searchCallIds.has(chunk.toolCallId)) return;
+        for (const passage of readPassages(chunk.output)) {
+          if (cited.has(passage.sourceId)) continue;
+          cited.add(passage.sourceId);
+          controller.enqueue({
+            type: 'source-url',
+            sourceId: passage.sourceId,
+            url: passage.url,
+            title: passage.title,
+          } as CHUNK);
+        }
+      },
+    }),
+  );
+}
+
+// helper: the text of each page (a plain text file is one page); undefined
+// when a PDF can't be parsed
+async function readPages(mediaType: string, data: Uint8Array): Promise<string[] | undefined> {
+  if (mediaType !== 'application/pdf') return [new TextDecoder().decode(data)];
+  try {
+    const { text } = await extractText(await getDocumentProxy(data), { mergePages: false });
+    return text;
+  } catch (error) {
+    console.error('failed to read PDF:', error);
+    return undefined;
+  }
+}
+
+// helper: one vector per chunk from the embedding model; undefined when the
+// call fails or doesn't hand back a vector for every chunk
+async function embedChunks(texts: string[]): Promise<number[][] | undefined> {
+  try {
+    const { embeddings } = await embedMany({ model: getEmbeddingModel(), values: texts });
+    return embeddings.length === texts.length ? embeddings : undefined;
+  } catch (error) {
+    console.error('failed to embed document:', error);
+    return undefined;
+  }
+}
+
+// helper: cut a paragraph longer than `size` between words (a single "word"
+// longer than that, like a long url, is cut wherever it has to be)
+function splitLongParagraph(paragraph: string, size: number): string[] {
+  if (paragraph.length <= size) return [paragraph];
+  const words = paragraph.split(/\s+/).flatMap(word => {
+    const parts: string[] = [];
+    for (let i = 0; i < word.length; i += size) parts.push(word.slice(i, i + size));
+    return parts;
+  });
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > size) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// helper: the last `length` characters of a chunk, starting at a word
+function tail(text: string, length: number): string {
+  if (length <= 0) return '';
+  const end = text.slice(-length);
+  const space = end.search(/\s/);
+  return space === -1 ? end : end.slice(space).trim();
+}
+
+// helper: a search match as the tool hands it to the model
+function toPassage({ document, chunk, score }: ChunkMatch): DocumentPassage {
+  return {
+    sourceId: `doc-${document.id}-${chunk.index}`,
+    documentId: document.id,
+    title: chunk.page ? `${document.filename}, p. ${chunk.page}` : document.filename,
+    url: documentUrl(document.id, chunk.index),
+    text: chunk.text,
+    score: Math.round(score * 1000) / 1000,
+  };
+}
+
+// helper: the passages in a searchDocuments result (nothing if it has another shape)
+function readPassages(output: unknown): DocumentPassage[] {
+  const passages = (output as { passages?: unknown } | null)?.passages;
+  return Array.isArray(passages)
+    ? passages.filter(
+        (passage): passage is DocumentPassage =>
+          typeof passage?.sourceId === 'string' && typeof passage?.url === 'string' && typeof passage?.title === 'string',
+      )
+    : [];
+}
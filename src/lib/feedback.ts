@@ -0,0 +1,124 @@
+// src/lib/feedback.ts
+
+// rated answers as evaluation cases: every assistant message with a thumbs
+// up/down becomes one record with what was asked, the conversation before it,
+// what the model answered (tool calls included), which model answered, what
+// it used and how it was rated. one JSON object per line (JSONL), so eval
+// tools can stream the file and regression sets can be cut from real traffic
+import { getToolOrDynamicToolName, isToolOrDynamicToolUIPart, type LanguageModelUsage } from 'ai';
+import type { ChatSummary } from '../util/chat-store';
+import type { FeedbackExportQuery, MessageFeedback } from '../util/schemas';
+import type { MyUIMessage } from './chat-types';
+import { getParentId, getPath } from './chat-tree';
+import { isQuarantined } from './message-validation';
+
+// one tool call as an eval case shows it
+export type EvalToolCall = {
+  name: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+};
+
+// one message reduced to what an eval needs
+export type EvalTurn = {
+  role: MyUIMessage['role'];
+  text: string;
+  files?: string[];            // names of attached files (their contents aren't exported)
+  toolCalls?: EvalToolCall[];
+};
+
+// one rated exchange, a line of the export
+export type EvalRecord = {
+  chatId: string;
+  messageId: string;
+  rating: MessageFeedback['rating'];
+  comment?: string;
+  ratedAt: string;             // ISO time of the rating
+  answeredAt?: string;         // ISO time the answer started
+  model?: string;              // the model that answered ("provider:model")
+  systemPrompt?: string;       // the chat's system prompt template, as the chat has it now
+  context: EvalTurn[];         // the conversation before the prompt, oldest first
+  prompt: EvalTurn;            // the user message the answer replies to
+  answer: EvalTurn;
+  usage?: LanguageModelUsage;  // tokens the answer took (all steps)
+  cost?: number;               // USD, when the model has a known price
+};
+
+// which ratings to export; times are epoch ms, `until` inclusive
+export type FeedbackFilter = {
+  rating?: MessageFeedback['rating'];
+  since?: number;
+  until?: number;
+};
+
+// the filter for a checked query string (days in UTC, `to` includes the whole day)
+export function toFeedbackFilter(query: FeedbackExportQuery): FeedbackFilter {
+  return {
+    rating: query.rating,
+    since: query.from ? Date.parse(`${query.from}T00:00:00Z`) : undefined,
+    until: query.to ? Date.parse(`${query.to}T00:00:00Z`) + 24 * 60 * 60 * 1000 - 1 : undefined,
+  };
+}
+
+// the eval records of one chat (all branches), oldest answer first; answers
+// that don't reply to a user message, and quarantined messages, are skipped
+export function collectRatedExchanges(
+  chat: ChatSummary,
+  messages: MyUIMessage[],
+  filter: FeedbackFilter = {},
+): EvalRecord[] {
+  const records: EvalRecord[] = [];
+  for (const answer of messages) {
+    const feedback = answer.metadata?.feedback;
+    if (answer.role !== 'assistant' || !feedback || isQuarantined(answer)) continue;
+    if (filter.rating && feedback.rating !== filter.rating) continue;
+    if (filter.since !== undefined && feedback.ratedAt < filter.since) continue;
+    if (filter.until !== undefined && feedback.ratedAt > filter.until) continue;
+
+    // the branch that leads to the answer: ..., context, prompt
+    const path = getPath(messages, getParentId(answer)).filter(m => !isQuarantined(m));
+    const prompt = path[path.length - 1];
+    if (prompt?.role !== 'user') continue;
+
+    records.push({
+      chatId: chat.id,
+      messageId: answer.id,
+      rating: feedback.rating,
+      ...(feedback.comment && { comment: feedback.comment }),
+      ratedAt: new Date(feedback.ratedAt).toISOString(),
+      ...(answer.metadata?.createdAt && { answeredAt: new Date(answer.metadata.createdAt).toISOString() }),
+      model: answer.metadata?.model,
+      systemPrompt: chat.settings?.systemPrompt,
+      context: path.slice(0, -1).map(toTurn),
+      prompt: toTurn(prompt),
+      answer: toTurn(answer),
+      usage: answer.metadata?.totalUsage,
+      cost: answer.metadata?.cost,
+    });
+  }
+  return records.sort((a, b) => a.ratedAt.localeCompare(b.ratedAt));
+}
+
+// records as JSONL: one compact JSON object per line
+export function toJsonl(records: EvalRecord[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+// helper: a message's text, attachment names and tool calls
+function toTurn(message: MyUIMessage): EvalTurn {
+  const text = message.parts.map(part => (part.type === 'text' ? part.text : '')).join('');
+  const files = message.parts.flatMap(part => (part.type === 'file' ? [part.filename ?? part.mediaType] : []));
+  const toolCalls = message.parts.filter(isToolOrDynamicToolUIPart).map(part => ({
+    name: getToolOrDynamicToolName(part),
+    input: part.input,
+    ...(part.state === 'output-available' && { output: part.output }),
+    ...(part.state === 'output-error' && { error: part.errorText }),
+  }));
+  return {
+    role: message.role,
+    text,
+    ...(files.length > 0 && { files }),
+    ...(toolCalls.length > 0 && { toolCalls }),
+  };
+}
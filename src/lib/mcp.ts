@@ -0,0 +1,287 @@
+// src/lib/mcp.ts
+
+// tools from external MCP (Model Context Protocol) servers, listed in
+// MCP_SERVERS_FILE. a server is connected the first time something needs it
+// (a chat request that has it enabled, or the /tools page); its tools are
+// listed then and kept for as long as the connection lives. a server that
+// can't be reached is left out (the chat carries on with the other tools)
+// and tried again after a short pause
+//
+// every MCP tool is offered to the model as "<server>__<tool>", so two
+// servers (or a server and a built-in tool) can never collide. their calls
+// are stored as `dynamic-tool` parts: there is no schema for them in our
+// code, so validateUIMessages only checks their shape, and chats that used a
+// server keep loading after it is removed
+import { readFileSync } from 'node:fs';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  dynamicTool,
+  experimental_createMCPClient,
+  MCPClientError,
+  type experimental_MCPClient as MCPClient,
+  type MCPTransport,
+  type Tool,
+  type ToolSet,
+} from 'ai';
+import { z } from 'zod';
+import { mcpServerConfigSchema, type McpServerConfig } from '../util/schemas';
+import { createToolExecute, toolFailure } from './tool-registry';
+
+// how long connecting to a server and listing its tools may take
+const CONNECT_TIMEOUT_MS = 10_000;
+// how long a server that failed is left alone before the next attempt
+const RETRY_AFTER_MS = 30_000;
+// between the server name and the tool name in what the model sees
+const NAME_SEPARATOR = '__';
+// what a chat's `enabledTools` holds for a whole server: "mcp:<server>"
+const ENABLED_PREFIX = 'mcp:';
+
+// one tool a server offers, as the tools page lists it
+export type McpToolInfo = {
+  name: string;        // the namespaced name the model calls
+  serverToolName: string;
+  description: string;
+};
+
+// a configured server and how it is doing, for the tools page and GET /api/mcp
+export type McpServerStatus = {
+  name: string;
+  label: string;
+  transport: McpServerConfig['transport'];
+  enabledByDefault: boolean;
+  status: 'connected' | 'error' | 'not_connected';
+  error?: string;
+  connectedAt?: number;
+  tools: McpToolInfo[];
+};
+
+// what the settings panel lists for each server (see resolveEnabledMcpServers)
+export type McpServerToggle = {
+  id: string; // "mcp:<server>", the entry in a chat's enabledTools
+  label: string;
+  enabledByDefault: boolean;
+};
+
+// a server's connection, kept across requests
+type Connection = {
+  client?: MCPClient;
+  tools: ToolSet;        // namespaced, ready for streamText
+  toolInfo: McpToolInfo[];
+  connectedAt?: number;
+  error?: string;
+  failedAt?: number;
+  connecting?: Promise<void>;
+};
+
+// server name -> connection; lives as long as the server process
+const connections = new Map<string, Connection>();
+
+// the servers configured in MCP_SERVERS_FILE (a JSON array, see
+// mcpServerConfigSchema); a broken file is logged and ignored rather than
+// taking the chat down. edits to a server that is already connected take
+// effect after a restart
+export function getMcpServers(): McpServerConfig[] {
+  const file = process.env.MCP_SERVERS_FILE;
+  if (!file) return [];
+  try {
+    const servers = z.array(mcpServerConfigSchema).parse(JSON.parse(readFileSync(file, 'utf8')));
+    // a name must be unique, since it prefixes the server's tools
+    return servers.filter((server, i) => {
+      const first = servers.findIndex(other => other.name === server.name) === i;
+      if (!first) console.error(`ignoring second MCP server named "${server.name}" in ${file}`);
+      return first;
+    });
+  } catch (error) {
+    console.error(`ignoring invalid MCP_SERVERS_FILE (${file}):`, error);
+    return [];
+  }
+}
+
+// the servers for the per-chat tool list
+export function listMcpServerToggles(): McpServerToggle[] {
+  return getMcpServers().map(server => ({
+    id: `${ENABLED_PREFIX}${server.name}`,
+    label: server.label ?? server.name,
+    enabledByDefault: server.enabledByDefault !== false,
+  }));
+}
+
+// the servers a chat may use: the ones its enabledTools name ("mcp:<server>"),
+// or the ones that are on by default when it hasn't chosen
+export function resolveEnabledMcpServers(enabledTools: string[] | undefined): string[] {
+  return listMcpServerToggles()
+    .filter(toggle =>
+      enabledTools === undefined ? toggle.enabledByDefault : enabledTools.includes(toggle.id),
+    )
+    .map(toggle => toggle.id.slice(ENABLED_PREFIX.length));
+}
+
+// the tools of the given servers, connecting to them first if needed;
+// servers that can't be reached contribute nothing and are named in
+// `unreachable` (by label), so the answer can say what it went without
+export async function getMcpTools(serverNames: string[]): Promise<{ tools: ToolSet; unreachable: string[] }> {
+  const servers = getMcpServers().filter(server => serverNames.includes(server.name));
+  const connected = await Promise.all(servers.map(connect));
+  return {
+    tools: Object.assign({}, ...connected.map(connection => connection.tools)),
+    unreachable: servers.filter((_, i) => !connected[i].client).map(server => server.label ?? server.name),
+  };
+}
+
+// every configured server with its status and tools; connects to those that
+// aren't yet, so the page shows what a chat would get right now
+export async function listMcpServers(): Promise<McpServerStatus[]> {
+  const servers = getMcpServers();
+  const connected = await Promise.all(servers.map(connect));
+  return servers.map((server, i) => {
+    const connection = connected[i];
+    return {
+      name: server.name,
+      label: server.label ?? server.name,
+      transport: server.transport,
+      enabledByDefault: server.enabledByDefault !== false,
+      status: connection.client ? 'connected' : connection.error ? 'error' : 'not_connected',
+      error: connection.error,
+      connectedAt: connection.connectedAt,
+      tools: connection.toolInfo,
+    };
+  });
+}
+
+// helper: the server's connection, opening it when there is none yet (and
+// the last failure, if any, is long enough ago); concurrent requests share
+// one attempt
+async function connect(server: McpServerConfig): Promise<Connection> {
+  let connection = connections.get(server.name);
+  if (!connection) {
+    connection = { tools: {}, toolInfo: [] };
+    connections.set(server.name, connection);
+  }
+  if (connection.client) return connection;
+  if (!connection.connecting && (connection.failedAt ?? 0) + RETRY_AFTER_MS <= Date.now()) {
+    connection.connecting = open(server, connection).finally(() => {
+      connection.connecting = undefined;
+    });
+  }
+  await connection.connecting;
+  return connection;
+}
+
+// helper: start the transport, list the tools and wrap them; on failure the
+// connection records the error and everything half-open is closed again
+async function open(server: McpServerConfig, connection: Connection): Promise<void> {
+  const transport = createTransport(server);
+  let client: MCPClient | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`no answer within ${CONNECT_TIMEOUT_MS / 1000} seconds`)),
+        CONNECT_TIMEOUT_MS,
+      );
+    });
+    const connecting = experimental_createMCPClient({
+      transport,
+      name: 'my-ai-app',
+      onUncaughtError: error => console.error(`MCP server ${server.name}:`, error),
+    });
+    client = await Promise.race([connecting, timeout]);
+    const serverTools = await Promise.race([client.tools(), timeout]);
+
+    connection.client = client;
+    connection.tools = {};
+    connection.toolInfo = [];
+    for (const [serverToolName, serverTool] of Object.entries(serverTools)) {
+      const name = toolName(server.name, serverToolName);
+      if (name in connection.tools) {
+        console.error(`MCP server ${server.name}: skipping tool "${serverToolName}", its name clashes with another`);
+        continue;
+      }
+      connection.tools[name] = wrapTool(server, connection, name, serverTool);
+      connection.toolInfo.push({ name, serverToolName, description: serverTool.description ?? '' });
+    }
+    connection.connectedAt = Date.now();
+    connection.error = undefined;
+    connection.failedAt = undefined;
+  } catch (error) {
+    console.error(`could not connect to MCP server ${server.name}:`, error);
+    await (client ? client.close() : transport.close()).catch(() => undefined);
+    connection.error = error instanceof Error ? error.message : String(error);
+    connection.failedAt = Date.now();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// helper: the transport a server's config asks for
+function createTransport(server: McpServerConfig): MCPTransport {
+  switch (server.transport) {
+    case 'stdio':
+      return new StdioClientTransport({
+        command: server.command,
+        args: server.args,
+        env: server.env,
+        cwd: server.cwd,
+      });
+    case 'http':
+      return new StreamableHTTPClientTransport(new URL(server.url), {
+        requestInit: { headers: server.headers },
+      });
+    case 'sse':
+      return new SSEClientTransport(new URL(server.url), {
+        requestInit: { headers: server.headers },
+      });
+  }
+}
+
+// helper: the name the model sees, "<server>__<tool>", reduced to the
+// characters (and the 64 of them) that model APIs accept in tool names
+function toolName(serverName: string, serverToolName: string): string {
+  return `${serverName}${NAME_SEPARATOR}${serverToolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`.slice(0, 64);
+}
+
+// helper: a server's tool as the model gets it: the server's description and
+// schema, run like our own tools (timeout, { code, message } errors). a result
+// the server marks as an error becomes an upstream_error; a broken connection
+// is dropped, so the next request reconnects
+function wrapTool(server: McpServerConfig, connection: Connection, name: string, serverTool: Tool): Tool {
+  const label = server.label ?? server.name;
+  return dynamicTool({
+    description: `[${label}] ${serverTool.description ?? ''}`.trim(),
+    inputSchema: serverTool.inputSchema,
+    execute: (input, options) =>
+      createToolExecute<unknown, unknown>({
+        name,
+        timeoutMs: server.timeoutMs,
+        describeError: error => {
+          if (!MCPClientError.isInstance(error)) return undefined;
+          disconnect(connection, error.message);
+          return { code: 'upstream_error', message: `The ${label} tool server failed: ${error.message}` };
+        },
+        execute: async (args, { signal }) => {
+          const result = await serverTool.execute!(args, { ...options, abortSignal: signal });
+          if (result?.isError) throw toolFailure('upstream_error', resultText(result) || `${name} failed.`);
+          return result;
+        },
+      })(input, options),
+  });
+}
+
+// helper: forget a connection that stopped working (its tools go with it)
+function disconnect(connection: Connection, error: string) {
+  connection.client?.close().catch(() => undefined);
+  connection.client = undefined;
+  connection.tools = {};
+  connection.toolInfo = [];
+  connection.error = error;
+  connection.failedAt = Date.now();
+}
+
+// helper: the text blocks of a tool result, e.g. the message of an error result
+function resultText(result: { content?: { type: string; text?: string }[] }): string {
+  return (result.content ?? [])
+    .flatMap(block => (block.type === 'text' && block.text ? [block.text] : []))
+    .join('\n');
+}
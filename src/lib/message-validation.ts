@@ -0,0 +1,141 @@
+// src/lib/message-validation.ts
+
+// check stored messages against today's schemas (metadata, tools, data parts)
+// before they reach the page or the model. older messages are upgraded by the
+// migrations first; one that still doesn't fit is quarantined on its own: it
+// stays on disk untouched, the page shows a placeholder for it, and the model
+// never sees it, instead of the whole chat being hidden or forgotten
+import { safeValidateUIMessages, type UIMessage } from 'ai';
+import { getChatStore } from '../util/chat-store';
+import { CHAT_SCHEMA_VERSION, dataPartsSchema, metadataSchema } from '../util/schemas';
+import { tools } from './ai-tools';
+import type { MyUIMessage } from './chat-types';
+import { migrateMessages } from './migrations';
+
+// the schema only spells out the usage fields we read (LanguageModelUsage has
+// more), so TypeScript needs telling that its output fits our metadata type
+type MetadataValidator = Parameters<typeof safeValidateUIMessages<MyUIMessage>>[0]['metadataSchema'];
+const storedMetadataSchema = metadataSchema as unknown as MetadataValidator;
+
+// what the migration CLI reports for one chat
+export type ChatMigrationReport = {
+  chatId: string;
+  fromVersion: number;
+  changed: boolean; // some stored message had an older shape
+  quarantined: { messageId: string; reason: string }[];
+};
+
+// upgrade stored messages from `fromVersion` (unknown age: 0, every migration
+// is safe to re-run) and check each one; messages that fail come back as
+// placeholders without parts, flagged with metadata.quarantined, so the
+// conversation tree around them stays intact
+export async function validateStoredMessages(stored: UIMessage[], fromVersion = 0): Promise<MyUIMessage[]> {
+  const messages: MyUIMessage[] = [];
+  for (const message of migrateMessages(stored, fromVersion)) {
+    const result = await safeValidateUIMessages<MyUIMessage>({
+      messages: [message],
+      // a message without metadata is fine; the schema only checks what is there
+      metadataSchema: message.metadata === undefined ? undefined : storedMetadataSchema,
+      tools,
+      dataSchemas: dataPartsSchema,
+    });
+    if (result.success) {
+      messages.push(message as MyUIMessage);
+    } else {
+      console.error(`quarantining stored message ${message.id}:`, result.error.message);
+      messages.push(quarantine(message, result.error.message));
+    }
+  }
+  return messages;
+}
+
+// whether a message was quarantined on load (placeholders are never sent to the model)
+export function isQuarantined(message: MyUIMessage): boolean {
+  return message.metadata?.quarantined !== undefined;
+}
+
+// a saved chat's messages, upgraded from the version the chat was stored with
+export async function loadChatMessages(chatId: string): Promise<MyUIMessage[]> {
+  const store = getChatStore();
+  const chat = await store.getChat(chatId);
+  return validateStoredMessages(await store.loadChat(chatId), chat?.schemaVersion ?? 0);
+}
+
+// a saved chat's messages for a JSON archive: like loadChatMessages, but a
+// quarantined message goes in as it is stored (after the migrations), not as
+// an empty placeholder, so an export never loses what's on disk. import
+// refuses such an archive until the message is fixed, rather than saving
+// the placeholder
+export async function loadArchiveMessages(chatId: string): Promise<MyUIMessage[]> {
+  const store = getChatStore();
+  const chat = await store.getChat(chatId);
+  const stored = migrateMessages(await store.loadChat(chatId), chat?.schemaVersion ?? 0);
+  const checked = await validateStoredMessages(stored, CHAT_SCHEMA_VERSION);
+  // a stored message without a parts list can't be walked by embedUploads;
+  // that one stays a placeholder
+  return checked.map((message, i) =>
+    isQuarantined(message) && Array.isArray(stored[i].parts) ? (stored[i] as MyUIMessage) : message,
+  );
+}
+
+// upgrade one chat on disk (or, with write: false, only report what would
+// change); quarantined messages are written back in the furthest shape the
+// migrations got them to, never deleted
+export async function migrateStoredChat(
+  chatId: string,
+  { write }: { write: boolean },
+): Promise<ChatMigrationReport> {
+  const store = getChatStore();
+  const chat = await store.getChat(chatId);
+  const fromVersion = chat?.schemaVersion ?? 0;
+  const stored = await store.loadChat(chatId);
+  const migrated = migrateMessages(stored, fromVersion);
+  const changed = JSON.stringify(migrated) !== JSON.stringify(stored);
+
+  const checked = await validateStoredMessages(migrated, CHAT_SCHEMA_VERSION);
+  const quarantined = checked
+    .filter(isQuarantined)
+    .map(message => ({ messageId: message.id, reason: message.metadata!.quarantined!.reason }));
+
+  if (write && chat && (changed || fromVersion < CHAT_SCHEMA_VERSION)) {
+    // swap in the upgraded messages by id; anything the app saved since we read stays as it is
+    const byId = new Map(migrated.map(message => [message.id, message]));
+    if (changed) await store.updateMessages(chatId, current => current.map(m => byId.get(m.id) ?? m));
+    // keep updatedAt, so migrating doesn't reshuffle the sidebar
+    await store.updateChat(chatId, { schemaVersion: CHAT_SCHEMA_VERSION, updatedAt: chat.updatedAt });
+  }
+  return { chatId, fromVersion, changed, quarantined };
+}
+
+// check an imported conversation as a whole: unlike stored messages nothing is
+// set aside quietly, an archive with a message that doesn't fit is rejected.
+// archives may come from an older version, so the migrations run first
+export async function validateImportedMessages(
+  messages: unknown[],
+): Promise<{ success: true; messages: MyUIMessage[] } | { success: false; error: string }> {
+  const result = await safeValidateUIMessages<MyUIMessage>({
+    messages: migrateMessages(messages as UIMessage[]),
+    metadataSchema: storedMetadataSchema,
+    tools,
+    dataSchemas: dataPartsSchema,
+  });
+  return result.success
+    ? { success: true, messages: result.data }
+    : { success: false, error: result.error.message };
+}
+
+// helper: the placeholder that stands in for a message that can't be read;
+// it keeps the id, role and tree position, but none of the content
+function quarantine(message: UIMessage, reason: string): MyUIMessage {
+  const metadata = (message.metadata ?? {}) as MyUIMessage['metadata'] & object;
+  return {
+    id: message.id,
+    role: ['user', 'assistant', 'system'].includes(message.role) ? message.role : 'assistant',
+    parts: [],
+    metadata: {
+      parentId: typeof metadata.parentId === 'string' ? metadata.parentId : null,
+      ...(typeof metadata.createdAt === 'number' && { createdAt: metadata.createdAt }),
+      quarantined: { reason: reason.slice(0, 500) },
+    },
+  };
+}
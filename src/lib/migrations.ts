@@ -0,0 +1,159 @@
+// src/lib/migrations.ts
+
+// saved messages outlive the code that wrote them. each migration upgrades
+// stored messages from one schema version to the next; on load every
+// migration newer than the chat's `schemaVersion` runs, so a change to
+// ai-tools.ts or schemas.ts no longer makes old conversations unreadable.
+// `pnpm migrate-chats` writes the upgrades back to disk
+import type { UIMessage } from 'ai';
+import { CHAT_SCHEMA_VERSION } from '../util/schemas';
+import { withParentIds } from './chat-tree';
+import type { MyUIMessage } from './chat-types';
+
+// a message (or part) as it may sit on disk: whatever shape an older version wrote
+type Stored = Record<string, unknown>;
+
+// one step in the upgrade path
+export type Migration = {
+  version: number;     // the schema version this migration upgrades to
+  description: string; // shown by the CLI
+  // must leave messages that are already current alone: chats keep getting
+  // new messages until the CLI has migrated them on disk
+  migrate: (messages: Stored[]) => Stored[];
+};
+
+// every migration, oldest first; the last one's version is CHAT_SCHEMA_VERSION
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'AI SDK 4 messages: content, toolInvocations, attachments and old part shapes become parts',
+    migrate: messages => messages.map(upgradeV4Message),
+  },
+  {
+    version: 2,
+    description: 'fill in metadata.parentId for messages saved before conversations were trees',
+    migrate: messages => withParentIds(messages as unknown as MyUIMessage[]) as unknown as Stored[],
+  },
+  {
+    version: 3,
+    description: 'calculator calls: { operation, a, b } becomes { expression }',
+    migrate: messages => messages.map(upgradeCalculatorCalls),
+  },
+];
+
+// run every migration newer than `fromVersion` (0 when a chat has no version yet)
+export function migrateMessages(messages: UIMessage[], fromVersion = 0): UIMessage[] {
+  if (MIGRATIONS[MIGRATIONS.length - 1].version !== CHAT_SCHEMA_VERSION) {
+    throw new Error(`CHAT_SCHEMA_VERSION is ${CHAT_SCHEMA_VERSION} but the last migration is for another version.`);
+  }
+  let migrated = messages as unknown as Stored[];
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) migrated = migration.migrate(migrated);
+  }
+  return migrated as unknown as UIMessage[];
+}
+
+// helper: one AI SDK 4 message in the v5 shape; v4 kept text in `content`,
+// tool calls in `toolInvocations`, files in `experimental_attachments` and the
+// timestamp at the top level
+function upgradeV4Message(message: Stored): Stored {
+  const legacy = ['content', 'toolInvocations', 'experimental_attachments', 'createdAt', 'reasoning', 'annotations'];
+  const hasLegacyParts = Array.isArray(message.parts) && message.parts.some(part => isLegacyPart(part as Stored));
+  if (!legacy.some(key => key in message) && !hasLegacyParts) return message;
+
+  const { content, toolInvocations, experimental_attachments, createdAt, reasoning } = message;
+  // v5 has none of these fields (annotations were never shown, so they go too)
+  const rest: Stored = { ...message };
+  for (const key of legacy) delete rest[key];
+
+  // v4 messages with parts already carry everything; older ones only had the fields
+  let parts: Stored[];
+  if (Array.isArray(message.parts)) {
+    parts = (message.parts as Stored[]).map(upgradeV4Part);
+  } else {
+    parts = [
+      ...(typeof reasoning === 'string' && reasoning ? [{ type: 'reasoning', text: reasoning }] : []),
+      ...(Array.isArray(toolInvocations)
+        ? toolInvocations.map(invocation => upgradeV4Part({ type: 'tool-invocation', toolInvocation: invocation }))
+        : []),
+      ...(typeof content === 'string' && content ? [{ type: 'text', text: content }] : []),
+    ];
+  }
+  if (Array.isArray(experimental_attachments)) {
+    for (const attachment of experimental_attachments as Stored[]) {
+      parts.push({
+        type: 'file',
+        mediaType: attachment.contentType ?? 'application/octet-stream',
+        filename: attachment.name,
+        url: attachment.url,
+      });
+    }
+  }
+
+  const metadata = (rest.metadata ?? {}) as Stored;
+  const timestamp = typeof createdAt === 'string' || typeof createdAt === 'number' ? new Date(createdAt).getTime() : NaN;
+  return {
+    ...rest,
+    parts,
+    ...((metadata.createdAt !== undefined || Number.isFinite(timestamp)) && {
+      metadata: { ...metadata, createdAt: metadata.createdAt ?? timestamp },
+    }),
+  };
+}
+
+// helper: the calculator used to take an operation and two numbers; it now
+// evaluates an expression, so old calls are rewritten as one ("6 * 7")
+function upgradeCalculatorCalls(message: Stored): Stored {
+  if (!Array.isArray(message.parts)) return message;
+  const symbols: Record<string, string> = { add: '+', subtract: '-', multiply: '*', divide: '/' };
+  let changed = false;
+  const parts = (message.parts as Stored[]).map(part => {
+    const input = part.input as Stored | undefined;
+    if (part.type !== 'tool-calculator' || typeof input?.operation !== 'string') return part;
+    changed = true;
+    const expression = `${input.a ?? '?'} ${symbols[input.operation] ?? '?'} ${input.b ?? '?'}`;
+    return { ...part, input: { expression } };
+  });
+  return changed ? { ...message, parts } : message;
+}
+
+// helper: part shapes only AI SDK 4 wrote
+function isLegacyPart(part: Stored): boolean {
+  return (
+    part.type === 'tool-invocation' ||
+    part.type === 'source' ||
+    (part.type === 'reasoning' && typeof part.text !== 'string') ||
+    (part.type === 'file' && typeof part.url !== 'string')
+  );
+}
+
+// helper: one AI SDK 4 part in the v5 shape (current parts come back unchanged)
+function upgradeV4Part(part: Stored): Stored {
+  if (!isLegacyPart(part)) return part;
+  switch (part.type) {
+    case 'tool-invocation': {
+      // v4 states: partial-call (still streaming), call (waiting), result (done)
+      const call = part.toolInvocation as Stored;
+      const state =
+        call.state === 'result' ? 'output-available' : call.state === 'partial-call' ? 'input-streaming' : 'input-available';
+      return {
+        type: `tool-${call.toolName}`,
+        toolCallId: call.toolCallId,
+        state,
+        input: call.args,
+        ...(state === 'output-available' && { output: call.result }),
+      };
+    }
+    case 'source': {
+      const source = part.source as Stored;
+      return { type: 'source-url', sourceId: source.id, url: source.url, title: source.title };
+    }
+    case 'reasoning':
+      return { type: 'reasoning', text: typeof part.reasoning === 'string' ? part.reasoning : '' };
+    default: {
+      // file parts: base64 `data` plus `mimeType` become a data url
+      const mediaType = typeof part.mimeType === 'string' ? part.mimeType : 'application/octet-stream';
+      return { type: 'file', mediaType, url: `data:${mediaType};base64,${String(part.data ?? '')}` };
+    }
+  }
+}
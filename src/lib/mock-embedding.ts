@@ -0,0 +1,57 @@
+// src/lib/mock-embedding.ts
+
+// a deterministic, offline embedding model: every word is hashed into one of a
+// fixed number of buckets, so texts that share words get similar vectors. it
+// knows nothing about meaning, but retrieval works well enough for local dev
+// and tests without an API key
+import type { EmbeddingModelV2 } from '@ai-sdk/provider';
+
+// build a mock model that implements the real provider spec, so it can be
+// passed anywhere an embedding model is expected (embed, embedMany, ...)
+export function createMockEmbeddingModel({
+  modelId = 'hash',
+  dimensions = 256,
+}: {
+  modelId?: string;
+  dimensions?: number;
+} = {}): EmbeddingModelV2<string> {
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    maxEmbeddingsPerCall: Infinity,
+    supportsParallelCalls: true,
+    doEmbed: async ({ values }) => ({
+      embeddings: values.map(value => embedText(value, dimensions)),
+      usage: { tokens: values.reduce((sum, value) => sum + tokenize(value).length, 0) },
+    }),
+  };
+}
+
+// helper: count each word (and each pair of neighbouring words, so phrases
+// weigh a little more) in its bucket, then scale the vector to length 1
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    vector[hash(word) % dimensions] += 1;
+    if (i > 0) vector[hash(`${words[i - 1]} ${word}`) % dimensions] += 0.5;
+  });
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length === 0 ? vector : vector.map(x => x / length);
+}
+
+// helper: lowercase words and numbers
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+// helper: FNV-1a, a small stable string hash (same input, same bucket, every run)
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,95 @@
+// src/lib/mock-model.ts
+
+// a deterministic, offline language model: handy for local dev and tests,
+// and for any feature (like chat titles) that needs a model you can fake
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+
+// decides what the mock "says" given the prompt it was called with
+export type MockRespond = (prompt: {
+  system: string;       // all system instructions joined together
+  lastUserText: string; // the text of the most recent user message
+}) => string;
+
+// by default the mock simply echoes the last thing the user said
+const echo: MockRespond = ({ lastUserText }) => `You said: ${lastUserText}`;
+
+// build a mock model that implements the real provider spec, so it can be
+// passed anywhere a LanguageModel is expected (streamText, generateText, ...)
+export function createMockLanguageModel({
+  modelId = 'mock',
+  respond = echo,
+}: {
+  modelId?: string;
+  respond?: MockRespond;
+} = {}): LanguageModelV2 {
+  // helper: run the respond function and fake a usage report for it
+  const run = (options: LanguageModelV2CallOptions) => {
+    const text = respond(readPrompt(options));
+    const inputTokens = estimateTokens(JSON.stringify(options.prompt));
+    const outputTokens = estimateTokens(text);
+    return {
+      text,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { text, usage } = run(options);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const { text, usage } = run(options);
+      // split on spaces (keeping them) so the UI sees a realistic word-by-word stream
+      const deltas = text.match(/\S+\s*|\s+/g) ?? [];
+      const parts: LanguageModelV2StreamPart[] = [
+        { type: 'stream-start', warnings: [] },
+        { type: 'text-start', id: 'text-0' },
+        ...deltas.map(delta => ({ type: 'text-delta' as const, id: 'text-0', delta })),
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop', usage },
+      ];
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+// helper: pull the bits of the prompt a respond function usually cares about
+function readPrompt({ prompt }: LanguageModelV2CallOptions) {
+  const system = prompt
+    .flatMap(m => (m.role === 'system' ? [m.content] : []))
+    .join('\n');
+  const lastUser = [...prompt].reverse().find(m => m.role === 'user');
+  const lastUserText =
+    lastUser?.role === 'user'
+      ? lastUser.content.flatMap(p => (p.type === 'text' ? [p.text] : [])).join(' ')
+      : '';
+  return { system, lastUserText };
+}
+
+// helper: a rough "4 characters per token" estimate is plenty for a mock
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
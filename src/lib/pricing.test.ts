@@ -0,0 +1,47 @@
+// src/lib/pricing.test.ts
+// which price table entry a model id is billed at, and what a call costs
+import { describe, expect, it } from 'vitest';
+import { computeCost, getModelPrice } from './pricing';
+import type { ModelPrice } from '../util/schemas';
+
+const prices: Record<string, ModelPrice> = {
+  'openai:gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+  mock: { input: 0, output: 0 },
+};
+
+describe('getModelPrice', () => {
+  it('finds a model by its exact id', () => {
+    expect(getModelPrice('openai:gpt-4o', prices)).toBe(prices['openai:gpt-4o']);
+  });
+
+  it('prices a dated snapshot like its model', () => {
+    expect(getModelPrice('openai:gpt-4.1-2025-04-14', prices)).toBe(prices['openai:gpt-4.1']);
+  });
+
+  it('covers every model of a provider listed by name', () => {
+    expect(getModelPrice('mock:echo', prices)).toBe(prices.mock);
+  });
+
+  it.each(['openai:gpt-4o-mini', 'openai:gpt-4.1-nano', 'openai:gpt-4o-mini-2024-07-18'])(
+    'does not price %s like the model its name starts with',
+    modelId => {
+      expect(getModelPrice(modelId, prices)).toBeUndefined();
+    },
+  );
+
+  it('ignores names that only exist on Object.prototype', () => {
+    expect(getModelPrice('constructor', prices)).toBeUndefined();
+  });
+});
+
+describe('computeCost', () => {
+  it('bills cached input at the cached rate', () => {
+    const cost = computeCost('openai:gpt-4o', { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 100_000 }, prices);
+    expect(cost).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10);
+  });
+
+  it('is undefined for a model without a price', () => {
+    expect(computeCost('openai:gpt-4o-mini', { inputTokens: 10, outputTokens: 10, cachedInputTokens: undefined }, prices)).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+// src/lib/pricing.ts
+
+// turns token counts into money: a price table per model ("provider:model"),
+// built-in for the models we offer and overridable with MODEL_PRICES
+import type { LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { modelPriceSchema, type ModelPrice } from '../util/schemas';
+
+// list prices in USD per million tokens; local and mock models are free
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'openai:gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'openai:gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+// the date a provider appends to a pinned model snapshot, e.g. "-2025-04-14"
+const SNAPSHOT_SUFFIX = /-\d{4}-\d{2}-\d{2}$/;
+
+// the price table for this process: the defaults, with MODEL_PRICES (a JSON
+// object like {"openai:gpt-4.1": {"input": 2, "output": 8}}) laid on top
+export function getPriceTable(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    const parsed = z.record(z.string(), modelPriceSchema).parse(JSON.parse(raw));
+    return { ...DEFAULT_PRICES, ...parsed };
+  } catch (error) {
+    console.error('ignoring invalid MODEL_PRICES:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+// the price for a model id; a dated snapshot ("openai:gpt-4.1-2025-04-14")
+// costs what its model does, and a bare provider name covers all its models.
+// other suffixes are different models ("gpt-4o-mini" is not "gpt-4o"), so
+// they get no price rather than a wrong one
+export function getModelPrice(
+  modelId: string,
+  prices: Record<string, ModelPrice> = getPriceTable(),
+): ModelPrice | undefined {
+  const candidates = [modelId, modelId.replace(SNAPSHOT_SUFFIX, ''), modelId.split(':')[0]];
+  const key = candidates.find(candidate => Object.hasOwn(prices, candidate));
+  return key === undefined ? undefined : prices[key];
+}
+
+// the cost of one call in USD; undefined when we don't know the model's price
+export function computeCost(
+  modelId: string,
+  usage: Pick<LanguageModelUsage, 'inputTokens' | 'outputTokens' | 'cachedInputTokens'>,
+  prices?: Record<string, ModelPrice>,
+): number | undefined {
+  const price = getModelPrice(modelId, prices);
+  if (!price) return undefined;
+  // cached tokens are part of the input count, billed at the cached rate
+  const cached = usage.cachedInputTokens ?? 0;
+  const fresh = Math.max((usage.inputTokens ?? 0) - cached, 0);
+  return (
+    (fresh * price.input +
+      cached * (price.cachedInput ?? price.input) +
+      (usage.outputTokens ?? 0) * price.output) /
+    1_000_000
+  );
+}
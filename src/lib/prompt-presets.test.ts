@@ -0,0 +1,19 @@
+// src/lib/prompt-presets.test.ts
+// filling {{name}} placeholders into a system prompt
+import { describe, expect, it } from 'vitest';
+import { renderPromptTemplate } from './prompt-presets';
+
+const variables = { date: '2025-01-02', time: '09:30', user_name: 'alice' };
+
+describe('renderPromptTemplate', () => {
+  it('fills in known variables', () => {
+    expect(renderPromptTemplate('Today is {{ date }}, {{time}}. Hi {{user_name}}!', variables)).toBe(
+      'Today is 2025-01-02, 09:30. Hi alice!',
+    );
+  });
+
+  it('leaves unknown and inherited names untouched', () => {
+    const template = '{{nope}} {{constructor}} {{toString}} {{__proto__}}';
+    expect(renderPromptTemplate(template, variables)).toBe(template);
+  });
+});
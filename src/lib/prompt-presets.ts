@@ -0,0 +1,105 @@
+// src/lib/prompt-presets.ts
+
+// named prompt presets kept on the server, plus the tiny template engine
+// that fills in {{variables}} in system prompts
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import {
+  promptPresetSchema,
+  type ChatSettings,
+  type PromptPreset,
+} from '../util/schemas';
+
+// presets that ship with the app; more can be added via PROMPT_PRESETS_FILE
+const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: 'default',
+    name: 'Helpful assistant',
+    description: 'The general-purpose default.',
+    settings: { systemPrompt: 'You are a helpful assistant.' },
+  },
+  {
+    id: 'concise',
+    name: 'Concise',
+    description: 'Short, direct answers.',
+    settings: {
+      systemPrompt:
+        'You are a helpful assistant. Answer as briefly as possible; use bullet points when listing. Today is {{date}}.',
+      temperature: 0.3,
+      maxOutputTokens: 400,
+    },
+  },
+  {
+    id: 'tutor',
+    name: 'Patient tutor',
+    description: 'Explains step by step and checks understanding.',
+    settings: {
+      systemPrompt:
+        'You are a patient tutor talking to {{user_name}}. Explain concepts step by step, use small examples, and end with a short question that checks understanding.',
+      temperature: 0.7,
+    },
+  },
+  {
+    id: 'code-reviewer',
+    name: 'Code reviewer',
+    description: 'Reviews code for bugs, clarity and style.',
+    settings: {
+      systemPrompt:
+        'You are a meticulous senior engineer reviewing code. Point out bugs first, then clarity and style issues. Quote the lines you refer to.',
+      temperature: 0.2,
+    },
+  },
+];
+
+// all presets: built-ins first, then any from the optional JSON file
+// (a file preset with the same id replaces the built-in one)
+export function listPresets(): PromptPreset[] {
+  const fromFile = readPresetFile();
+  const byId = new Map<string, PromptPreset>();
+  for (const preset of [...BUILT_IN_PRESETS, ...fromFile]) byId.set(preset.id, preset);
+  return [...byId.values()];
+}
+
+// the settings a chat uses until the user changes them
+export function getDefaultSettings(): ChatSettings {
+  const preset = listPresets().find(p => p.id === 'default') ?? BUILT_IN_PRESETS[0];
+  return { ...preset.settings, presetId: preset.id };
+}
+
+// the variables a system prompt template may use
+export type PromptVariables = {
+  date: string;      // e.g. 2025-01-31
+  time: string;      // e.g. 14:05 (server time)
+  user_name: string; // who we're talking to
+};
+
+// the variables for "now" and the given user
+export function getPromptVariables({ userName }: { userName?: string } = {}): PromptVariables {
+  const now = new Date();
+  return {
+    date: now.toISOString().slice(0, 10),
+    time: now.toTimeString().slice(0, 5),
+    user_name: userName || 'the user',
+  };
+}
+
+// replace {{name}} placeholders; unknown names (inherited ones like
+// {{constructor}} included) are left untouched so typos stay visible
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.hasOwn(variables, name) ? variables[name as keyof PromptVariables] : match,
+  );
+}
+
+// helper: read extra presets from PROMPT_PRESETS_FILE (a JSON array); a broken
+// file is logged and ignored rather than taking the chat down
+function readPresetFile(): PromptPreset[] {
+  const file = process.env.PROMPT_PRESETS_FILE;
+  if (!file) return [];
+  try {
+    return z.array(promptPresetSchema).parse(JSON.parse(readFileSync(file, 'utf8')));
+  } catch (error) {
+    console.error(`ignoring invalid PROMPT_PRESETS_FILE (${file}):`, error);
+    return [];
+  }
+}
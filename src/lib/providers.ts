@@ -0,0 +1,124 @@
+// src/lib/providers.ts
+
+// one registry for every model the app can talk to, addressed as
+// "provider:model" (e.g. "openai:gpt-4.1", "local:llama3.2", "mock:echo")
+import { openai } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createProviderRegistry, customProvider, type EmbeddingModel, type LanguageModel } from 'ai';
+import { createMockEmbeddingModel } from './mock-embedding';
+import { createMockLanguageModel } from './mock-model';
+
+// what the model picker shows for each choice
+export type ModelOption = {
+  id: string;    // registry id, "provider:model"
+  label: string; // human-friendly name for the picker
+};
+
+// the model used when a chat hasn't picked one (or picked one we no longer allow)
+export const DEFAULT_MODEL_ID = process.env.DEFAULT_MODEL ?? 'openai:gpt-4.1';
+
+// OpenAI-compatible local servers (Ollama, LM Studio, vLLM, ...) share one provider;
+// Ollama's default address is assumed unless LOCAL_LLM_BASE_URL says otherwise
+const local = createOpenAICompatible({
+  name: 'local',
+  baseURL: process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1',
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+});
+
+// the embedding model the document collection is indexed with
+// ("openai:text-embedding-3-small", "local:nomic-embed-text", "mock:hash", ...)
+export const EMBEDDING_MODEL_ID = process.env.EMBEDDING_MODEL ?? 'openai:text-embedding-3-small';
+
+// deterministic offline models for demos and tests: `echo` echoes the user,
+// `title` and `summary` stand in for the background jobs below (the first few
+// words, or the start of the transcript), and `hash` embeds text by hashing its words
+const mock = customProvider({
+  languageModels: {
+    echo: createMockLanguageModel({ modelId: 'echo' }),
+    title: createMockLanguageModel({
+      modelId: 'title',
+      respond: ({ lastUserText }) =>
+        lastUserText.replace(/^User:\s*/, '').split(/\s+/).slice(0, 6).join(' '),
+    }),
+    summary: createMockLanguageModel({
+      modelId: 'summary',
+      respond: ({ lastUserText }) => lastUserText.slice(0, 500),
+    }),
+  },
+  textEmbeddingModels: {
+    hash: createMockEmbeddingModel({ modelId: 'hash' }),
+  },
+});
+
+// the registry resolves "provider:model" ids into model instances
+export const registry = createProviderRegistry({ openai, local, mock });
+
+// the models users may pick; the server rejects anything not on this list
+export function listModels(): ModelOption[] {
+  const openaiModels = ['gpt-4.1', 'gpt-4.1-mini', 'gpt-4o'].map(model => ({
+    id: `openai:${model}`,
+    label: `OpenAI ${model}`,
+  }));
+
+  // local models are only offered when you say which ones are installed
+  const localModels = (process.env.LOCAL_LLM_MODELS ?? '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean)
+    .map(model => ({ id: `local:${model}`, label: `Local ${model}` }));
+
+  const mockModels = [{ id: 'mock:echo', label: 'Mock (echo, offline)' }];
+
+  const models = [...openaiModels, ...localModels, ...mockModels];
+  // a custom DEFAULT_MODEL is always allowed, even if it isn't in the lists above
+  if (!models.some(model => model.id === DEFAULT_MODEL_ID)) {
+    models.unshift({ id: DEFAULT_MODEL_ID, label: DEFAULT_MODEL_ID });
+  }
+  return models;
+}
+
+// server-side allow-list check for a model id coming from the client
+export function isAllowedModel(modelId: string): boolean {
+  return listModels().some(model => model.id === modelId);
+}
+
+// resolve an allowed model id to a model instance
+export function getLanguageModel(modelId: string): LanguageModel {
+  return registry.languageModel(modelId as Parameters<typeof registry.languageModel>[0]);
+}
+
+// the model for a background job (chat titles, context summaries): the
+// registry id its setting names, else a small OpenAI model, or the deploy's
+// own DEFAULT_MODEL when it has set one (so a deploy without OpenAI works as is)
+export function getBackgroundModel(configuredId: string | undefined): LanguageModel {
+  return getLanguageModel(configuredId ?? (process.env.DEFAULT_MODEL ? DEFAULT_MODEL_ID : 'openai:gpt-4.1-mini'));
+}
+
+// resolve an embedding model id (the configured one by default)
+export function getEmbeddingModel(modelId = EMBEDDING_MODEL_ID): EmbeddingModel<string> {
+  return registry.textEmbeddingModel(modelId as Parameters<typeof registry.textEmbeddingModel>[0]);
+}
+
+// how many tokens (prompt + answer) each model can take in one call; models not
+// listed here get a conservative default so long chats are trimmed rather than rejected
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'openai:gpt-4.1': 1_047_576,
+  'openai:gpt-4.1-mini': 1_047_576,
+  'openai:gpt-4o': 128_000,
+  'mock:echo': 4_096,
+};
+
+// the context window of a model; local models share LOCAL_LLM_CONTEXT_WINDOW
+// because every local server is configured differently
+export function getContextWindow(modelId: string): number {
+  if (modelId.startsWith('local:')) {
+    return readPositiveInt(process.env.LOCAL_LLM_CONTEXT_WINDOW, 8_192);
+  }
+  return CONTEXT_WINDOWS[modelId] ?? 8_192;
+}
+
+// helper: parse an env var as a positive integer, falling back when it isn't one
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,31 @@
+// src/lib/search.ts
+
+// shared by GET /api/search and the search page: turn a checked query string
+// into index filters and run it against the signed-in user's chats
+import { getChatStore } from '../util/chat-store';
+import type { SearchQuery } from '../util/schemas';
+import type { SearchHit } from '../util/search-index';
+
+export async function searchChats(query: SearchQuery, ownerId: string): Promise<SearchHit[]> {
+  return getChatStore().search(query.q, {
+    ownerId,
+    role: query.role,
+    chatId: query.chat,
+    from: query.from ? Date.parse(`${query.from}T00:00:00Z`) : undefined,
+    // `to` is inclusive: everything before the next day starts
+    to: query.to ? Date.parse(`${query.to}T00:00:00Z`) + 24 * 60 * 60 * 1000 - 1 : undefined,
+    limit: query.limit,
+  });
+}
+
+// split text into plain and matching pieces so the UI can wrap matches in <mark>;
+// `terms` are the indexed words a hit matched, highlighted wherever they appear as whole words
+export function highlight(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(piece => ({ text: piece, match: terms.includes(piece.toLowerCase()) }));
+}
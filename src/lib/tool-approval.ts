@@ -0,0 +1,156 @@
+// src/lib/tool-approval.ts
+
+// human-in-the-loop helpers: tools marked `requiresApproval` are handed to the
+// model without `execute`, so the SDK stops at the tool call; the call is then
+// persisted, the user approves or denies it, and only then do we run it here
+import {
+  convertToModelMessages,
+  getToolName,
+  isToolUIPart,
+  type InferUIMessageChunk,
+  type ToolSet,
+  type ToolUIPart,
+} from 'ai';
+import { toolRequiresApproval, tools, type AppToolName, type AppUITools } from './ai-tools';
+import type { MyUIMessage } from './chat-types';
+import type { ToolContext } from './tool-registry';
+
+// what the client sends back for a pending call
+export type ToolApprovalDecision = {
+  toolCallId: string;
+  approved: boolean;
+  reason?: string; // optional note from the user, passed on to the model
+};
+
+// the structured tool result the model sees when a call is denied
+export type ToolDenial = {
+  approved: false;
+  reason: string;
+};
+
+// a single entry from message.parts, and a chunk of our UI message stream
+type MyPart = MyUIMessage['parts'][number];
+type MyChunk = InferUIMessageChunk<MyUIMessage>;
+
+// the tool set handed to the model: only the tools the chat has enabled;
+// approval-gated tools keep their schema (so the model can still call them)
+// but lose `execute` (so nothing runs yet)
+export function getModelTools(enabled: AppToolName[]): ToolSet {
+  return Object.fromEntries(
+    Object.entries(tools as ToolSet)
+      .filter(([name]) => enabled.includes(name as AppToolName))
+      .map(([name, definition]) => [
+        name,
+        toolRequiresApproval(name) ? { ...definition, execute: undefined } : definition,
+      ]),
+  );
+}
+
+// true when some approval-gated call in the latest assistant message still waits
+export function hasPendingApprovals(messages: MyUIMessage[]): boolean {
+  const last = messages[messages.length - 1];
+  return last?.role === 'assistant' && last.parts.some(isPendingApproval);
+}
+
+// the stored message that holds a given tool call (undefined if none does)
+export function findToolCallMessage(
+  messages: MyUIMessage[],
+  toolCallId: string,
+): MyUIMessage | undefined {
+  return messages.find(message =>
+    message.parts.some(part => isToolUIPart(part) && part.toolCallId === toolCallId),
+  );
+}
+
+// resolve one pending call: run the tool if approved, or record a structured
+// denial; returns the updated messages plus the chunk that tells the client
+// (null when there is no such pending call)
+export async function applyToolApproval(
+  messages: MyUIMessage[],
+  decision: ToolApprovalDecision,
+  context: ToolContext,
+): Promise<{ messages: MyUIMessage[]; chunk: MyChunk } | null> {
+  const lastIndex = messages.length - 1;
+  const last = messages[lastIndex];
+  if (last?.role !== 'assistant') return null;
+
+  const part = last.parts
+    .filter(isPendingApproval)
+    .find(p => p.toolCallId === decision.toolCallId);
+  if (!part) return null;
+
+  let resolved: MyPart;
+  let chunk: MyChunk;
+
+  if (!decision.approved) {
+    const output: ToolDenial = {
+      approved: false,
+      reason: decision.reason?.trim() || 'The user denied this tool call.',
+    };
+    resolved = settle(part, { state: 'output-available', output });
+    chunk = { type: 'tool-output-available', toolCallId: part.toolCallId, output };
+  } else {
+    // run the real tool now that the user said yes
+    const definition = (tools as ToolSet)[getToolName(part)];
+    try {
+      const output = await definition.execute?.(part.input, {
+        toolCallId: part.toolCallId,
+        messages: convertToModelMessages(messages.slice(0, lastIndex)),
+        experimental_context: context,
+      });
+      resolved = settle(part, { state: 'output-available', output });
+      chunk = { type: 'tool-output-available', toolCallId: part.toolCallId, output };
+    } catch (error) {
+      const errorText = error instanceof Error ? error.message : String(error);
+      resolved = settle(part, { state: 'output-error', errorText });
+      chunk = { type: 'tool-output-error', toolCallId: part.toolCallId, errorText };
+    }
+  }
+
+  const updated: MyUIMessage = {
+    ...last,
+    parts: last.parts.map(p => (p === part ? resolved : p)),
+  };
+  return { messages: [...messages.slice(0, lastIndex), updated], chunk };
+}
+
+// deny every call that is still waiting; used when the user moves on by sending
+// a new message, so the model never sees a tool call without a result
+export function denyPendingApprovals(
+  messages: MyUIMessage[],
+  reason = 'The user did not respond to the approval request.',
+): MyUIMessage[] {
+  return messages.map(message =>
+    message.parts.some(isPendingApproval)
+      ? {
+          ...message,
+          parts: message.parts.map(part =>
+            isPendingApproval(part)
+              ? settle(part, {
+                  state: 'output-available',
+                  output: { approved: false, reason } satisfies ToolDenial,
+                })
+              : part,
+          ),
+        }
+      : message,
+  );
+}
+
+// helper: an approval-gated tool call that has its input but no result yet
+function isPendingApproval(part: MyPart): part is ToolUIPart<AppUITools> {
+  return (
+    isToolUIPart(part) &&
+    part.state === 'input-available' &&
+    toolRequiresApproval(getToolName(part))
+  );
+}
+
+// helper: move a pending call to its final state; the parts union is too wide
+// for TypeScript to follow the spread, hence the cast
+function settle(
+  part: ToolUIPart<AppUITools>,
+  result: { state: 'output-available'; output: unknown } | { state: 'output-error'; errorText: string },
+): MyPart {
+  return { ...part, ...result } as unknown as MyPart;
+}
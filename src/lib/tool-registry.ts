@@ -0,0 +1,165 @@
+// src/lib/tool-registry.ts
+
+// the plumbing every app tool shares. a tool is declared once with
+// defineTool (name, schema, timeout, policy, how its errors read) and the
+// registry turns the declarations into the AI SDK tool set: each call runs
+// with a deadline, and whatever goes wrong comes back to the model (and the
+// page) as an `output-error` part whose errorText is a small JSON object
+// { code, message } instead of a stack trace or a silent NaN
+import { tool, type Tool, type ToolCallOptions } from 'ai';
+import type { z } from 'zod';
+import type { DataPartWriter } from './data-parts';
+
+// how long a tool may run when its declaration doesn't say
+export const DEFAULT_TOOL_TIMEOUT_MS = 10_000;
+
+// what kind of failure a tool call ended in
+export type ToolErrorCode =
+  | 'invalid_input'  // the input parsed, but makes no sense (e.g. division by zero)
+  | 'not_allowed'    // refused by policy (e.g. a domain that isn't on the allow-list)
+  | 'timeout'        // ran past its timeout
+  | 'upstream_error' // a service the tool depends on failed
+  | 'failed';        // anything else
+
+// the structured error an `output-error` part carries (JSON in its errorText)
+export type ToolErrorInfo = {
+  code: ToolErrorCode;
+  message: string;
+};
+
+// what the chat route hands every tool call (streamText's experimental_context),
+// so tools can act on behalf of the user who asked
+export type ToolContext = {
+  userId: string;
+  // adds a data part (e.g. a table) to the answer being streamed; missing
+  // when a call runs outside one (an approved call runs before the answer)
+  writeData?: DataPartWriter;
+};
+
+// what a tool's execute receives besides its input
+export type ToolRunContext = Partial<ToolContext> & {
+  signal: AbortSignal; // fires on timeout or when the request goes away; pass it to fetch
+};
+
+// one tool as the app declares it
+export type AppToolDefinition<NAME extends string, INPUT, OUTPUT> = {
+  name: NAME;                  // the key in `tools`, and the part type (`tool-<name>`)
+  label: string;               // what the per-chat tool list shows
+  description: string;         // what the model reads to decide when to call it
+  inputSchema: z.ZodType<INPUT>;
+  timeoutMs?: number;          // DEFAULT_TOOL_TIMEOUT_MS when missing
+  requiresApproval?: boolean;  // stop at the call until the user approves it
+  enabledByDefault?: boolean;  // on for chats that haven't chosen (default true)
+  // turn an unexpected error into something the model can act on; errors
+  // thrown with toolFailure() already are, and skip this
+  describeError?: (error: unknown) => ToolErrorInfo | undefined;
+  execute(input: INPUT, context: ToolRunContext): Promise<OUTPUT>;
+};
+
+// the parts of a declaration needed to run calls; tools that don't come from
+// defineTool (e.g. those of MCP servers, see mcp.ts) are run through this too
+export type ToolRunner<INPUT, OUTPUT> = Pick<
+  AppToolDefinition<string, INPUT, OUTPUT>,
+  'name' | 'timeoutMs' | 'describeError' | 'execute'
+>;
+
+// any declaration, whatever its name and types (every tool's input and
+// output fit `unknown`; `execute` is a method, so its parameter does too)
+export type AnyToolDefinition = AppToolDefinition<string, unknown, unknown>;
+
+// the tool set built from a list of declarations, keyed by name, with each
+// tool's input and output types intact (so InferUITools still works)
+export type ToolSetOf<DEFS extends readonly AnyToolDefinition[]> = {
+  [DEF in DEFS[number] as DEF['name']]: DEF extends AppToolDefinition<string, infer INPUT, infer OUTPUT>
+    ? Tool<INPUT, OUTPUT>
+    : never;
+};
+
+// declare a tool; only here to keep the name a literal type
+export function defineTool<const NAME extends string, INPUT, OUTPUT>(
+  definition: AppToolDefinition<NAME, INPUT, OUTPUT>,
+): AppToolDefinition<NAME, INPUT, OUTPUT> {
+  return definition;
+}
+
+// an error a tool throws on purpose: its code and message reach the model as they are
+export function toolFailure(code: ToolErrorCode, message: string): Error & { toolError: ToolErrorInfo } {
+  return Object.assign(new Error(message), { toolError: { code, message } });
+}
+
+// build the AI SDK tool set from the declarations
+export function createToolSet<const DEFS extends readonly AnyToolDefinition[]>(definitions: DEFS): ToolSetOf<DEFS> {
+  return Object.fromEntries(
+    definitions.map(definition => [
+      definition.name,
+      tool({
+        description: definition.description,
+        inputSchema: definition.inputSchema,
+        execute: createToolExecute(definition),
+      }),
+    ]),
+  ) as ToolSetOf<DEFS>;
+}
+
+// the `execute` the AI SDK calls: runs the tool with its deadline and the
+// chat's context, and reports failures as { code, message } JSON
+export function createToolExecute<INPUT, OUTPUT>(
+  runner: ToolRunner<INPUT, OUTPUT>,
+): (input: INPUT, options: ToolCallOptions) => Promise<OUTPUT> {
+  return (input, options) =>
+    runTool(runner, input, {
+      ...(options.experimental_context as ToolContext | undefined),
+      abortSignal: options.abortSignal,
+    });
+}
+
+// read an `output-error` part's errorText back (undefined for plain-text
+// errors, e.g. from before the registry or from the SDK's own input checks)
+export function parseToolError(errorText: string | undefined): ToolErrorInfo | undefined {
+  try {
+    const parsed = JSON.parse(errorText ?? '');
+    return typeof parsed?.code === 'string' && typeof parsed?.message === 'string' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// helper: run one call with its deadline; every failure is rethrown as an
+// Error whose message is the JSON ToolErrorInfo, which the SDK turns into the
+// errorText of an `output-error` part
+async function runTool<INPUT, OUTPUT>(
+  definition: ToolRunner<INPUT, OUTPUT>,
+  input: INPUT,
+  { abortSignal, ...context }: Partial<ToolContext> & { abortSignal?: AbortSignal },
+): Promise<OUTPUT> {
+  const timeoutMs = definition.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = abortSignal ? AbortSignal.any([abortSignal, timeout]) : timeout;
+
+  try {
+    // a tool that ignores the signal still can't hold the answer up
+    return await Promise.race([
+      definition.execute(input, { ...context, signal }),
+      new Promise<never>((_, reject) => {
+        if (signal.aborted) reject(signal.reason);
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      }),
+    ]);
+  } catch (error) {
+    const info: ToolErrorInfo = timeout.aborted
+      ? { code: 'timeout', message: `${definition.name} did not finish within ${timeoutMs / 1000} seconds.` }
+      : describeToolError(definition, error);
+    throw new Error(JSON.stringify(info));
+  }
+}
+
+// helper: the ToolErrorInfo for anything a tool threw
+function describeToolError(definition: Pick<AnyToolDefinition, 'name' | 'describeError'>, error: unknown): ToolErrorInfo {
+  const deliberate = (error as { toolError?: ToolErrorInfo } | null)?.toolError;
+  if (deliberate) return deliberate;
+  const described = definition.describeError?.(error);
+  if (described) return described;
+  // unexpected errors are logged in full but only their message goes to the model
+  console.error(`tool ${definition.name} failed:`, error);
+  return { code: 'failed', message: error instanceof Error ? error.message : String(error) };
+}
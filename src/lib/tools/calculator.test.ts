@@ -0,0 +1,16 @@
+// src/lib/tools/calculator.test.ts
+// the calculator's own names work; everything else, inherited ones included, is unknown
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+
+describe('evaluateExpression', () => {
+  it('uses its constants and functions', () => {
+    expect(evaluateExpression('2 * pi')).toBeCloseTo(2 * Math.PI);
+    expect(evaluateExpression('sqrt(16) + 1')).toBe(5);
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('treats %s as an unknown name', name => {
+    expect(() => evaluateExpression(name)).toThrow(/Unknown name/);
+    expect(() => evaluateExpression(`${name}(1)`)).toThrow(/Unknown function/);
+  });
+});
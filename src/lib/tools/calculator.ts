@@ -0,0 +1,189 @@
+// src/lib/tools/calculator.ts
+
+// evaluates arithmetic the model shouldn't do in its head. the expression is
+// parsed by a small recursive-descent parser (never eval): numbers, + - * / %
+// ^, parentheses, a few constants and Math functions, and nothing else
+import { z } from 'zod';
+import { defineTool, toolFailure } from '../tool-registry';
+
+// the longest expression accepted, and how deeply it may nest
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 50;
+
+// names the expression may use
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  trunc: Math.trunc,
+  sign: Math.sign,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+  hypot: Math.hypot,
+};
+
+export const calculatorTool = defineTool({
+  name: 'calculator',
+  label: 'Calculator',
+  description:
+    'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    `the constants ${Object.keys(CONSTANTS).join(', ')} and the functions ${Object.keys(FUNCTIONS).join(', ')} ` +
+    '(log is base 10, ln is natural, angles are in radians).',
+  inputSchema: z.object({
+    expression: z.string().min(1).max(MAX_LENGTH).describe('e.g. "(3 + 4) * 2 ^ 3 / sqrt(16)"'),
+  }),
+  timeoutMs: 1_000,
+  execute: async ({ expression }: { expression: string }) => evaluateExpression(expression),
+});
+
+// the value of an expression; anything it can't evaluate (bad syntax, unknown
+// names, division by zero, results that aren't finite) is an invalid_input failure
+export function evaluateExpression(expression: string): number {
+  const parser = createParser(tokenize(expression));
+  const value = parser.parseExpression(0);
+  parser.expectEnd();
+  if (!Number.isFinite(value)) throw toolFailure('invalid_input', 'The result is not a finite number.');
+  // 0.1 + 0.2 should say 0.3: drop the last few digits of floating-point noise
+  return Number(value.toPrecision(15));
+}
+
+// a token: a number, a name, or a single operator/bracket/comma
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'symbol'; value: string };
+
+// helper: split the expression into tokens (× ÷ and ** are accepted as * / ^)
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const text = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\*\*/g, '^');
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const space = /^\s+/.exec(rest);
+    const number = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    const name = /^[a-zA-Z_][a-zA-Z_0-9]*/.exec(rest);
+    if (space) {
+      i += space[0].length;
+    } else if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]) });
+      i += number[0].length;
+    } else if (name) {
+      tokens.push({ kind: 'name', value: name[0].toLowerCase() });
+      i += name[0].length;
+    } else if ('+-*/%^(),'.includes(text[i])) {
+      tokens.push({ kind: 'symbol', value: text[i] });
+      i += 1;
+    } else {
+      throw toolFailure('invalid_input', `Unexpected character "${text[i]}" at position ${i + 1}.`);
+    }
+  }
+  return tokens;
+}
+
+// helper: a recursive-descent parser over the tokens; precedence from low to
+// high is + -, then * / %, then unary minus, then ^ (right-associative, so
+// -2^2 is -4 and 2^3^2 is 512)
+function createParser(tokens: Token[]) {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.kind === 'symbol' && peek()!.value === value;
+  const fail = (message: string): never => {
+    throw toolFailure('invalid_input', message);
+  };
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) fail(`Expected "${value}".`);
+    position += 1;
+  };
+
+  const parseExpression = (depth: number): number => {
+    if (depth > MAX_DEPTH) fail('The expression is nested too deeply.');
+    let value = parseTerm(depth);
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value;
+      const right = parseTerm(depth);
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (depth: number): number => {
+    let value = parseUnary(depth);
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary(depth);
+      if (operator !== '*' && right === 0) fail('Division by zero.');
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (depth: number): number => {
+    if (isSymbol('-') || isSymbol('+')) {
+      const operator = tokens[position++].value;
+      const value = parseUnary(depth + 1);
+      return operator === '-' ? -value : value;
+    }
+    return parsePower(depth);
+  };
+
+  const parsePower = (depth: number): number => {
+    const base = parsePrimary(depth);
+    if (!isSymbol('^')) return base;
+    position += 1;
+    return Math.pow(base, parseUnary(depth + 1));
+  };
+
+  const parsePrimary = (depth: number): number => {
+    const token = peek();
+    if (!token) return fail('The expression ends too early.');
+    position += 1;
+
+    if (token.kind === 'number') return token.value;
+
+    if (token.kind === 'symbol') {
+      if (token.value !== '(') return fail(`Unexpected "${token.value}".`);
+      const value = parseExpression(depth + 1);
+      expectSymbol(')');
+      return value;
+    }
+
+    // a name: a function when followed by "(", otherwise a constant; only the
+    // tables' own keys count, so "constructor" or "toString" are unknown too
+    if (isSymbol('(')) {
+      if (!Object.hasOwn(FUNCTIONS, token.value)) fail(`Unknown function "${token.value}".`);
+      const fn = FUNCTIONS[token.value];
+      position += 1;
+      const args = [parseExpression(depth + 1)];
+      while (isSymbol(',')) {
+        position += 1;
+        args.push(parseExpression(depth + 1));
+      }
+      expectSymbol(')');
+      return fn(...args);
+    }
+    if (!Object.hasOwn(CONSTANTS, token.value)) fail(`Unknown name "${token.value}".`);
+    return CONSTANTS[token.value];
+  };
+
+  return {
+    parseExpression,
+    expectEnd: () => {
+      const token = peek();
+      if (token) fail(`Unexpected "${token.value}" after the end of the expression.`);
+    },
+  };
+}
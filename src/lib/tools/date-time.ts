@@ -0,0 +1,116 @@
+// src/lib/tools/date-time.ts
+
+// dates and times the model can't know (what time is it now?) or easily gets
+// wrong (time zones, "90 days from today", days between two dates). one tool
+// with an `operation`, since model APIs want a flat object as tool input
+import { z } from 'zod';
+import { defineTool, toolFailure } from '../tool-registry';
+
+// what the tool can do
+const OPERATIONS = ['now', 'convert', 'add', 'difference'] as const;
+// units for `add` and `difference`, in milliseconds (months and years are
+// calendar units and handled separately)
+const UNIT_MS = { minutes: 60_000, hours: 3_600_000, days: 86_400_000, weeks: 604_800_000 } as const;
+const UNITS = ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] as const;
+type Unit = (typeof UNITS)[number];
+
+type DateTimeInput = {
+  operation: (typeof OPERATIONS)[number];
+  date?: string;
+  to?: string;
+  timeZone?: string;
+  amount?: number;
+  unit?: Unit;
+};
+
+export const dateTimeTool = defineTool({
+  name: 'dateTime',
+  label: 'Date & time',
+  description:
+    'Date and time helper. operation "now": the current date and time (in timeZone, default UTC). ' +
+    '"convert": show `date` in timeZone. "add": add `amount` `unit`s to `date` (default now; negative amounts go back). ' +
+    '"difference": time from `date` to `to` in `unit` (default days). Dates are ISO 8601, e.g. 2025-03-01 or 2025-03-01T14:30:00Z.',
+  inputSchema: z.object({
+    operation: z.enum(OPERATIONS),
+    date: z.string().max(64).optional().describe('ISO 8601 date or date-time'),
+    to: z.string().max(64).optional().describe('Second date, for "difference"'),
+    timeZone: z.string().max(64).optional().describe('IANA time zone, e.g. Europe/Berlin'),
+    amount: z.number().optional().describe('For "add"'),
+    unit: z.enum(UNITS).optional(),
+  }),
+  timeoutMs: 1_000,
+  execute: async ({ operation, date, to, timeZone = 'UTC', amount, unit }: DateTimeInput) => {
+    checkTimeZone(timeZone);
+    switch (operation) {
+      case 'now':
+        return describeDate(new Date(), timeZone);
+      case 'convert':
+        return describeDate(parseDate(date, 'date'), timeZone);
+      case 'add': {
+        if (amount === undefined) throw toolFailure('invalid_input', '"add" needs an amount.');
+        const start = date ? parseDate(date, 'date') : new Date();
+        return describeDate(addTime(start, amount, unit ?? 'days'), timeZone);
+      }
+      case 'difference': {
+        const from = parseDate(date, 'date');
+        const until = parseDate(to, 'to');
+        const inUnit = unit ?? 'days';
+        return { from: from.toISOString(), to: until.toISOString(), unit: inUnit, value: difference(from, until, inUnit) };
+      }
+    }
+  },
+});
+
+// helper: an instant spelled out for the model: ISO (UTC), local wall time and weekday
+function describeDate(date: Date, timeZone: string) {
+  const format = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat('en-US', { timeZone, ...options }).format(date);
+  return {
+    iso: date.toISOString(),
+    timeZone,
+    local: format({ dateStyle: 'full', timeStyle: 'long' }),
+    weekday: format({ weekday: 'long' }),
+  };
+}
+
+// helper: parse an ISO date, naming the field when it's missing or invalid
+function parseDate(value: string | undefined, field: string): Date {
+  if (!value) throw toolFailure('invalid_input', `"${field}" is required for this operation.`);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw toolFailure('invalid_input', `"${value}" is not an ISO 8601 date.`);
+  return date;
+}
+
+// helper: Intl throws a RangeError for unknown zones; say so in words
+function checkTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw toolFailure('invalid_input', `Unknown time zone "${timeZone}". Use an IANA name like Europe/Berlin.`);
+  }
+}
+
+// helper: add an amount of a unit; months and years follow the calendar (in
+// UTC), and a day the target month doesn't have becomes its last day
+// (January 31 plus one month is February 28 or 29)
+function addTime(date: Date, amount: number, unit: Unit): Date {
+  if (unit === 'months' || unit === 'years') {
+    const result = new Date(date);
+    result.setUTCMonth(result.getUTCMonth() + Math.trunc(amount) * (unit === 'years' ? 12 : 1));
+    if (result.getUTCDate() !== date.getUTCDate()) result.setUTCDate(0);
+    return result;
+  }
+  return new Date(date.getTime() + amount * UNIT_MS[unit]);
+}
+
+// helper: `to` minus `from` in a unit (whole calendar months/years, fractions otherwise)
+function difference(from: Date, to: Date, unit: Unit): number {
+  if (unit === 'months' || unit === 'years') {
+    let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    // not a whole month yet when the day of the month hasn't come round
+    if (months > 0 && addTime(from, months, 'months') > to) months -= 1;
+    if (months < 0 && addTime(from, months, 'months') < to) months += 1;
+    return unit === 'years' ? Math.trunc(months / 12) : months;
+  }
+  return Math.round(((to.getTime() - from.getTime()) / UNIT_MS[unit]) * 1000) / 1000;
+}
@@ -0,0 +1,139 @@
+// src/lib/tools/http-fetch.ts
+
+// lets the model read a web page or JSON API, but only on domains the deploy
+// allows (FETCH_ALLOWED_DOMAINS): the server makes the request, so an open
+// fetch tool would let anyone reach whatever the server can. redirects are
+// followed by hand so every hop is checked against the list too
+import { z } from 'zod';
+import { defineTool, toolFailure } from '../tool-registry';
+
+// how many redirects one call follows
+const MAX_REDIRECTS = 3;
+// content types the tool reads; anything else (images, zips, ...) is refused
+const TEXT_TYPES = /^(text\/|application\/(json|xml|[\w.+-]+\+json|[\w.+-]+\+xml)\b)/;
+
+// the domains the tool may fetch from (FETCH_ALLOWED_DOMAINS, comma-separated);
+// "example.com" also allows its subdomains. empty means nothing is allowed
+export function getFetchAllowedDomains(): string[] {
+  return (process.env.FETCH_ALLOWED_DOMAINS ?? '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean);
+}
+
+// the most of a response body the model gets (FETCH_MAX_BYTES, 100 KB by default)
+export function getFetchMaxBytes(): number {
+  const parsed = Number.parseInt(process.env.FETCH_MAX_BYTES ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 100 * 1024;
+}
+
+export const httpFetchTool = defineTool({
+  name: 'fetchUrl',
+  label: 'Fetch web pages (allowed sites only)',
+  description:
+    'Fetch a web page or JSON document with an HTTP GET and return its text (HTML is reduced to plain text). ' +
+    'Only some domains are allowed; a refused domain comes back as a not_allowed error.',
+  inputSchema: z.object({
+    url: z.string().url().max(2000).describe('An absolute http(s) URL'),
+  }),
+  timeoutMs: 15_000,
+  // it reaches outside the app, so chats opt in to it
+  enabledByDefault: false,
+  describeError: error =>
+    error instanceof TypeError ? { code: 'upstream_error', message: `The request failed: ${error.message}` } : undefined,
+  execute: async ({ url }: { url: string }, { signal }) => {
+    let target = checkUrl(url);
+    for (let hop = 0; ; hop++) {
+      const res = await fetch(target, { signal, redirect: 'manual', headers: { accept: 'text/html, application/json, text/*' } });
+
+      const location = res.headers.get('location');
+      if (res.status >= 300 && res.status < 400 && location) {
+        if (hop >= MAX_REDIRECTS) throw toolFailure('upstream_error', `More than ${MAX_REDIRECTS} redirects.`);
+        target = checkUrl(new URL(location, target).toString());
+        continue;
+      }
+
+      const contentType = res.headers.get('content-type') ?? '';
+      if (!TEXT_TYPES.test(contentType)) {
+        await res.body?.cancel();
+        throw toolFailure('not_allowed', `Only text, HTML and JSON can be fetched (got ${contentType || 'no content type'}).`);
+      }
+      const { text, truncated } = await readText(res, getFetchMaxBytes());
+      return {
+        url: target.toString(),
+        status: res.status,
+        contentType,
+        text: contentType.startsWith('text/html') ? htmlToText(text) : text,
+        truncated,
+      };
+    }
+  },
+});
+
+// helper: parse a url and check it against the allow-list
+function checkUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw toolFailure('invalid_input', `"${url}" is not a valid URL.`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw toolFailure('not_allowed', 'Only http and https URLs can be fetched.');
+  }
+  if (parsed.username || parsed.password) throw toolFailure('not_allowed', 'URLs with credentials are not fetched.');
+
+  const host = parsed.hostname.toLowerCase();
+  const allowed = getFetchAllowedDomains();
+  if (allowed.length === 0) throw toolFailure('not_allowed', 'Fetching is not enabled on this server (no domains are allowed).');
+  if (!allowed.some(domain => host === domain || host.endsWith(`.${domain}`))) {
+    throw toolFailure('not_allowed', `${host} is not on the list of allowed domains.`);
+  }
+  return parsed;
+}
+
+// helper: read a body as text, stopping after `maxBytes`
+async function readText(res: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!res.body) return { text: '', truncated: false };
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size >= maxBytes) {
+      truncated = size > maxBytes;
+      await reader.cancel();
+      break;
+    }
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  // a cut can land inside a multi-byte character; the decoder replaces it
+  return { text: new TextDecoder().decode(bytes.subarray(0, maxBytes)), truncated };
+}
+
+// helper: the readable text of an HTML page (scripts, styles and tags dropped)
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(br|p|div|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
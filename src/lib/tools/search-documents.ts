@@ -0,0 +1,25 @@
+// src/lib/tools/search-documents.ts
+
+// looks things up in the user's own document collection (see lib/documents.ts);
+// the chat route cites every returned passage as a source of the answer
+import { z } from 'zod';
+import { searchDocuments } from '../documents';
+import { defineTool, toolFailure } from '../tool-registry';
+
+export const searchDocumentsTool = defineTool({
+  name: 'searchDocuments',
+  label: 'Search my documents',
+  description:
+    "Search the user's uploaded documents for passages relevant to a question. " +
+    'Use it whenever the answer may be in their documents, and say which document each fact comes from.',
+  inputSchema: z.object({
+    query: z.string().min(1).describe('What to look for, phrased like the passage you hope to find'),
+    limit: z.number().int().min(1).max(10).optional().describe('How many passages to return (default 5)'),
+  }),
+  // the query is embedded by the embedding provider first
+  timeoutMs: 20_000,
+  execute: async ({ query, limit }: { query: string; limit?: number }, { userId }) => {
+    if (!userId) throw toolFailure('not_allowed', 'Documents can only be searched from a signed-in chat.');
+    return { passages: await searchDocuments(userId, query, limit) };
+  },
+});
@@ -0,0 +1,29 @@
+// src/lib/tools/show-table.ts
+
+// lets the model present structured data (comparisons, lists of things with
+// several attributes) as a real table: the table goes into the answer as a
+// `data-table` part, rendered on the chat page and stored with the message,
+// and the model only gets a short receipt back
+import { dataPartsSchema, type MyDataParts } from '../../util/schemas';
+import { defineTool, toolFailure } from '../tool-registry';
+
+export const showTableTool = defineTool({
+  name: 'showTable',
+  label: 'Tables',
+  description:
+    'Show the user a table, e.g. to compare options or list items with several attributes. ' +
+    'Give column headings and one array of cells per row (strings, numbers or null), in column order. ' +
+    'The table appears in your answer, so do not repeat its contents in the text.',
+  inputSchema: dataPartsSchema.table,
+  timeoutMs: 1_000,
+  execute: async (table: MyDataParts['table'], { writeData }) => {
+    const width = table.columns.length;
+    const ragged = table.rows.findIndex(row => row.length !== width);
+    if (ragged !== -1) {
+      throw toolFailure('invalid_input', `Row ${ragged + 1} has ${table.rows[ragged].length} cells, expected ${width}.`);
+    }
+    if (!writeData) throw toolFailure('not_allowed', 'Tables can only be shown while answering.');
+    writeData('table', table);
+    return { shown: true, rows: table.rows.length };
+  },
+});
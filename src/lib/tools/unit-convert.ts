@@ -0,0 +1,135 @@
+// src/lib/tools/unit-convert.ts
+
+// converts between units of the same kind (length, mass, volume, area, speed,
+// time, data, temperature). every unit is stored as a factor to its kind's
+// base unit; temperature isn't a plain factor and is handled on its own
+import { z } from 'zod';
+import { defineTool, toolFailure } from '../tool-registry';
+
+// kind -> unit -> how many base units one of it is; the first name of each
+// alias list is what answers use
+const UNITS: Record<string, Record<string, { factor: number; aliases: string[] }>> = {
+  length: {
+    m: { factor: 1, aliases: ['meter', 'meters', 'metre', 'metres'] },
+    km: { factor: 1000, aliases: ['kilometer', 'kilometers', 'kilometre', 'kilometres'] },
+    cm: { factor: 0.01, aliases: ['centimeter', 'centimeters', 'centimetre', 'centimetres'] },
+    mm: { factor: 0.001, aliases: ['millimeter', 'millimeters', 'millimetre', 'millimetres'] },
+    mi: { factor: 1609.344, aliases: ['mile', 'miles'] },
+    yd: { factor: 0.9144, aliases: ['yard', 'yards'] },
+    ft: { factor: 0.3048, aliases: ['foot', 'feet'] },
+    in: { factor: 0.0254, aliases: ['inch', 'inches'] },
+    nmi: { factor: 1852, aliases: ['nautical mile', 'nautical miles'] },
+  },
+  mass: {
+    kg: { factor: 1, aliases: ['kilogram', 'kilograms', 'kilo', 'kilos'] },
+    g: { factor: 0.001, aliases: ['gram', 'grams'] },
+    mg: { factor: 0.000001, aliases: ['milligram', 'milligrams'] },
+    t: { factor: 1000, aliases: ['tonne', 'tonnes', 'metric ton', 'metric tons'] },
+    lb: { factor: 0.45359237, aliases: ['lbs', 'pound', 'pounds'] },
+    oz: { factor: 0.028349523125, aliases: ['ounce', 'ounces'] },
+    st: { factor: 6.35029318, aliases: ['stone', 'stones'] },
+  },
+  volume: {
+    l: { factor: 1, aliases: ['liter', 'liters', 'litre', 'litres'] },
+    ml: { factor: 0.001, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+    m3: { factor: 1000, aliases: ['cubic meter', 'cubic meters', 'cubic metre', 'cubic metres'] },
+    gal: { factor: 3.785411784, aliases: ['gallon', 'gallons', 'us gallon', 'us gallons'] },
+    qt: { factor: 0.946352946, aliases: ['quart', 'quarts'] },
+    pt: { factor: 0.473176473, aliases: ['pint', 'pints'] },
+    cup: { factor: 0.2365882365, aliases: ['cups'] },
+    'fl oz': { factor: 0.0295735295625, aliases: ['floz', 'fluid ounce', 'fluid ounces'] },
+    tbsp: { factor: 0.01478676478125, aliases: ['tablespoon', 'tablespoons'] },
+    tsp: { factor: 0.00492892159375, aliases: ['teaspoon', 'teaspoons'] },
+  },
+  area: {
+    m2: { factor: 1, aliases: ['square meter', 'square meters', 'sq m'] },
+    km2: { factor: 1_000_000, aliases: ['square kilometer', 'square kilometers', 'sq km'] },
+    ha: { factor: 10_000, aliases: ['hectare', 'hectares'] },
+    acre: { factor: 4046.8564224, aliases: ['acres'] },
+    ft2: { factor: 0.09290304, aliases: ['square foot', 'square feet', 'sq ft'] },
+    mi2: { factor: 2_589_988.110336, aliases: ['square mile', 'square miles', 'sq mi'] },
+  },
+  speed: {
+    'm/s': { factor: 1, aliases: ['meters per second', 'mps'] },
+    'km/h': { factor: 1 / 3.6, aliases: ['kmh', 'kph', 'kilometers per hour'] },
+    mph: { factor: 0.44704, aliases: ['miles per hour'] },
+    kn: { factor: 1852 / 3600, aliases: ['knot', 'knots', 'kt'] },
+  },
+  time: {
+    s: { factor: 1, aliases: ['sec', 'second', 'seconds'] },
+    ms: { factor: 0.001, aliases: ['millisecond', 'milliseconds'] },
+    min: { factor: 60, aliases: ['minute', 'minutes'] },
+    h: { factor: 3600, aliases: ['hr', 'hour', 'hours'] },
+    d: { factor: 86_400, aliases: ['day', 'days'] },
+    wk: { factor: 604_800, aliases: ['week', 'weeks'] },
+  },
+  data: {
+    B: { factor: 1, aliases: ['byte', 'bytes'] },
+    KB: { factor: 1e3, aliases: ['kilobyte', 'kilobytes'] },
+    MB: { factor: 1e6, aliases: ['megabyte', 'megabytes'] },
+    GB: { factor: 1e9, aliases: ['gigabyte', 'gigabytes'] },
+    TB: { factor: 1e12, aliases: ['terabyte', 'terabytes'] },
+    KiB: { factor: 1024, aliases: ['kibibyte', 'kibibytes'] },
+    MiB: { factor: 1024 ** 2, aliases: ['mebibyte', 'mebibytes'] },
+    GiB: { factor: 1024 ** 3, aliases: ['gibibyte', 'gibibytes'] },
+    TiB: { factor: 1024 ** 4, aliases: ['tebibyte', 'tebibytes'] },
+  },
+};
+
+// temperatures: to and from kelvin
+const TEMPERATURES: Record<string, { toKelvin: (x: number) => number; fromKelvin: (k: number) => number; aliases: string[] }> = {
+  C: { toKelvin: x => x + 273.15, fromKelvin: k => k - 273.15, aliases: ['°c', 'celsius', 'centigrade'] },
+  F: { toKelvin: x => ((x - 32) * 5) / 9 + 273.15, fromKelvin: k => ((k - 273.15) * 9) / 5 + 32, aliases: ['°f', 'fahrenheit'] },
+  K: { toKelvin: x => x, fromKelvin: k => k, aliases: ['kelvin', 'kelvins'] },
+};
+
+export const unitConvertTool = defineTool({
+  name: 'convertUnits',
+  label: 'Unit conversion',
+  description:
+    'Convert a value between units of the same kind: ' +
+    Object.entries(UNITS)
+      .map(([kind, units]) => `${kind} (${Object.keys(units).join(', ')})`)
+      .join('; ') +
+    `; temperature (${Object.keys(TEMPERATURES).join(', ')}). Full names like "miles" work too.`,
+  inputSchema: z.object({
+    value: z.number(),
+    from: z.string().min(1).max(40),
+    to: z.string().min(1).max(40),
+  }),
+  timeoutMs: 1_000,
+  execute: async ({ value, from, to }: { value: number; from: string; to: string }) => {
+    const source = findUnit(from);
+    const target = findUnit(to);
+    if (source.kind !== target.kind) {
+      throw toolFailure('invalid_input', `Can't convert ${source.kind} (${source.unit}) to ${target.kind} (${target.unit}).`);
+    }
+
+    const result =
+      source.kind === 'temperature'
+        ? TEMPERATURES[target.unit].fromKelvin(TEMPERATURES[source.unit].toKelvin(value))
+        : (value * UNITS[source.kind][source.unit].factor) / UNITS[target.kind][target.unit].factor;
+    return { value, from: source.unit, to: target.unit, result: Number(result.toPrecision(12)) };
+  },
+});
+
+// helper: find a unit by symbol or name; symbols are matched exactly first
+// (so "mB"/"MB" or "min"/"mi" don't blur), then case-insensitively
+function findUnit(name: string): { kind: string; unit: string } {
+  const wanted = name.trim();
+  const all: { kind: string; unit: string; aliases: string[] }[] = [
+    ...Object.entries(UNITS).flatMap(([kind, units]) =>
+      Object.entries(units).map(([unit, { aliases }]) => ({ kind, unit, aliases })),
+    ),
+    ...Object.entries(TEMPERATURES).map(([unit, { aliases }]) => ({ kind: 'temperature', unit, aliases })),
+  ];
+  const found =
+    all.find(entry => entry.unit === wanted) ??
+    all.find(
+      entry =>
+        entry.unit.toLowerCase() === wanted.toLowerCase() ||
+        entry.aliases.includes(wanted.toLowerCase()),
+    );
+  if (!found) throw toolFailure('invalid_input', `Unknown unit "${name}".`);
+  return { kind: found.kind, unit: found.unit };
+}
@@ -0,0 +1,102 @@
+// src/lib/tools/weather.ts
+
+// current conditions from Open-Meteo (free, no API key): the place name is
+// looked up with its geocoding API, then the forecast API reports the weather
+// there right now. the answer stays a sentence, as the tool always returned
+import { z } from 'zod';
+import { defineTool, toolFailure } from '../tool-registry';
+
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+// WMO weather codes, as Open-Meteo reports them
+const WEATHER_CODES: Record<number, string> = {
+  0: 'clear sky',
+  1: 'mainly clear',
+  2: 'partly cloudy',
+  3: 'overcast',
+  45: 'fog',
+  48: 'freezing fog',
+  51: 'light drizzle',
+  53: 'drizzle',
+  55: 'heavy drizzle',
+  56: 'freezing drizzle',
+  57: 'heavy freezing drizzle',
+  61: 'light rain',
+  63: 'rain',
+  65: 'heavy rain',
+  66: 'freezing rain',
+  67: 'heavy freezing rain',
+  71: 'light snow',
+  73: 'snow',
+  75: 'heavy snow',
+  77: 'snow grains',
+  80: 'light showers',
+  81: 'showers',
+  82: 'violent showers',
+  85: 'snow showers',
+  86: 'heavy snow showers',
+  95: 'thunderstorm',
+  96: 'thunderstorm with hail',
+  99: 'thunderstorm with heavy hail',
+};
+
+export const weatherTool = defineTool({
+  name: 'weather',
+  label: 'Weather',
+  description: 'Get the current weather',
+  inputSchema: z.object({
+    // the city/state input expected from the UI or model
+    location: z.string().describe('The city and state'),
+  }),
+  timeoutMs: 10_000,
+  // looking up weather shares the user's location with a third party, so ask first
+  requiresApproval: true,
+  describeError: error =>
+    error instanceof TypeError ? { code: 'upstream_error', message: 'The weather service could not be reached.' } : undefined,
+  execute: async ({ location }: { location: string }, { signal }) => {
+    // "Springfield, IL" -> look up "Springfield"; the geocoder only matches place names
+    const name = location.split(',')[0].trim();
+    const places = await getJson<{ results?: Place[] }>(
+      `${GEOCODING_URL}?${new URLSearchParams({ name, count: '1', language: 'en', format: 'json' })}`,
+      signal,
+    );
+    const place = places.results?.[0];
+    if (!place) throw toolFailure('invalid_input', `No place called "${location}" was found.`);
+
+    const forecast = await getJson<{ current?: CurrentWeather }>(
+      `${FORECAST_URL}?${new URLSearchParams({
+        latitude: String(place.latitude),
+        longitude: String(place.longitude),
+        current: 'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m',
+        timezone: 'auto',
+      })}`,
+      signal,
+    );
+    const current = forecast.current;
+    if (!current) throw toolFailure('upstream_error', 'The weather service sent no current conditions.');
+
+    const where = [place.name, place.admin1, place.country].filter(Boolean).join(', ');
+    const conditions = WEATHER_CODES[current.weather_code] ?? 'unknown conditions';
+    return (
+      `The weather in ${where} is ${conditions}, ${Math.round(current.temperature_2m)}°C ` +
+      `with ${current.relative_humidity_2m}% humidity and wind at ${Math.round(current.wind_speed_10m)} km/h.`
+    );
+  },
+});
+
+// what we read from the geocoding and forecast responses
+type Place = { name: string; latitude: number; longitude: number; country?: string; admin1?: string };
+type CurrentWeather = {
+  temperature_2m: number;
+  relative_humidity_2m: number;
+  weather_code: number;
+  wind_speed_10m: number;
+};
+
+// helper: GET a JSON document, failing with upstream_error on a bad status
+async function getJson<T>(url: string, signal: AbortSignal): Promise<T> {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw toolFailure('upstream_error', `The weather service answered ${res.status}.`);
+  return (await res.json()) as T;
+}
@@ -0,0 +1,135 @@
+// src/lib/usage.ts
+
+// everything computed from the usage ledger: per-user quotas (checked before
+// each model call) and the totals shown on the usage page
+import { listUsage, type UsageEntry } from '../util/usage-store';
+
+// a limit on one thing (tokens or dollars) over one period (a UTC day or month)
+export type QuotaLimit = {
+  period: 'day' | 'month';
+  metric: 'tokens' | 'cost';
+  limit: number;
+};
+
+// a limit together with how much of it is used right now
+export type QuotaStatus = QuotaLimit & {
+  used: number;
+  resetsAt: number; // when the period rolls over (ms since epoch)
+};
+
+// running totals for one group of entries
+export type UsageTotals = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+  cost: number;        // USD, counting only entries with a known price
+  unpriced: number;    // entries whose model has no price, so their cost is missing
+};
+
+// the limits for this process (QUOTA_DAILY_TOKENS, QUOTA_MONTHLY_TOKENS,
+// QUOTA_DAILY_COST, QUOTA_MONTHLY_COST); unset means unlimited
+export function getQuotaLimits(): QuotaLimit[] {
+  const limits: QuotaLimit[] = [];
+  const add = (period: QuotaLimit['period'], metric: QuotaLimit['metric'], value?: string) => {
+    const limit = Number.parseFloat(value ?? '');
+    if (Number.isFinite(limit) && limit > 0) limits.push({ period, metric, limit });
+  };
+  add('day', 'tokens', process.env.QUOTA_DAILY_TOKENS);
+  add('month', 'tokens', process.env.QUOTA_MONTHLY_TOKENS);
+  add('day', 'cost', process.env.QUOTA_DAILY_COST);
+  add('month', 'cost', process.env.QUOTA_MONTHLY_COST);
+  return limits;
+}
+
+// where the current day or month started and when it ends, in UTC
+export function getPeriod(period: QuotaLimit['period'], now = Date.now()): { start: number; end: number } {
+  const date = new Date(now);
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const d = date.getUTCDate();
+  return period === 'day'
+    ? { start: Date.UTC(y, m, d), end: Date.UTC(y, m, d + 1) }
+    : { start: Date.UTC(y, m, 1), end: Date.UTC(y, m + 1, 1) };
+}
+
+// how much of each limit a user has used
+export async function getQuotaStatus(
+  userId: string,
+  limits: QuotaLimit[] = getQuotaLimits(),
+  now = Date.now(),
+): Promise<QuotaStatus[]> {
+  if (limits.length === 0) return [];
+  // a month always reaches back at least as far as a day
+  const entries = await listUsage({ userId, since: getPeriod('month', now).start });
+  return limits.map(limit => {
+    const { start, end } = getPeriod(limit.period, now);
+    const totals = sumUsage(entries.filter(entry => entry.createdAt >= start));
+    return {
+      ...limit,
+      used: limit.metric === 'tokens' ? totals.totalTokens : totals.cost,
+      resetsAt: end,
+    };
+  });
+}
+
+// the first limit the user has used up, or undefined if they may keep chatting
+export async function findExceededQuota(userId: string): Promise<QuotaStatus | undefined> {
+  return (await getQuotaStatus(userId)).find(status => status.used >= status.limit);
+}
+
+// a sentence explaining a used-up quota, for the 429 response and the UI
+export function describeQuota(status: QuotaStatus): string {
+  const amount = (value: number) =>
+    status.metric === 'tokens' ? `${Math.round(value).toLocaleString('en-US')} tokens` : `$${value.toFixed(2)}`;
+  const period = status.period === 'day' ? 'daily' : 'monthly';
+  return (
+    `You have used your ${period} quota (${amount(status.used)} of ${amount(status.limit)}). ` +
+    `It resets at ${new Date(status.resetsAt).toISOString()}.`
+  );
+}
+
+// add up a list of entries
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  const totals: UsageTotals = {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpriced: 0,
+  };
+  for (const entry of entries) {
+    totals.requests++;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.cachedInputTokens += entry.cachedInputTokens;
+    totals.totalTokens += entry.totalTokens;
+    if (entry.cost === undefined) totals.unpriced++;
+    else totals.cost += entry.cost;
+  }
+  return totals;
+}
+
+// group entries by a key (model, chat, day, ...) and total each group,
+// biggest spenders (by tokens) first
+export function groupUsage(
+  entries: UsageEntry[],
+  keyOf: (entry: UsageEntry) => string,
+): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, totals: sumUsage(group) })).sort(
+    (a, b) => b.totals.totalTokens - a.totals.totalTokens,
+  );
+}
+
+// the UTC day an entry belongs to, as YYYY-MM-DD
+export function usageDay(entry: UsageEntry): string {
+  return new Date(entry.createdAt).toISOString().slice(0, 10);
+}
@@ -0,0 +1,24 @@
+// src/middleware.ts
+// resolves the signed-in user for every page and API request: pages send
+// anonymous visitors to /login, API routes answer 401. routes still check the
+// session (and chat ownership) themselves; this is the front door, not the lock
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, unauthorized, verifySessionToken } from './lib/auth';
+
+export async function middleware(req: NextRequest) {
+  const user = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value);
+  if (user) return NextResponse.next();
+
+  if (req.nextUrl.pathname.startsWith('/api/')) return unauthorized();
+
+  // remember where the visitor was going so login can send them back
+  const login = new URL('/login', req.url);
+  login.searchParams.set('next', req.nextUrl.pathname);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // everything except the login page, shared links (public, read-only), the
+  // auth API and static assets
+  matcher: ['/((?!login|share/|api/auth|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,28 @@
+// src/util/chat-access.ts
+// the guard every route that acts on one saved chat starts with:
+// signed in (401), chat exists (404), and it's yours (403)
+import { canAccessChat, forbidden, getSessionUser, unauthorized, type SessionUser } from '../lib/auth';
+import { getChatStore, type ChatSummary } from './chat-store';
+
+export type ChatAccess =
+  | { ok: true; user: SessionUser; chat: ChatSummary }
+  | { ok: false; response: Response };
+
+export async function authorizeChat(req: Request, id: string): Promise<ChatAccess> {
+  const user = await getSessionUser(req);
+  if (!user) return { ok: false, response: unauthorized() };
+
+  const chat = await getChatStore().getChat(id);
+  if (!chat) {
+    return {
+      ok: false,
+      response: new Response(JSON.stringify({ ok: false, error: 'Chat not found.' }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      }),
+    };
+  }
+  if (!canAccessChat(chat, user)) return { ok: false, response: forbidden() };
+
+  return { ok: true, user, chat };
+}
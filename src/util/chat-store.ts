@@ -1,44 +1,126 @@
 // src/util/chat-store.ts
-// NEW
-// a tiny file-backed chat store; swap with a DB in real apps
+// the ChatStore interface every persistence backend implements, plus a factory
+// that picks the backend from the environment (CHAT_STORE=file|sqlite|memory)
 import { generateId } from 'ai';
-import { existsSync, mkdirSync } from 'fs';
-import { readFile, writeFile } from 'fs/promises';
-import path from 'path';
 import type { UIMessage } from 'ai';
+import { CHAT_SCHEMA_VERSION, type ChatSettings } from './schemas';
+import type { ContextSummary } from '../lib/context-window';
+import { createSearchIndex, type SearchFilters, type SearchHit } from './search-index';
+import { createFileChatStore } from './chat-stores/file-store';
+import { withSearchIndex } from './chat-stores/indexed-store';
+import { createMemoryChatStore } from './chat-stores/memory-store';
+import { createSqliteChatStore } from './chat-stores/sqlite-store';
 
-// create a new chat id and an empty file to hold its messages
-export async function createChat(): Promise<string> {
-  const id = generateId(); // generate a unique chat ID
-  await writeFile(getChatFile(id), '[]'); // create an empty chat file
-  return id;
+// one entry in the chat index; this is what the sidebar lists
+export type ChatSummary = {
+  id: string;
+  title: string | null;  // null until the user (or the app) names the chat
+  createdAt: number;     // when the first message was saved
+  updatedAt: number;     // when the chat was last saved or edited
+  messageCount: number;  // handy for the sidebar without loading every message
+  archived: boolean;     // archived chats are hidden from the default list
+  model?: string;        // registry id of the model this chat talks to ("provider:model")
+  settings?: ChatSettings; // system prompt + generation settings (defaults when missing)
+  ownerId?: string;      // the user who created the chat; only they may read or change it
+  activeStreamId?: string | null; // the answer being generated right now, if any (see stream-store)
+  contextSummary?: ContextSummary | null; // rolling summary of turns that no longer fit the context window
+  schemaVersion?: number; // the message schema the stored messages were last migrated to (missing = 0)
+};
+
+// the fields callers may change on an existing chat; updatedAt is normally
+// set by the store, a patch only carries it to keep the old value (migrations)
+export type ChatPatch = Partial<
+  Pick<
+    ChatSummary,
+    'title' | 'archived' | 'model' | 'settings' | 'activeStreamId' | 'contextSummary' | 'schemaVersion' | 'updatedAt'
+  >
+>;
+
+// everything the app needs from a persistence layer; routes only talk to this
+export interface ChatStore {
+  // list chats for the sidebar, newest activity first (only one user's when ownerId is given)
+  listChats(options?: { includeArchived?: boolean; ownerId?: string }): Promise<ChatSummary[]>;
+  // look up a single chat summary (undefined if the chat was never saved)
+  getChat(id: string): Promise<ChatSummary | undefined>;
+  // create the chat record for its owner as the first message arrives;
+  // if the chat already exists it is returned unchanged (callers check the owner)
+  createChat(id: string, init: { ownerId: string }): Promise<ChatSummary>;
+  // change the title/archived flag/model/settings; returns the updated summary
+  updateChat(id: string, patch: ChatPatch): Promise<ChatSummary | undefined>;
+  // remove a chat and its messages for good
+  deleteChat(id: string): Promise<boolean>;
+
+  // load all messages for a given chat id (empty if the chat doesn't exist)
+  loadChat(id: string): Promise<UIMessage[]>;
+  // replace the whole message list in one shot; empty lists never create a chat
+  saveChat(args: { chatId: string; messages: UIMessage[] }): Promise<void>;
+  // add a message at the end, or replace it in place if that id is already stored
+  appendMessage(chatId: string, message: UIMessage): Promise<void>;
+  // replace a stored message by id; false if it wasn't there
+  updateMessage(chatId: string, message: UIMessage): Promise<boolean>;
+  // remove a single message; false if it wasn't there
+  deleteMessage(chatId: string, messageId: string): Promise<boolean>;
+  // read-modify-write the message list atomically (no other write to this
+  // chat can land in between); the callback returns the new list
+  updateMessages(
+    chatId: string,
+    update: (messages: UIMessage[]) => UIMessage[],
+  ): Promise<UIMessage[]>;
 }
 
-// load all messages for a given chat id (returns UIMessage[])
-export async function loadChat(id: string): Promise<UIMessage[]> {
-  try {
-    const raw = await readFile(getChatFile(id), 'utf8');
-    return JSON.parse(raw);
-  } catch {
-    return [];
-  }
+// the store the app uses: any backend plus full-text search over its chats
+export interface SearchableChatStore extends ChatStore {
+  // find messages (and chat titles) containing every word of `query`, best first
+  search(query: string, filters: SearchFilters): Promise<SearchHit[]>;
+}
+
+// pick a fresh chat id; nothing is written until the first message is saved
+// so opening /chat no longer leaves an empty file behind
+export function generateChatId(): string {
+  return generateId();
 }
 
-// save the whole chat message list in one shot
-export async function saveChat({
-  chatId,
-  messages,
-}: {
-  chatId: string;
-  messages: UIMessage[];
-}): Promise<void> {
-  const content = JSON.stringify(messages, null, 2);
-  await writeFile(getChatFile(chatId), content);
+// build the starting summary for a chat that is being saved for the first time
+export function newChatSummary(id: string, now = Date.now()): ChatSummary {
+  return {
+    id,
+    title: null,
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+    archived: false,
+    schemaVersion: CHAT_SCHEMA_VERSION, // new chats only ever hold current messages
+  };
 }
 
-// helper: resolve a stable path for the chat json file
-function getChatFile(id: string): string {
-  const chatDir = path.join(process.cwd(), '.chats');
-  if (!existsSync(chatDir)) mkdirSync(chatDir, { recursive: true });
-  return path.join(chatDir, `${id}.json`);
+// ids come straight from URLs, so backends refuse anything unexpected
+export function assertValidChatId(id: string): void {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid chat id: ${id}`);
+}
+
+// one store per server process; created lazily on first use
+let store: SearchableChatStore | undefined;
+
+// resolve the configured backend (defaults to the JSON file store), wrapped
+// so the search index follows every write
+export function getChatStore(): SearchableChatStore {
+  if (store) return store;
+
+  let backend: ChatStore;
+  const name = process.env.CHAT_STORE ?? 'file';
+  switch (name) {
+    case 'file':
+      backend = createFileChatStore({ dir: process.env.CHAT_STORE_DIR });
+      break;
+    case 'sqlite':
+      backend = createSqliteChatStore({ file: process.env.CHAT_STORE_SQLITE_FILE });
+      break;
+    case 'memory':
+      backend = createMemoryChatStore();
+      break;
+    default:
+      throw new Error(`Unknown CHAT_STORE backend: ${name}`);
+  }
+  store = withSearchIndex(backend, createSearchIndex());
+  return store;
 }
@@ -0,0 +1,211 @@
+// src/util/chat-stores/file-store.ts
+// the original JSON-file ChatStore: one `<id>.json` file per chat plus an index
+// file; writes are serialized per chat so concurrent saves can't clobber each other
+import type { UIMessage } from 'ai';
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  assertValidChatId,
+  newChatSummary,
+  type ChatStore,
+  type ChatSummary,
+} from '../chat-store';
+
+// the index maps chat ids to their summaries
+type ChatIndex = Record<string, ChatSummary>;
+
+export function createFileChatStore({ dir }: { dir?: string } = {}): ChatStore {
+  const chatDir = dir ?? path.join(process.cwd(), '.chats');
+
+  // helper: resolve (and create if needed) the folder that holds chat files
+  const getChatDir = () => {
+    if (!existsSync(chatDir)) mkdirSync(chatDir, { recursive: true });
+    return chatDir;
+  };
+
+  // helper: resolve a stable path for the chat json file
+  const getChatFile = (id: string) => {
+    assertValidChatId(id);
+    return path.join(getChatDir(), `${id}.json`);
+  };
+
+  // helper: the index lives next to the chat files; the leading dot keeps it
+  // from ever colliding with a chat id (ids can't contain dots)
+  const getIndexFile = () => path.join(getChatDir(), '.index.json');
+
+  // helper: read the index file (an empty index if it does not exist yet)
+  const readIndex = async (): Promise<ChatIndex> => {
+    try {
+      return JSON.parse(await readFile(getIndexFile(), 'utf8'));
+    } catch {
+      return {};
+    }
+  };
+
+  // helper: read a chat's messages (empty if the file does not exist yet)
+  const readMessages = async (id: string): Promise<UIMessage[]> => {
+    try {
+      return JSON.parse(await readFile(getChatFile(id), 'utf8'));
+    } catch {
+      return [];
+    }
+  };
+
+  // helper: run one read-modify-write cycle on the index under its lock;
+  // the mutator returns false when nothing changed, so we can skip the write
+  const updateIndex = (mutate: (index: ChatIndex) => boolean) =>
+    withLock('.index', async () => {
+      const index = await readIndex();
+      if (mutate(index)) await writeFileAtomic(getIndexFile(), index);
+    });
+
+  // helper: persist a message list and refresh its index entry
+  // (callers hold the chat's lock)
+  const writeMessages = async (chatId: string, messages: UIMessage[]) => {
+    let keep = false;
+    await updateIndex(index => {
+      const existing = index[chatId];
+      // never create a chat just to store an empty list
+      if (!existing && messages.length === 0) return false;
+
+      index[chatId] = {
+        ...(existing ?? newChatSummary(chatId)),
+        updatedAt: Date.now(),
+        messageCount: messages.length,
+      };
+      keep = true;
+      return true;
+    });
+    if (keep) await writeFileAtomic(getChatFile(chatId), messages);
+  };
+
+  // helper: every message mutation is a locked read-modify-write of the chat file
+  const mutateMessages = <T>(
+    chatId: string,
+    mutate: (messages: UIMessage[]) => { messages?: UIMessage[]; result: T },
+  ) =>
+    withLock(chatId, async () => {
+      const { messages, result } = mutate(await readMessages(chatId));
+      if (messages) await writeMessages(chatId, messages);
+      return result;
+    });
+
+  return {
+    async listChats({ includeArchived = false, ownerId } = {}) {
+      const index = await readIndex();
+      return Object.values(index)
+        .filter(chat => includeArchived || !chat.archived)
+        .filter(chat => ownerId === undefined || chat.ownerId === ownerId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async getChat(id) {
+      return (await readIndex())[id];
+    },
+
+    async createChat(id, { ownerId }) {
+      assertValidChatId(id);
+      let chat!: ChatSummary;
+      await updateIndex(index => {
+        if (index[id]) {
+          chat = index[id];
+          return false;
+        }
+        chat = { ...newChatSummary(id), ownerId };
+        index[id] = chat;
+        return true;
+      });
+      return chat;
+    },
+
+    async updateChat(id, patch) {
+      let updated: ChatSummary | undefined;
+      await updateIndex(index => {
+        const existing = index[id];
+        if (!existing) return false;
+        updated = { ...existing, ...patch, updatedAt: patch.updatedAt ?? Date.now() };
+        index[id] = updated;
+        return true;
+      });
+      return updated;
+    },
+
+    async deleteChat(id) {
+      return withLock(id, async () => {
+        let removed = false;
+        await updateIndex(index => {
+          if (!index[id]) return false;
+          delete index[id];
+          removed = true;
+          return true;
+        });
+        await rm(getChatFile(id), { force: true });
+        return removed;
+      });
+    },
+
+    async loadChat(id) {
+      return readMessages(id);
+    },
+
+    async saveChat({ chatId, messages }) {
+      await withLock(chatId, () => writeMessages(chatId, messages));
+    },
+
+    async appendMessage(chatId, message) {
+      await mutateMessages(chatId, messages => {
+        const idx = messages.findIndex(m => m.id === message.id);
+        if (idx === -1) messages.push(message);
+        else messages[idx] = message;
+        return { messages, result: undefined };
+      });
+    },
+
+    async updateMessage(chatId, message) {
+      return mutateMessages(chatId, messages => {
+        const idx = messages.findIndex(m => m.id === message.id);
+        if (idx === -1) return { result: false };
+        messages[idx] = message;
+        return { messages, result: true };
+      });
+    },
+
+    async deleteMessage(chatId, messageId) {
+      return mutateMessages(chatId, messages => {
+        const next = messages.filter(m => m.id !== messageId);
+        if (next.length === messages.length) return { result: false };
+        return { messages: next, result: true };
+      });
+    },
+
+    async updateMessages(chatId, update) {
+      return mutateMessages(chatId, messages => {
+        const next = update(messages);
+        return { messages: next, result: next };
+      });
+    },
+  };
+}
+
+// per-key promise chains: work queued under the same key runs one at a time.
+// this only guards a single server process, which is all a file store supports
+const locks = new Map<string, Promise<unknown>>();
+function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const run = previous.then(fn);
+  // keep the chain alive even if this step failed, and drop it once idle
+  const settled = run.catch(() => {});
+  locks.set(key, settled);
+  void settled.then(() => {
+    if (locks.get(key) === settled) locks.delete(key);
+  });
+  return run;
+}
+
+// write to a temp file first and rename, so readers never see a half-written file
+async function writeFileAtomic(file: string, data: unknown): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
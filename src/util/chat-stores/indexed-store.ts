@@ -0,0 +1,57 @@
+// src/util/chat-stores/indexed-store.ts
+// wraps any ChatStore so every write also refreshes the search index for that
+// chat; the index itself is built from the store the first time someone searches
+import type { ChatStore, SearchableChatStore } from '../chat-store';
+import type { SearchIndex } from '../search-index';
+
+export function withSearchIndex(store: ChatStore, index: SearchIndex): SearchableChatStore {
+  // the first search loads every chat; until then writes don't bother the index
+  let built: Promise<void> | undefined;
+  // re-indexing runs one at a time per chat so an older load can't overwrite a newer one
+  const queues = new Map<string, Promise<void>>();
+
+  // helper: index a chat as it is stored right now (or drop it if it's gone)
+  const reindex = (chatId: string): Promise<void> => {
+    const run = (queues.get(chatId) ?? Promise.resolve()).then(async () => {
+      const chat = await store.getChat(chatId);
+      if (!chat) index.removeChat(chatId);
+      else index.indexChat(chat, await store.loadChat(chatId));
+    });
+    const settled = run.catch(error => console.error(`failed to index chat ${chatId}:`, error));
+    queues.set(chatId, settled);
+    // forget finished queues so the map doesn't grow with every chat ever touched
+    void settled.then(() => {
+      if (queues.get(chatId) === settled) queues.delete(chatId);
+    });
+    return settled;
+  };
+
+  // helper: run a write, then refresh the index for that chat (once it exists)
+  const afterWrite = async <T>(chatId: string, write: Promise<T>): Promise<T> => {
+    const result = await write;
+    if (built) await reindex(chatId);
+    return result;
+  };
+
+  return {
+    ...store,
+
+    createChat: (id, init) => afterWrite(id, store.createChat(id, init)),
+    updateChat: (id, patch) => afterWrite(id, store.updateChat(id, patch)),
+    deleteChat: (id) => afterWrite(id, store.deleteChat(id)),
+    saveChat: (args) => afterWrite(args.chatId, store.saveChat(args)),
+    appendMessage: (chatId, message) => afterWrite(chatId, store.appendMessage(chatId, message)),
+    updateMessage: (chatId, message) => afterWrite(chatId, store.updateMessage(chatId, message)),
+    deleteMessage: (chatId, messageId) => afterWrite(chatId, store.deleteMessage(chatId, messageId)),
+    updateMessages: (chatId, update) => afterWrite(chatId, store.updateMessages(chatId, update)),
+
+    async search(query, filters) {
+      built ??= (async () => {
+        const chats = await store.listChats({ includeArchived: true });
+        for (const chat of chats) await reindex(chat.id);
+      })();
+      await built;
+      return index.search(query, filters);
+    },
+  };
+}
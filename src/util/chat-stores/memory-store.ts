@@ -0,0 +1,104 @@
+// src/util/chat-stores/memory-store.ts
+// an in-memory ChatStore: nothing survives a restart, which makes it handy for
+// tests and throwaway demos
+import type { UIMessage } from 'ai';
+import { newChatSummary, type ChatStore, type ChatSummary } from '../chat-store';
+
+export function createMemoryChatStore(): ChatStore {
+  // chat summaries and message lists, keyed by chat id
+  const chats = new Map<string, ChatSummary>();
+  const messagesByChat = new Map<string, UIMessage[]>();
+
+  // helper: store a new message list and refresh the summary that describes it
+  const write = (chatId: string, messages: UIMessage[]) => {
+    const existing = chats.get(chatId);
+    // never create a chat just to store an empty list
+    if (!existing && messages.length === 0) return;
+
+    const summary = existing ?? newChatSummary(chatId);
+    chats.set(chatId, {
+      ...summary,
+      updatedAt: Date.now(),
+      messageCount: messages.length,
+    });
+    // copy so callers can't mutate what we hold
+    messagesByChat.set(chatId, structuredClone(messages));
+  };
+
+  const read = (chatId: string): UIMessage[] =>
+    structuredClone(messagesByChat.get(chatId) ?? []);
+
+  return {
+    async listChats({ includeArchived = false, ownerId } = {}) {
+      return [...chats.values()]
+        .filter(chat => includeArchived || !chat.archived)
+        .filter(chat => ownerId === undefined || chat.ownerId === ownerId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async getChat(id) {
+      return chats.get(id);
+    },
+
+    async createChat(id, { ownerId }) {
+      const existing = chats.get(id);
+      if (existing) return existing;
+      const chat = { ...newChatSummary(id), ownerId };
+      chats.set(id, chat);
+      return chat;
+    },
+
+    async updateChat(id, patch) {
+      const existing = chats.get(id);
+      if (!existing) return undefined;
+      const updated = { ...existing, ...patch, updatedAt: patch.updatedAt ?? Date.now() };
+      chats.set(id, updated);
+      return updated;
+    },
+
+    async deleteChat(id) {
+      messagesByChat.delete(id);
+      return chats.delete(id);
+    },
+
+    async loadChat(id) {
+      return read(id);
+    },
+
+    async saveChat({ chatId, messages }) {
+      write(chatId, messages);
+    },
+
+    async appendMessage(chatId, message) {
+      const messages = read(chatId);
+      const idx = messages.findIndex(m => m.id === message.id);
+      if (idx === -1) messages.push(message);
+      else messages[idx] = message;
+      write(chatId, messages);
+    },
+
+    async updateMessage(chatId, message) {
+      const messages = read(chatId);
+      const idx = messages.findIndex(m => m.id === message.id);
+      if (idx === -1) return false;
+      messages[idx] = message;
+      write(chatId, messages);
+      return true;
+    },
+
+    async deleteMessage(chatId, messageId) {
+      const messages = read(chatId);
+      const next = messages.filter(m => m.id !== messageId);
+      if (next.length === messages.length) return false;
+      write(chatId, next);
+      return true;
+    },
+
+    // everything here is synchronous, so no other write can interleave
+    async updateMessages(chatId, update) {
+      const next = update(read(chatId));
+      write(chatId, next);
+      return read(chatId);
+    },
+  };
+}
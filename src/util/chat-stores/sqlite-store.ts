@@ -0,0 +1,207 @@
+// src/util/chat-stores/sqlite-store.ts
+// a local SQLite ChatStore: one row per message, so appending to a long chat
+// doesn't rewrite the whole history, and every write runs in a transaction
+import type { UIMessage } from 'ai';
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import {
+  assertValidChatId,
+  newChatSummary,
+  type ChatStore,
+  type ChatSummary,
+} from '../chat-store';
+
+// the shape of a row in the chats table; the summary itself is kept as JSON so
+// new fields don't need a schema change, with the sortable bits pulled out
+type ChatRow = { data: string; message_count: number };
+
+export function createSqliteChatStore({ file }: { file?: string } = {}): ChatStore {
+  const dbFile = file ?? path.join(process.cwd(), '.chats', 'chats.db');
+  const dir = path.dirname(dbFile);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+  const db = new Database(dbFile);
+  // WAL lets readers keep going while a write is in progress
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chats (
+      id         TEXT PRIMARY KEY,
+      updated_at INTEGER NOT NULL,
+      archived   INTEGER NOT NULL DEFAULT 0,
+      data       TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS messages (
+      chat_id  TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+      id       TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      data     TEXT NOT NULL,
+      PRIMARY KEY (chat_id, id)
+    );
+    CREATE INDEX IF NOT EXISTS messages_by_position ON messages (chat_id, position);
+  `);
+
+  // prepare every statement once; better-sqlite3 reuses them cheaply
+  const selectChat = db.prepare<[string], ChatRow>(`
+    SELECT data, (SELECT COUNT(*) FROM messages m WHERE m.chat_id = c.id) AS message_count
+    FROM chats c WHERE id = ?`);
+  const selectChats = db.prepare<[number], ChatRow>(`
+    SELECT data, (SELECT COUNT(*) FROM messages m WHERE m.chat_id = c.id) AS message_count
+    FROM chats c WHERE archived = 0 OR ? = 1
+    ORDER BY updated_at DESC`);
+  const upsertChat = db.prepare<[string, number, number, string]>(`
+    INSERT INTO chats (id, updated_at, archived, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      updated_at = excluded.updated_at,
+      archived   = excluded.archived,
+      data       = excluded.data`);
+  const removeChat = db.prepare<[string]>('DELETE FROM chats WHERE id = ?');
+  const selectMessages = db.prepare<[string], { data: string }>(
+    'SELECT data FROM messages WHERE chat_id = ? ORDER BY position',
+  );
+  const selectMaxPosition = db.prepare<[string], { pos: number | null }>(
+    'SELECT MAX(position) AS pos FROM messages WHERE chat_id = ?',
+  );
+  const insertMessage = db.prepare<[string, string, number, string]>(
+    'INSERT INTO messages (chat_id, id, position, data) VALUES (?, ?, ?, ?)',
+  );
+  const updateMessageRow = db.prepare<[string, string, string]>(
+    'UPDATE messages SET data = ? WHERE chat_id = ? AND id = ?',
+  );
+  const removeMessage = db.prepare<[string, string]>(
+    'DELETE FROM messages WHERE chat_id = ? AND id = ?',
+  );
+  const removeMessages = db.prepare<[string]>('DELETE FROM messages WHERE chat_id = ?');
+
+  // helper: turn a row back into a summary with a live message count
+  const toSummary = (row: ChatRow): ChatSummary => ({
+    ...JSON.parse(row.data),
+    messageCount: row.message_count,
+  });
+
+  const readChat = (id: string) => {
+    const row = selectChat.get(id);
+    return row ? toSummary(row) : undefined;
+  };
+
+  const writeChat = (chat: ChatSummary) => {
+    upsertChat.run(chat.id, chat.updatedAt, chat.archived ? 1 : 0, JSON.stringify(chat));
+  };
+
+  // helper: bump updatedAt, creating the chat row on first write
+  const touchChat = (chatId: string) => {
+    const chat = readChat(chatId) ?? newChatSummary(chatId);
+    writeChat({ ...chat, updatedAt: Date.now() });
+  };
+
+  const readMessages = (chatId: string): UIMessage[] =>
+    selectMessages.all(chatId).map(row => JSON.parse(row.data));
+
+  // helper: replace every message row for a chat (used by full saves)
+  const replaceMessages = (chatId: string, messages: UIMessage[]) => {
+    // never create a chat just to store an empty list
+    if (!readChat(chatId) && messages.length === 0) return;
+    touchChat(chatId);
+    removeMessages.run(chatId);
+    messages.forEach((message, position) => {
+      insertMessage.run(chatId, message.id, position, JSON.stringify(message));
+    });
+  };
+
+  // transactions roll back automatically if the callback throws
+  const saveAll = db.transaction(replaceMessages);
+
+  const append = db.transaction((chatId: string, message: UIMessage) => {
+    touchChat(chatId);
+    const data = JSON.stringify(message);
+    if (updateMessageRow.run(data, chatId, message.id).changes > 0) return;
+    const next = (selectMaxPosition.get(chatId)?.pos ?? -1) + 1;
+    insertMessage.run(chatId, message.id, next, data);
+  });
+
+  const update = db.transaction((chatId: string, message: UIMessage) => {
+    const changed = updateMessageRow.run(JSON.stringify(message), chatId, message.id).changes > 0;
+    if (changed) touchChat(chatId);
+    return changed;
+  });
+
+  const remove = db.transaction((chatId: string, messageId: string) => {
+    const changed = removeMessage.run(chatId, messageId).changes > 0;
+    if (changed) touchChat(chatId);
+    return changed;
+  });
+
+  const readModifyWrite = db.transaction(
+    (chatId: string, fn: (messages: UIMessage[]) => UIMessage[]) => {
+      replaceMessages(chatId, fn(readMessages(chatId)));
+      return readMessages(chatId);
+    },
+  );
+
+  return {
+    async listChats({ includeArchived = false, ownerId } = {}) {
+      return selectChats
+        .all(includeArchived ? 1 : 0)
+        .map(toSummary)
+        .filter(chat => ownerId === undefined || chat.ownerId === ownerId);
+    },
+
+    async getChat(id) {
+      return readChat(id);
+    },
+
+    async createChat(id, { ownerId }) {
+      assertValidChatId(id);
+      return db.transaction(() => {
+        const existing = readChat(id);
+        if (existing) return existing;
+        const chat = { ...newChatSummary(id), ownerId };
+        writeChat(chat);
+        return chat;
+      })();
+    },
+
+    async updateChat(id, patch) {
+      return db.transaction(() => {
+        const existing = readChat(id);
+        if (!existing) return undefined;
+        const updated = { ...existing, ...patch, updatedAt: patch.updatedAt ?? Date.now() };
+        writeChat(updated);
+        return updated;
+      })();
+    },
+
+    async deleteChat(id) {
+      // messages go with it thanks to ON DELETE CASCADE
+      return removeChat.run(id).changes > 0;
+    },
+
+    async loadChat(id) {
+      return readMessages(id);
+    },
+
+    async saveChat({ chatId, messages }) {
+      assertValidChatId(chatId);
+      saveAll(chatId, messages);
+    },
+
+    async appendMessage(chatId, message) {
+      assertValidChatId(chatId);
+      append(chatId, message);
+    },
+
+    async updateMessage(chatId, message) {
+      return update(chatId, message);
+    },
+
+    async deleteMessage(chatId, messageId) {
+      return remove(chatId, messageId);
+    },
+
+    async updateMessages(chatId, fn) {
+      assertValidChatId(chatId);
+      return readModifyWrite(chatId, fn);
+    },
+  };
+}
@@ -0,0 +1,155 @@
+// src/util/document-store.ts
+// the knowledge base's vector index: each ingested document is one JSON file
+// on disk (its description plus every chunk with its embedding), and the whole
+// collection is held in memory for searching. a few thousand chunks compare in
+// milliseconds, so there is no approximate index, just cosine similarity
+import { cosineSimilarity, generateId } from 'ai';
+import { existsSync, mkdirSync } from 'fs';
+import { readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// what we know about an ingested document
+export type DocumentInfo = {
+  id: string;
+  ownerId: string;        // only this user's chats search it
+  filename: string;
+  mediaType: string;
+  size: number;           // bytes of the original file
+  createdAt: number;
+  pageCount?: number;     // PDFs only
+  chunkCount: number;
+  embeddingModel: string; // vectors from different models can't be compared
+};
+
+// one passage of a document and its vector
+export type DocumentChunk = {
+  index: number;          // position in the document, from 0
+  text: string;
+  page?: number;          // PDF page it starts on, from 1
+  embedding: number[];
+};
+
+// a document as stored: its description plus every chunk
+export type StoredDocument = DocumentInfo & { chunks: DocumentChunk[] };
+
+// one search result: a chunk (without its vector) and how close it is to the query
+export type ChunkMatch = {
+  document: DocumentInfo;
+  chunk: Omit<DocumentChunk, 'embedding'>;
+  score: number;          // cosine similarity, 1 is identical
+};
+
+// every document, loaded from disk on first use and kept current by our own writes
+let documents: Map<string, StoredDocument> | undefined;
+
+// store a newly ingested document under a fresh id
+export async function saveDocument(
+  document: Omit<StoredDocument, 'id' | 'createdAt' | 'chunkCount'>,
+): Promise<DocumentInfo> {
+  const saved: StoredDocument = {
+    ...document,
+    id: generateId(),
+    createdAt: Date.now(),
+    chunkCount: document.chunks.length,
+  };
+  // written via a temp file (not a .json, so never loaded) and renamed into
+  // place, so a failed write doesn't leave half a document in the index
+  const file = getDocumentFile(saved.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  try {
+    await writeFile(tmp, JSON.stringify(saved));
+    await rename(tmp, file);
+  } catch (error) {
+    await rm(tmp, { force: true });
+    throw error;
+  }
+  (await loadDocuments()).set(saved.id, saved);
+  return toInfo(saved);
+}
+
+// a document with its chunks (undefined if there is no such document)
+export async function getDocument(id: string): Promise<StoredDocument | undefined> {
+  return (await loadDocuments()).get(id);
+}
+
+// one user's documents, newest first
+export async function listDocuments(ownerId: string): Promise<DocumentInfo[]> {
+  return [...(await loadDocuments()).values()]
+    .filter(document => document.ownerId === ownerId)
+    .map(toInfo)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// remove a document from the index; false if there was nothing to remove
+export async function deleteDocument(id: string): Promise<boolean> {
+  const loaded = await loadDocuments();
+  if (!loaded.has(id)) return false;
+  loaded.delete(id);
+  await rm(getDocumentFile(id), { force: true });
+  return true;
+}
+
+// the chunks of one user's documents closest to a query vector, best first;
+// documents embedded with another model than the query are skipped
+export async function searchChunks({
+  ownerId,
+  embedding,
+  embeddingModel,
+  limit = 5,
+  minScore = 0,
+}: {
+  ownerId: string;
+  embedding: number[];
+  embeddingModel: string;
+  limit?: number;
+  minScore?: number;
+}): Promise<ChunkMatch[]> {
+  const matches: ChunkMatch[] = [];
+  for (const document of (await loadDocuments()).values()) {
+    if (document.ownerId !== ownerId || document.embeddingModel !== embeddingModel) continue;
+    for (const { embedding: vector, ...chunk } of document.chunks) {
+      if (vector.length !== embedding.length) continue;
+      const score = cosineSimilarity(embedding, vector);
+      if (score >= minScore) matches.push({ document: toInfo(document), chunk, score });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// helper: read every document file once; a file that can't be read is skipped
+// (and logged) rather than taking the whole collection down
+async function loadDocuments(): Promise<Map<string, StoredDocument>> {
+  if (documents) return documents;
+  const loaded = new Map<string, StoredDocument>();
+  for (const file of await readdir(getDocumentDir())) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const document: StoredDocument = JSON.parse(await readFile(path.join(getDocumentDir(), file), 'utf8'));
+      loaded.set(document.id, document);
+    } catch (error) {
+      console.error(`skipping unreadable document ${file}:`, error);
+    }
+  }
+  // another request may have loaded them meanwhile; keep whichever came first
+  documents ??= loaded;
+  return documents;
+}
+
+// helper: a document without its chunks
+function toInfo(document: StoredDocument): DocumentInfo {
+  const info: Omit<StoredDocument, 'chunks'> & { chunks?: DocumentChunk[] } = { ...document };
+  delete info.chunks;
+  return info;
+}
+
+// helper: the folder for documents (DOCUMENTS_DIR overrides the default)
+function getDocumentDir(): string {
+  const dir = process.env.DOCUMENTS_DIR ?? path.join(process.cwd(), '.chats', 'documents');
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// helper: where a given document lives
+function getDocumentFile(id: string): string {
+  return path.join(getDocumentDir(), `${id}.json`);
+}
@@ -0,0 +1,65 @@
+// src/util/rate-limiter.ts
+// limits how often one user (or, before sign-in, one IP address) may call an
+// endpoint, using a token bucket: each request takes a token, tokens refill at
+// a steady rate, and a full bucket allows a short burst. the backend comes from
+// the environment (RATE_LIMIT_STORE=memory)
+import { createMemoryRateLimiter } from './rate-limiters/memory-rate-limiter';
+
+// bucket size and refill speed
+export type RateLimitConfig = {
+  capacity: number;        // the most requests allowed in a burst
+  refillPerMinute: number; // how many tokens come back per minute
+};
+
+// the answer for one request
+export type RateLimitResult = {
+  ok: boolean;
+  remaining: number;    // whole tokens left after this request
+  retryAfterMs: number; // when the next token is available (0 if ok)
+};
+
+// what the routes need from a rate limiter
+export interface RateLimiter {
+  // take `cost` tokens from the bucket for `key`, if there are enough
+  take(key: string, cost?: number): Promise<RateLimitResult>;
+}
+
+// the limits for this process (RATE_LIMIT_BURST, RATE_LIMIT_PER_MINUTE)
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    capacity: readPositiveNumber(process.env.RATE_LIMIT_BURST, 10),
+    refillPerMinute: readPositiveNumber(process.env.RATE_LIMIT_PER_MINUTE, 20),
+  };
+}
+
+// one limiter per server process; created lazily on first use
+let rateLimiter: RateLimiter | undefined;
+
+// resolve the configured backend (only the in-process one for now)
+export function getRateLimiter(): RateLimiter {
+  if (rateLimiter) return rateLimiter;
+
+  const backend = process.env.RATE_LIMIT_STORE ?? 'memory';
+  switch (backend) {
+    case 'memory':
+      rateLimiter = createMemoryRateLimiter(getRateLimitConfig());
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE backend: ${backend}`);
+  }
+  return rateLimiter;
+}
+
+// the bucket a request counts against: the signed-in user, else the client's
+// IP as reported by the proxy in front of us (only trustworthy behind one)
+export function getRateLimitKey(req: Request, userId: string | undefined): string {
+  if (userId) return `user:${userId}`;
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return `ip:${forwarded || req.headers.get('x-real-ip') || 'unknown'}`;
+}
+
+// helper: parse an env var as a positive number, falling back when it isn't one
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
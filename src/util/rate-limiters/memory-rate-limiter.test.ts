@@ -0,0 +1,54 @@
+// src/util/rate-limiters/memory-rate-limiter.test.ts
+// the token bucket, driven by a fake clock so refills happen on demand
+import { describe, expect, it } from 'vitest';
+import { createMemoryRateLimiter } from './memory-rate-limiter';
+
+// a limiter with a 3-request burst that refills one token every 2 seconds,
+// plus the clock that drives it
+function setup() {
+  let time = 1_000_000;
+  const limiter = createMemoryRateLimiter({ capacity: 3, refillPerMinute: 30 }, () => time);
+  return { limiter, advance: (ms: number) => (time += ms) };
+}
+
+describe('createMemoryRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses', async () => {
+    const { limiter } = setup();
+    expect(await limiter.take('a')).toEqual({ ok: true, remaining: 2, retryAfterMs: 0 });
+    expect(await limiter.take('a')).toEqual({ ok: true, remaining: 1, retryAfterMs: 0 });
+    expect(await limiter.take('a')).toEqual({ ok: true, remaining: 0, retryAfterMs: 0 });
+    expect(await limiter.take('a')).toEqual({ ok: false, remaining: 0, retryAfterMs: 2000 });
+  });
+
+  it('says how long until the next token', async () => {
+    const { limiter, advance } = setup();
+    for (let i = 0; i < 3; i++) await limiter.take('a');
+    advance(500);
+    expect(await limiter.take('a')).toMatchObject({ ok: false, retryAfterMs: 1500 });
+  });
+
+  it('refills over time, but never past the capacity', async () => {
+    const { limiter, advance } = setup();
+    for (let i = 0; i < 3; i++) await limiter.take('a');
+    advance(2000);
+    expect(await limiter.take('a')).toMatchObject({ ok: true, remaining: 0 });
+
+    advance(60 * 60_000); // an hour idle refills the bucket, no more
+    expect(await limiter.take('a')).toMatchObject({ ok: true, remaining: 2 });
+  });
+
+  it('keeps a separate bucket per key', async () => {
+    const { limiter } = setup();
+    for (let i = 0; i < 3; i++) await limiter.take('user:a');
+    expect((await limiter.take('user:a')).ok).toBe(false);
+    expect((await limiter.take('user:b')).ok).toBe(true);
+  });
+
+  it('takes a larger cost at once, or nothing', async () => {
+    const { limiter } = setup();
+    expect(await limiter.take('a', 2)).toMatchObject({ ok: true, remaining: 1 });
+    // not enough for 2 more: refused, and the one token left stays
+    expect(await limiter.take('a', 2)).toMatchObject({ ok: false, remaining: 1, retryAfterMs: 2000 });
+    expect(await limiter.take('a')).toMatchObject({ ok: true, remaining: 0 });
+  });
+});
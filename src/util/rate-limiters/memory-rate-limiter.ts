@@ -0,0 +1,42 @@
+// src/util/rate-limiters/memory-rate-limiter.ts
+// an in-process RateLimiter: buckets live in a Map, so limits are per server
+// process and reset on restart. good enough for a single instance
+import type { RateLimitConfig, RateLimiter } from '../rate-limiter';
+
+// one bucket: tokens left as of `updatedAt`
+type Bucket = { tokens: number; updatedAt: number };
+
+// past this many buckets, full ones (idle long enough to refill) are dropped
+const PRUNE_THRESHOLD = 10_000;
+
+export function createMemoryRateLimiter(
+  { capacity, refillPerMinute }: RateLimitConfig,
+  now: () => number = Date.now, // injectable clock, e.g. for tests
+): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  // helper: the bucket's tokens right now, after refilling since its last update
+  const level = (bucket: Bucket, at: number) =>
+    Math.min(capacity, bucket.tokens + (at - bucket.updatedAt) * refillPerMs);
+
+  return {
+    async take(key, cost = 1) {
+      const at = now();
+      if (buckets.size > PRUNE_THRESHOLD) {
+        for (const [k, b] of buckets) if (level(b, at) >= capacity) buckets.delete(k);
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: at };
+      const tokens = level(bucket, at);
+
+      if (tokens < cost) {
+        buckets.set(key, { tokens, updatedAt: at });
+        return { ok: false, remaining: Math.floor(tokens), retryAfterMs: Math.ceil((cost - tokens) / refillPerMs) };
+      }
+
+      buckets.set(key, { tokens: tokens - cost, updatedAt: at });
+      return { ok: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 };
+    },
+  };
+}
@@ -3,18 +3,340 @@
 // minimal schemas for validating UI message metadata and custom data parts
 import { z } from 'zod';
 
+// the version of the stored message format (parts, tool inputs/outputs,
+// metadata); bump it together with a new entry in lib/migrations.ts whenever
+// a change here or in lib/ai-tools.ts would make older saved messages invalid
+export const CHAT_SCHEMA_VERSION = 3;
+
+// a user's rating of an answer: thumbs up or down, and an optional comment
+export const messageFeedbackSchema = z.object({
+  rating: z.enum(['up', 'down']),
+  comment: z.string().trim().max(2000).optional(),
+});
+export type MessageFeedback = z.infer<typeof messageFeedbackSchema>;
+
 // match the lightweight metadata you attach in route.ts
 export const metadataSchema = z.object({
   createdAt: z.number().optional(),
   model: z.string().optional(),
   totalTokens: z.number().optional(),
+  cost: z.number().optional(),
   // LanguageModelUsage is opaque here; store totals if present
   totalUsage: z
     .object({
       totalTokens: z.number().optional(),
     })
     .optional(),
+  // per-step details from the agent loop
+  steps: z
+    .array(
+      z.object({
+        stepNumber: z.number(),
+        finishReason: z.string(),
+        usage: z.object({ totalTokens: z.number().optional() }),
+        toolCalls: z.array(z.object({ toolCallId: z.string(), toolName: z.string() })),
+      }),
+    )
+    .optional(),
+  // conversations are trees; this points at the message being answered
+  parentId: z.string().nullable().optional(),
+  // pinned messages are never left out of the model's context
+  pinned: z.boolean().optional(),
+  // the user's rating of an answer (the `feedback` trigger), stamped by the server
+  feedback: messageFeedbackSchema.extend({ ratedAt: z.number() }).optional(),
+  // set on load for a message that no longer fits the schemas (see message-validation.ts)
+  quarantined: z.object({ reason: z.string() }).optional(),
+  // how full the context window was when this answer was generated
+  context: z
+    .object({
+      usedTokens: z.number(),
+      limitTokens: z.number(),
+      omittedThroughId: z.string().nullable(),
+      summarized: z.boolean(),
+    })
+    .optional(),
+});
+
+// custom data parts the server streams alongside text, keyed by name
+// (a part named `title` travels as `data-title` on the wire); which of them
+// are transient (shown live, never stored) is declared in lib/data-parts.ts
+export const dataPartsSchema = {
+  // a freshly generated chat title so the page header can update live
+  title: z.object({
+    title: z.string(),
+  }),
+  // a short note about how the answer is being made, e.g. a tool server
+  // that couldn't be reached and was left out
+  status: z.object({
+    message: z.string().max(500),
+    level: z.enum(['info', 'warning']),
+  }),
+  // where the agent loop is: which model call of how many, and what it is doing
+  progress: z.object({
+    step: z.number().int().positive(),
+    maxSteps: z.number().int().positive(),
+    activity: z.string().max(200),
+  }),
+  // a table the model put together (with the showTable tool); stored with the answer
+  table: z.object({
+    title: z.string().max(200).optional(),
+    columns: z.array(z.string().max(100)).min(1).max(20),
+    rows: z.array(z.array(z.union([z.string().max(1000), z.number(), z.null()])).max(20)).max(200),
+  }),
+};
+
+// the matching TypeScript shapes, inferred so schemas and types never drift
+export type MyDataParts = {
+  [K in keyof typeof dataPartsSchema]: z.infer<(typeof dataPartsSchema)[K]>;
+};
+
+// per-chat generation settings: the system prompt (a template that may use
+// {{date}}, {{time}} and {{user_name}}), a couple of sampling knobs and the
+// tools the model may call
+export const chatSettingsSchema = z.object({
+  systemPrompt: z.string().trim().min(1).max(8000),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().max(32_000).optional(),
+  presetId: z.string().optional(), // which preset these settings started from, if any
+  // the tools the model may call in this chat, plus "mcp:<server>" for each
+  // MCP server it uses; missing means the defaults (names that aren't
+  // registered any more are ignored)
+  enabledTools: z.array(z.string().max(64)).max(50).optional(),
+});
+export type ChatSettings = z.infer<typeof chatSettingsSchema>;
+
+// a named, reusable set of chat settings
+export const promptPresetSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  settings: chatSettingsSchema.omit({ presetId: true, enabledTools: true }),
+});
+export type PromptPreset = z.infer<typeof promptPresetSchema>;
+
+// sign-in / sign-up form: a simple login name and a password
+export const credentialsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2)
+    .max(40)
+    .regex(/^[\w.-]+$/, 'Use letters, numbers, dots, dashes or underscores.'),
+  password: z.string().min(8).max(200),
+});
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// what a model costs, in US dollars per million tokens; cached input is
+// usually cheaper than fresh input (defaults to the input price when missing)
+export const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cachedInput: z.number().nonnegative().optional(),
+});
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+// one external MCP (Model Context Protocol) tool server, as listed in
+// MCP_SERVERS_FILE; `name` prefixes its tools, so it is kept short and plain
+// (no underscores, since "<server>__<tool>" is split on them)
+const mcpServerFields = {
+  name: z.string().regex(/^[a-zA-Z0-9-]{1,24}$/, 'Use up to 24 letters, numbers or dashes.'),
+  label: z.string().min(1).max(80).optional(),                   // what the settings panel shows
+  timeoutMs: z.number().int().positive().max(120_000).optional(), // per tool call
+  enabledByDefault: z.boolean().optional(),                       // on for chats that haven't chosen
+};
+export const mcpServerConfigSchema = z.discriminatedUnion('transport', [
+  // a local process spoken to over stdin/stdout
+  z.object({
+    ...mcpServerFields,
+    transport: z.literal('stdio'),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    cwd: z.string().optional(),
+  }),
+  // a remote server: streamable HTTP, or the older HTTP + server-sent events
+  z.object({
+    ...mcpServerFields,
+    transport: z.enum(['http', 'sse']),
+    url: z.string().url(),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+]);
+export type McpServerConfig = z.infer<typeof mcpServerConfigSchema>;
+
+// ---- POST /api/chat request bodies ----
+
+// chat ids end up in file names and URLs, so only short url-safe ids are accepted
+const chatIdSchema = z.string().regex(/^[\w-]{1,100}$/, 'Invalid chat id.');
+const messageIdSchema = z.string().min(1).max(100);
+
+// a UI message as the client sends it; only the shape the route relies on is
+// checked here, parts and metadata are validated in full by validateUIMessages
+export const requestMessageSchema = z.looseObject({
+  id: messageIdSchema,
+  role: z.enum(['user', 'assistant', 'system']),
+  parts: z.array(z.looseObject({ type: z.string() })).max(100),
+  metadata: z.unknown().optional(),
+});
+
+// the message a client submits itself: always the user's; answers (and
+// system messages) are only ever written by the server
+const userRequestMessageSchema = requestMessageSchema.extend({ role: z.literal('user') });
+
+// fields every request shape may carry
+const requestOptions = {
+  model: z.string().max(200).optional(), // checked against the allow-list in the route
+  settings: z.unknown().optional(),      // checked with chatSettingsSchema in the route
+  customKey: z.string().max(200).optional(),
+  route: z.string().max(100).optional(),
+};
+
+// requests from our transport say what they want with `trigger`
+export const triggeredChatRequestSchema = z.discriminatedUnion('trigger', [
+  // a new user message (or an edited one, sent as a sibling)
+  z.object({
+    trigger: z.literal('submit-message'),
+    id: chatIdSchema,
+    message: userRequestMessageSchema,
+    messageId: messageIdSchema.optional(),
+    ...requestOptions,
+  }),
+  // another answer to a message (the last one on the active branch when
+  // messageId is missing)
+  z.object({
+    trigger: z.literal('regenerate-message'),
+    id: chatIdSchema,
+    messageId: messageIdSchema.optional(),
+    ...requestOptions,
+  }),
+  z.object({
+    trigger: z.literal('delete-message'),
+    id: chatIdSchema,
+    messageId: messageIdSchema,
+    ...requestOptions,
+  }),
+  z.object({
+    trigger: z.literal('pin-message'),
+    id: chatIdSchema,
+    messageId: messageIdSchema,
+    pinned: z.boolean(),
+    ...requestOptions,
+  }),
+  // rate an answer; `feedback: null` takes the rating back
+  z.object({
+    trigger: z.literal('feedback'),
+    id: chatIdSchema,
+    messageId: messageIdSchema,
+    feedback: messageFeedbackSchema.nullable(),
+    ...requestOptions,
+  }),
+  // the user approved or denied a pending tool call
+  z.object({
+    trigger: z.literal('tool-approval'),
+    id: chatIdSchema,
+    approval: z.object({
+      toolCallId: z.string().min(1).max(200),
+      approved: z.boolean(),
+      reason: z.string().max(2000).optional(),
+    }),
+    ...requestOptions,
+  }),
+]);
+
+// no trigger: continue chat `id`, optionally with a new message
+export const continueChatRequestSchema = z.object({
+  id: chatIdSchema,
+  message: userRequestMessageSchema.optional(),
+  ...requestOptions,
+});
+
+// the AI SDK's default shape: the client sends the whole conversation
+export const fullMessagesChatRequestSchema = z.object({
+  id: chatIdSchema.optional(),
+  messages: z.array(requestMessageSchema).min(1).max(1000),
+  ...requestOptions,
+});
+
+// GET /api/search (and the search page) query string: ?q=&role=&chat=&from=&to=&limit=
+// dates are calendar days (YYYY-MM-DD, UTC); `to` includes the whole day
+const dayStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD.');
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  role: z.enum(['user', 'assistant']).optional(),
+  chat: z.string().regex(/^[\w-]{1,100}$/).optional(),
+  from: dayStringSchema.optional(),
+  to: dayStringSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// GET /api/feedback/export query string: ?rating=up|down&from=&to= (days the
+// answers were rated, YYYY-MM-DD in UTC; `to` includes the whole day)
+export const feedbackExportQuerySchema = z.object({
+  rating: z.enum(['up', 'down']).optional(),
+  from: dayStringSchema.optional(),
+  to: dayStringSchema.optional(),
+});
+export type FeedbackExportQuery = z.infer<typeof feedbackExportQuerySchema>;
+
+// ---- chat archives (export/import) ----
+
+// the JSON format a chat is exported as (see lib/chat-export.ts); bump the
+// version whenever the shape changes so old archives can still be told apart
+export const CHAT_ARCHIVE_VERSION = 1;
+
+// only the outline is checked here; messages are validated in full (parts,
+// metadata, tools, data parts) by validateUIMessages before anything is saved
+export const chatArchiveSchema = z.object({
+  format: z.literal('chat-archive'),
+  version: z.literal(CHAT_ARCHIVE_VERSION),
+  exportedAt: z.number(),
+  chat: z.object({
+    id: z.string(), // the id it had where it was exported; imports always get a fresh one
+    title: z.string().max(500).nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    archived: z.boolean().optional(),
+    model: z.string().max(200).optional(),
+    settings: z.unknown().optional(), // checked with chatSettingsSchema on import
+  }),
+  messages: z
+    .array(
+      z.looseObject({
+        id: messageIdSchema,
+        role: z.enum(['user', 'assistant', 'system']),
+        parts: z.array(z.looseObject({ type: z.string() })),
+        metadata: z.unknown().optional(),
+      }),
+    )
+    .min(1)
+    .max(10_000),
+  // what the chat cost, for the record; imports don't add it to the usage ledger
+  usage: z
+    .array(
+      z.looseObject({
+        model: z.string(),
+        inputTokens: z.number(),
+        outputTokens: z.number(),
+        totalTokens: z.number(),
+        cost: z.number().optional(),
+        createdAt: z.number(),
+      }),
+    )
+    .optional(),
 });
 
-// accept the default data parts (text etc.) — extend if you add custom parts
-export const dataPartsSchema = z.any();
+// PATCH /api/chats/[id]: what to change about a chat; every field is optional
+// (the model is also checked against the allow-list in the route)
+export const chatUpdateSchema = z.object({
+  title: z.string().optional(),
+  archived: z.boolean().optional(),
+  model: z.string().optional(),
+  settings: chatSettingsSchema.optional(),
+});
+
+// POST /api/chats/[id]/shares: which branch to share (ends at `leafId`);
+// the branch that was stored last when missing
+export const shareRequestSchema = z.object({
+  leafId: messageIdSchema.optional(),
+});
@@ -0,0 +1,208 @@
+// src/util/search-index.ts
+// an in-memory inverted index over chat titles and message text (including
+// tool inputs/outputs and attachment names), so "that answer about X from last
+// week" can be found without opening every chat. the chat store keeps it up to
+// date on every write (see chat-stores/indexed-store.ts)
+import { getToolOrDynamicToolName, isToolOrDynamicToolUIPart, type UIMessage } from 'ai';
+import type { ChatSummary } from './chat-store';
+
+// what to look for, and where; only one user's chats are ever searched
+export type SearchFilters = {
+  ownerId: string;
+  role?: 'user' | 'assistant';
+  chatId?: string;
+  from?: number;  // earliest createdAt (ms since epoch)
+  to?: number;    // latest createdAt
+  limit?: number; // most hits returned (default 50)
+};
+
+// one match: a message, or a chat whose title matched (messageId null)
+export type SearchHit = {
+  chatId: string;
+  chatTitle: string | null;
+  messageId: string | null;
+  role: UIMessage['role'] | null;
+  createdAt: number;
+  snippet: string;  // the text around the first match
+  terms: string[];  // the words that matched, for highlighting
+  score: number;
+};
+
+// what the store needs from an index
+export interface SearchIndex {
+  // replace everything indexed for a chat with its current title and messages
+  indexChat(chat: ChatSummary, messages: UIMessage[]): void;
+  // forget a chat entirely
+  removeChat(chatId: string): void;
+  // matches for every word in `query` (words match by prefix), best first
+  search(query: string, filters: SearchFilters): SearchHit[];
+}
+
+// one indexed document: a chat title or a single message
+type Doc = {
+  chatId: string;
+  messageId: string | null;
+  role: UIMessage['role'] | null;
+  createdAt: number;
+  text: string;
+  termCounts: Map<string, number>;
+};
+
+// how much context a snippet shows around the first match
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 120;
+
+export function createSearchIndex(): SearchIndex {
+  const docs = new Map<string, Doc>();                 // doc key -> doc
+  const postings = new Map<string, Set<string>>();     // term -> doc keys
+  const chatDocs = new Map<string, Set<string>>();     // chat id -> its doc keys
+  const chats = new Map<string, Pick<ChatSummary, 'title' | 'ownerId'>>();
+
+  // helper: add one document to the postings lists
+  const addDoc = (key: string, doc: Doc) => {
+    docs.set(key, doc);
+    for (const term of doc.termCounts.keys()) {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(key);
+    }
+    if (!chatDocs.has(doc.chatId)) chatDocs.set(doc.chatId, new Set());
+    chatDocs.get(doc.chatId)!.add(key);
+  };
+
+  const removeChat = (chatId: string) => {
+    for (const key of chatDocs.get(chatId) ?? []) {
+      for (const term of docs.get(key)?.termCounts.keys() ?? []) {
+        const keys = postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) postings.delete(term);
+      }
+      docs.delete(key);
+    }
+    chatDocs.delete(chatId);
+    chats.delete(chatId);
+  };
+
+  return {
+    indexChat(chat, messages) {
+      removeChat(chat.id);
+      chats.set(chat.id, { title: chat.title, ownerId: chat.ownerId });
+
+      if (chat.title) {
+        addDoc(`${chat.id}:`, {
+          chatId: chat.id,
+          messageId: null,
+          role: null,
+          createdAt: chat.createdAt,
+          text: chat.title,
+          termCounts: countTerms(chat.title),
+        });
+      }
+      for (const message of messages) {
+        const text = messageText(message);
+        if (!text) continue;
+        const metadata = message.metadata as { createdAt?: number } | undefined;
+        addDoc(`${chat.id}:${message.id}`, {
+          chatId: chat.id,
+          messageId: message.id,
+          role: message.role,
+          // older messages may lack a timestamp; the chat's creation is the best guess
+          createdAt: metadata?.createdAt ?? chat.createdAt,
+          text,
+          termCounts: countTerms(text),
+        });
+      }
+    },
+
+    removeChat,
+
+    search(query, { ownerId, role, chatId, from, to, limit = 50 }) {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      if (queryTerms.length === 0) return [];
+
+      // every index term each query word matches (by prefix), and the docs holding them
+      const matches = queryTerms.map(word => {
+        const terms = Array.from(postings.keys()).filter(term => term.startsWith(word));
+        const keys = new Set(terms.flatMap(term => Array.from(postings.get(term)!)));
+        return { terms, keys };
+      });
+
+      // documents must match every word; start from the rarest to keep this cheap
+      const [rarest, ...rest] = [...matches].sort((a, b) => a.keys.size - b.keys.size);
+      const hits: SearchHit[] = [];
+      for (const key of rarest.keys) {
+        if (!rest.every(match => match.keys.has(key))) continue;
+        const doc = docs.get(key)!;
+        const chat = chats.get(doc.chatId);
+        if (chat?.ownerId !== ownerId) continue;
+        if (chatId && doc.chatId !== chatId) continue;
+        if (role && doc.role !== role) continue;
+        if ((from !== undefined && doc.createdAt < from) || (to !== undefined && doc.createdAt > to)) {
+          continue;
+        }
+
+        // more occurrences score higher; whole-word matches beat prefixes
+        const terms = matches.flatMap(match => match.terms.filter(term => doc.termCounts.has(term)));
+        const score = terms.reduce(
+          (total, term) => total + doc.termCounts.get(term)! * (queryTerms.includes(term) ? 2 : 1),
+          0,
+        );
+        hits.push({
+          chatId: doc.chatId,
+          chatTitle: chat.title,
+          messageId: doc.messageId,
+          role: doc.role,
+          createdAt: doc.createdAt,
+          snippet: makeSnippet(doc.text, terms),
+          terms,
+          score,
+        });
+      }
+
+      // best first; newer wins a tie
+      return hits.sort((a, b) => b.score - a.score || b.createdAt - a.createdAt).slice(0, limit);
+    },
+  };
+}
+
+// split text into lower-case words (letters and digits, accents included)
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean);
+}
+
+// helper: how often each word occurs in a text
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+// helper: the searchable text of a message: what was said, which tools were
+// used with what, and the names of attached files
+function messageText(message: UIMessage): string {
+  return message.parts
+    .flatMap(part => {
+      if (part.type === 'text' || part.type === 'reasoning') return [part.text];
+      if (part.type === 'file') return [part.filename ?? ''];
+      if (isToolOrDynamicToolUIPart(part)) {
+        return [
+          getToolOrDynamicToolName(part),
+          JSON.stringify(part.input ?? ''),
+          part.state === 'output-available' ? JSON.stringify(part.output ?? '') : '',
+          part.errorText ?? '',
+        ];
+      }
+      return [];
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// helper: a short excerpt around the first matching word
+function makeSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(text.length, first + SNIPPET_AFTER);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,83 @@
+// src/util/share-store.ts
+// read-only snapshots of a conversation, stored on disk next to the chats and
+// found by an unguessable token; anyone with the link can read the snapshot,
+// nobody can change it, and the owner can revoke it by deleting it
+import type { UIMessage } from 'ai';
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// one shared snapshot
+export type ChatShare = {
+  token: string;         // the secret in the link; whoever has it can read the snapshot
+  chatId: string;        // the chat it was taken from (the chat itself stays private)
+  ownerId: string;       // who shared it; only they may revoke it
+  title: string | null;
+  model?: string;
+  createdAt: number;
+  messages: UIMessage[]; // one branch, oldest first, attachments embedded
+};
+
+// what the share list shows: everything but the messages
+export type ShareInfo = Omit<ChatShare, 'messages'> & { messageCount: number };
+
+// save a new snapshot under a fresh token
+export async function createShare(share: Omit<ChatShare, 'token' | 'createdAt'>): Promise<ChatShare> {
+  // 24 random bytes: far too many tokens to guess, and url-safe once encoded
+  const saved: ChatShare = { token: randomBytes(24).toString('base64url'), createdAt: Date.now(), ...share };
+  await writeFile(getShareFile(saved.token), JSON.stringify(saved));
+  return saved;
+}
+
+// read a snapshot back (undefined if the token is unknown or was revoked)
+export async function getShare(token: string): Promise<ChatShare | undefined> {
+  if (!isShareToken(token)) return undefined;
+  try {
+    return JSON.parse(await readFile(getShareFile(token), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// one user's shares (optionally only those of one chat), newest first
+export async function listShares({ ownerId, chatId }: { ownerId: string; chatId?: string }): Promise<ShareInfo[]> {
+  const shares: ShareInfo[] = [];
+  for (const file of await readdir(getShareDir())) {
+    if (!file.endsWith('.json')) continue;
+    const share = await getShare(file.slice(0, -'.json'.length));
+    if (!share || share.ownerId !== ownerId || (chatId && share.chatId !== chatId)) continue;
+    const { messages, ...info } = share;
+    shares.push({ ...info, messageCount: messages.length });
+  }
+  return shares.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// revoke a link; false if there was nothing to revoke
+export async function deleteShare(token: string): Promise<boolean> {
+  if (!isShareToken(token) || !existsSync(getShareFile(token))) return false;
+  await rm(getShareFile(token), { force: true });
+  return true;
+}
+
+// revoke every link to a chat (used when the chat itself is deleted)
+export async function deleteSharesForChat(chatId: string, ownerId: string): Promise<void> {
+  for (const share of await listShares({ ownerId, chatId })) await deleteShare(share.token);
+}
+
+// helper: tokens end up in file names, so only the shape createShare makes is accepted
+function isShareToken(token: string): boolean {
+  return /^[\w-]{20,100}$/.test(token);
+}
+
+// helper: the folder for snapshots (SHARE_DIR overrides the default)
+function getShareDir(): string {
+  const dir = process.env.SHARE_DIR ?? path.join(process.cwd(), '.chats', 'shares');
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// helper: where a given snapshot lives
+function getShareFile(token: string): string {
+  return path.join(getShareDir(), `${token}.json`);
+}
@@ -0,0 +1,36 @@
+// src/util/stream-store.ts
+// buffers in-flight chat streams so a reloaded page (or a dropped connection)
+// can reattach and keep rendering the answer; the backend comes from the
+// environment (STREAM_STORE=memory|redis)
+import { createMemoryStreamStore } from './stream-stores/memory-stream-store';
+import { createRedisStreamStore } from './stream-stores/redis-stream-store';
+
+// what the chat route needs from a stream buffer
+export interface StreamStore {
+  // start buffering a stream (the SSE text the client receives) under an id
+  createStream(streamId: string, stream: ReadableStream<string>): Promise<void>;
+  // everything buffered so far followed by the rest as it arrives;
+  // null when the stream is unknown or already finished
+  resumeStream(streamId: string): Promise<ReadableStream<string> | null>;
+}
+
+// one buffer per server process; created lazily on first use
+let streamStore: StreamStore | undefined;
+
+// resolve the configured backend (defaults to the in-process buffer)
+export function getStreamStore(): StreamStore {
+  if (streamStore) return streamStore;
+
+  const backend = process.env.STREAM_STORE ?? 'memory';
+  switch (backend) {
+    case 'memory':
+      streamStore = createMemoryStreamStore();
+      break;
+    case 'redis':
+      streamStore = createRedisStreamStore();
+      break;
+    default:
+      throw new Error(`Unknown STREAM_STORE backend: ${backend}`);
+  }
+  return streamStore;
+}
@@ -0,0 +1,69 @@
+// src/util/stream-stores/memory-stream-store.ts
+// an in-process StreamStore: chunks are kept in memory while the answer is
+// being generated and dropped once it's done (by then it has been saved).
+// only works when every request hits the same server process
+import type { StreamStore } from '../stream-store';
+
+// one buffered stream: what arrived so far, and who is waiting for more
+type BufferedStream = {
+  chunks: string[];
+  done: boolean;
+  listeners: Set<() => void>;
+};
+
+export function createMemoryStreamStore(): StreamStore {
+  const streams = new Map<string, BufferedStream>();
+
+  return {
+    async createStream(streamId, stream) {
+      const buffered: BufferedStream = { chunks: [], done: false, listeners: new Set() };
+      streams.set(streamId, buffered);
+      const notify = () => buffered.listeners.forEach(listener => listener());
+
+      // read in the background; the original response is fed by its own copy
+      void (async () => {
+        const reader = stream.getReader();
+        try {
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffered.chunks.push(value);
+            notify();
+          }
+        } catch (error) {
+          console.error('stream buffer failed:', error);
+        } finally {
+          buffered.done = true;
+          notify();
+          streams.delete(streamId);
+        }
+      })();
+    },
+
+    async resumeStream(streamId) {
+      const buffered = streams.get(streamId);
+      if (!buffered || buffered.done) return null;
+
+      let flush: (() => void) | undefined;
+      return new ReadableStream<string>({
+        start(controller) {
+          let sent = 0;
+          // replay what we missed, then keep up as new chunks arrive
+          flush = () => {
+            while (sent < buffered.chunks.length) controller.enqueue(buffered.chunks[sent++]);
+            if (buffered.done) {
+              buffered.listeners.delete(flush!);
+              controller.close();
+            }
+          };
+          buffered.listeners.add(flush);
+          flush();
+        },
+        // the reader went away (e.g. another reload); stop pushing to it
+        cancel() {
+          if (flush) buffered.listeners.delete(flush);
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// src/util/stream-stores/redis-stream-store.ts
+// a Redis-backed StreamStore built on the `resumable-stream` package, for
+// deployments with more than one server process; connects via REDIS_URL
+import { createResumableStreamContext } from 'resumable-stream';
+import type { StreamStore } from '../stream-store';
+
+export function createRedisStreamStore(): StreamStore {
+  // we run as a long-lived server, so there's no need to extend request lifetimes
+  const context = createResumableStreamContext({ waitUntil: null });
+
+  return {
+    async createStream(streamId, stream) {
+      await context.createNewResumableStream(streamId, () => stream);
+    },
+
+    async resumeStream(streamId) {
+      // undefined (unknown) and null (finished) both mean "nothing to resume"
+      return (await context.resumeExistingStream(streamId)) ?? null;
+    },
+  };
+}
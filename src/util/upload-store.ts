@@ -0,0 +1,105 @@
+// src/util/upload-store.ts
+// attachments live on disk next to the chats (one blob plus a small JSON
+// description each), so messages only carry a short `/api/uploads/<id>` url
+// instead of a data url that would bloat every saved chat
+import { generateId } from 'ai';
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+// what we know about a stored file
+export type UploadInfo = {
+  id: string;
+  ownerId: string;   // only this user may read it back
+  mediaType: string;
+  filename: string;
+  size: number;      // bytes
+  createdAt: number;
+};
+
+// the file types the chat accepts: images for vision models, PDFs, plain text
+export const UPLOAD_MEDIA_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+];
+
+// the largest single file we store (UPLOAD_MAX_BYTES, 10 MB by default)
+export function getUploadMaxBytes(): number {
+  const parsed = Number.parseInt(process.env.UPLOAD_MAX_BYTES ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 10 * 1024 * 1024;
+}
+
+// why a file can't be stored, or null if it's fine
+export function checkUpload({ mediaType, size }: { mediaType: string; size: number }): string | null {
+  if (!UPLOAD_MEDIA_TYPES.includes(mediaType)) return `Files of type ${mediaType || 'unknown'} are not supported.`;
+  if (size > getUploadMaxBytes()) return `Files may be at most ${getUploadMaxBytes()} bytes.`;
+  if (size === 0) return 'The file is empty.';
+  return null;
+}
+
+// the url messages use to point at an upload, and the way back
+export function uploadUrl(id: string): string {
+  return `/api/uploads/${id}`;
+}
+export function parseUploadUrl(url: string): string | undefined {
+  return /^\/api\/uploads\/([\w-]+)$/.exec(url)?.[1];
+}
+
+// store a file that already passed checkUpload
+export async function saveUpload({
+  ownerId,
+  mediaType,
+  filename,
+  data,
+}: {
+  ownerId: string;
+  mediaType: string;
+  filename: string;
+  data: Uint8Array;
+}): Promise<UploadInfo> {
+  const info: UploadInfo = {
+    id: generateId(),
+    ownerId,
+    mediaType,
+    filename,
+    size: data.byteLength,
+    createdAt: Date.now(),
+  };
+  // blob first: an info file never points at a missing blob
+  await writeFile(getBlobFile(info.id), data);
+  await writeFile(getInfoFile(info.id), JSON.stringify(info, null, 2));
+  return info;
+}
+
+// read a stored file back (undefined if there is no such upload)
+export async function getUpload(id: string): Promise<{ info: UploadInfo; data: Buffer } | undefined> {
+  if (!/^[\w-]+$/.test(id)) return undefined;
+  try {
+    const info: UploadInfo = JSON.parse(await readFile(getInfoFile(id), 'utf8'));
+    return { info, data: await readFile(getBlobFile(id)) };
+  } catch {
+    return undefined;
+  }
+}
+
+// helper: the folder for uploads (UPLOAD_DIR overrides the default)
+function getUploadDir(): string {
+  const dir = process.env.UPLOAD_DIR ?? path.join(process.cwd(), '.chats', 'uploads');
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// helpers: where a given upload's bytes and description live
+function getBlobFile(id: string): string {
+  return path.join(getUploadDir(), `${id}.bin`);
+}
+function getInfoFile(id: string): string {
+  return path.join(getUploadDir(), `${id}.json`);
+}
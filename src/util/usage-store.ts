@@ -0,0 +1,66 @@
+// src/util/usage-store.ts
+// the usage ledger: one line per model answer (who, which chat, which model,
+// how many tokens, what it cost), appended to a JSON Lines file next to the
+// chats; quotas and the usage page are computed from it
+import { generateId } from 'ai';
+import { existsSync, mkdirSync } from 'fs';
+import { appendFile, readFile } from 'fs/promises';
+import path from 'path';
+
+// one entry in the ledger
+export type UsageEntry = {
+  id: string;
+  userId: string;
+  chatId: string | null;   // null for requests that didn't belong to a saved chat
+  messageId?: string;      // the assistant message the tokens were spent on
+  model: string;           // "provider:model" as reported by the provider
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number; // part of inputTokens, usually billed cheaper
+  totalTokens: number;
+  cost?: number;           // USD; missing when the model has no known price
+  createdAt: number;
+};
+
+// helper: where the ledger lives (USAGE_FILE overrides the default)
+function getUsageFile(): string {
+  const file = process.env.USAGE_FILE ?? path.join(process.cwd(), '.chats', '.usage.jsonl');
+  const dir = path.dirname(file);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  return file;
+}
+
+// add an entry; appends are a single write, so concurrent requests never clobber each other
+export async function recordUsage(entry: Omit<UsageEntry, 'id' | 'createdAt'>): Promise<UsageEntry> {
+  const saved: UsageEntry = { id: generateId(), createdAt: Date.now(), ...entry };
+  await appendFile(getUsageFile(), `${JSON.stringify(saved)}\n`);
+  return saved;
+}
+
+// read one user's entries, oldest first (optionally only those since a timestamp)
+export async function listUsage({
+  userId,
+  since = 0,
+}: {
+  userId: string;
+  since?: number;
+}): Promise<UsageEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(getUsageFile(), 'utf8');
+  } catch {
+    return []; // nothing recorded yet
+  }
+
+  const entries: UsageEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry: UsageEntry = JSON.parse(line);
+      if (entry.userId === userId && entry.createdAt >= since) entries.push(entry);
+    } catch {
+      // a torn last line (e.g. after a crash) is skipped, not fatal
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,107 @@
+// src/util/user-store.ts
+// local username/password accounts kept in one JSON file next to the chats;
+// passwords are stored as salted scrypt hashes, never in plain text
+import { generateId } from 'ai';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import type { SessionUser } from '../lib/auth';
+
+// what we keep per account
+type UserRecord = {
+  id: string;
+  name: string;         // the login name, also shown in the UI and prompts
+  passwordHash: string; // "scrypt:<salt hex>:<hash hex>"
+  createdAt: number;
+};
+
+// users keyed by lower-cased name, so "Ann" and "ann" are the same account
+type UserFile = Record<string, UserRecord>;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// helper: where the accounts live (USER_STORE_FILE overrides the default)
+function getUserFile(): string {
+  const file = process.env.USER_STORE_FILE ?? path.join(process.cwd(), '.chats', '.users.json');
+  const dir = path.dirname(file);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  return file;
+}
+
+// helper: read every account (none if the file does not exist yet)
+async function readUsers(): Promise<UserFile> {
+  try {
+    return JSON.parse(await readFile(getUserFile(), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+// helper: write the accounts via a temp file so a crash never leaves half a file
+async function writeUsers(users: UserFile): Promise<void> {
+  const file = getUserFile();
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(users, null, 2));
+  await rename(tmp, file);
+}
+
+// sign-ups are serialized so two requests can't both claim the same name
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// create an account; returns null if the name is already taken
+export async function createUser(name: string, password: string): Promise<SessionUser | null> {
+  const run = writeQueue.then(async () => {
+    const users = await readUsers();
+    const key = name.toLowerCase();
+    if (users[key]) return null;
+
+    const record: UserRecord = {
+      id: generateId(),
+      name,
+      passwordHash: await hashPassword(password),
+      createdAt: Date.now(),
+    };
+    users[key] = record;
+    await writeUsers(users);
+    return { id: record.id, name: record.name };
+  });
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+// check a name/password pair; returns the user on success, null otherwise
+export async function verifyUser(name: string, password: string): Promise<SessionUser | null> {
+  const record = (await readUsers())[name.toLowerCase()];
+  if (!record) {
+    // hash anyway so a wrong name takes as long as a wrong password
+    await hashPassword(password);
+    return null;
+  }
+  return (await checkPassword(password, record.passwordHash))
+    ? { id: record.id, name: record.name }
+    : null;
+}
+
+// helper: salted scrypt hash in a self-describing string
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+// helper: compare in constant time so timing doesn't leak how close a guess was
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}